@@ -3,31 +3,57 @@ import RecordModal from './src/ui/recordModal';
 import { RecorderService } from './src/services/recorder';
 import { FileService } from './src/services/file';
 import SettingsTab from './src/settings/settingsTab';
-import { PluginSettings, DEFAULT_SETTINGS } from './src/settings/types';
-import { TranscriberService, TranscriptionProgress } from './src/services/transcriber';
+import {
+	PluginSettings,
+	GlossaryEntry,
+	DEFAULT_PREPROCESSING_PROFILES,
+	DEFAULT_SETTINGS,
+	ProviderOptions,
+	TranscriberSettings,
+} from './src/settings/types';
+import { SessionRecording, TranscriberService, TranscriptionProgress } from './src/services/transcriber';
 import { EditProgress, EditorService } from './src/services/editor';
 import { SystemPromptTemplateSelectionModal } from './src/ui/SystemPromptTemplateSelectionModal';
+import { TranscriptionJob, TranscriptionJobStore } from './src/services/jobs';
+import { JobSelectionModal } from './src/ui/JobSelectionModal';
+import { TranscriptCache } from './src/services/cache';
+import { computeTranscriptionKey } from './src/services/hash';
+import { resolveGlossary } from './src/services/glossary';
+import {
+	TranscriptLanguage,
+	TranscriptSource,
+	renderTranscriptFrontmatter,
+	summarizeTranscriptSources,
+} from './src/services/transcript';
+import { TranslationRequest } from './src/services/translation';
+import { AudioUsage, TokenUsage, UsageKind, UsageLedger } from './src/services/usage';
+import { SUPPORTED_MEDIA_EXTENSIONS, detectMediaMimeType } from './src/services/media';
+import { SessionOrderModal } from './src/ui/SessionOrderModal';
+import { UsageSummaryModal } from './src/ui/UsageSummaryModal';
 import { t } from './src/i18n';
 
-const AUDIO_MIME_BY_EXTENSION: Record<string, string> = {
-	webm: 'audio/webm',
-	m4a: 'audio/mp4',
-	mp3: 'audio/mpeg',
-	wav: 'audio/wav',
-	ogg: 'audio/ogg',
-	flac: 'audio/flac',
-	aac: 'audio/aac',
-	opus: 'audio/ogg; codecs=opus',
-	mp4: 'audio/mp4',
-};
-
-const SUPPORTED_AUDIO_EXTENSIONS = new Set(Object.keys(AUDIO_MIME_BY_EXTENSION));
-
 interface ProcessAudioBlobOptions {
 	systemPromptOverride?: string;
 	context?: string;
 	saveRawWhenEditorEnabled?: boolean;
 	openResult?: boolean;
+	/** Vault path of the audio; enables per-chunk checkpoints so the job can be resumed. */
+	sourcePath?: string;
+	/** Vault paths of all recordings of a multi-file session, in order. */
+	sourcePaths?: string[];
+	preprocessingProfile?: string;
+	/** Transcription prompt template; defaults to the active template. */
+	promptTemplate?: string;
+	/** Expected spoken languages; defaults to the transcriber setting. */
+	languages?: string[];
+	/** Translation for this job, null for none; defaults to the translation settings. */
+	translation?: TranslationRequest | null;
+	/** Project glossary used on top of the shared glossary. */
+	glossaryProject?: string;
+	/** Speaker per stereo channel, null to transcribe mixed; defaults to the transcriber setting. */
+	channelSpeakers?: string[] | null;
+	/** Name of the system prompt template, recorded in the usage ledger. */
+	templateName?: string;
 }
 
 interface StreamFileWriter {
@@ -41,6 +67,9 @@ export default class ObsidianAITranscriber extends Plugin {
 	transcriber: TranscriberService;
 	fileService: FileService;
 	editorService: EditorService;
+	jobStore: TranscriptionJobStore;
+	transcriptCache: TranscriptCache;
+	usageLedger: UsageLedger;
 	statusBarItem: HTMLElement;
 	private statusTextEl: HTMLElement;
 	private cancelTaskBtn: HTMLButtonElement;
@@ -53,6 +82,10 @@ export default class ObsidianAITranscriber extends Plugin {
 		this.transcriber = new TranscriberService();
 		this.fileService = new FileService(this.app);
 		this.editorService = new EditorService();
+		const pluginDataDir = `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.jobStore = new TranscriptionJobStore(this.app, `${pluginDataDir}/jobs`);
+		this.transcriptCache = new TranscriptCache(this.app, `${pluginDataDir}/cache`);
+		this.usageLedger = new UsageLedger(this.app, `${pluginDataDir}/usage.jsonl`);
 
 		this.initStatusBar();
 		this.updateStatus(t('statusIdle'));
@@ -69,6 +102,56 @@ export default class ObsidianAITranscriber extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'obsidian-ai-transcriber-resume-transcription',
+			name: 'Resume Transcription',
+			callback: async () => {
+				if (this.isTaskRunning()) {
+					new Notice(t('noticeTaskAlreadyRunning'));
+					return;
+				}
+
+				const jobs = await this.jobStore.list();
+				if (!jobs.length) {
+					new Notice(t('noticeNoJobsToResume'));
+					return;
+				}
+				if (jobs.length === 1) {
+					await this.startResume(jobs[0]);
+					return;
+				}
+				new JobSelectionModal(this.app, jobs, job => {
+					if (this.isTaskRunning()) {
+						new Notice(t('noticeTaskAlreadyRunning'));
+						return;
+					}
+					void this.startResume(job);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'obsidian-ai-transcriber-clear-transcript-cache',
+			name: 'Clear Transcript Cache',
+			callback: async () => {
+				try {
+					const count = await this.transcriptCache.clear();
+					new Notice(t('noticeTranscriptCacheCleared', { count }));
+				} catch (error) {
+					new Notice(t('noticeError', { message: (error as Error).message }));
+					console.error('[AI Transcriber] Failed to clear transcript cache:', error);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: 'obsidian-ai-transcriber-show-usage',
+			name: 'Show Usage and Costs',
+			callback: () => {
+				void this.openUsageSummary();
+			},
+		});
+
 		this.addCommand({
 			id: 'obsidian-ai-transcriber-edit-transcript',
 			name: 'Edit Current Transcript with AI',
@@ -99,6 +182,11 @@ export default class ObsidianAITranscriber extends Plugin {
 					const selectedTemplateName =
 						typeof selection === 'object' && selection ? selection.name : selection;
 					const context = typeof selection === 'object' && selection ? selection.context : '';
+					const translation = typeof selection === 'object' && selection ? selection.translation : null;
+					const glossary = resolveGlossary(
+						this.settings.glossary,
+						typeof selection === 'object' && selection ? selection.glossaryProject : undefined,
+					);
 
 					if (!selectedTemplateName) {
 						new Notice(t('noticeTemplateSelectionCancelledEditing'));
@@ -135,10 +223,24 @@ export default class ObsidianAITranscriber extends Plugin {
 							baseName,
 							selectedTemplate.prompt,
 							context,
+							glossary,
+							selectedTemplateName,
 							signal,
 						);
 
 						new Notice(t('noticeEditedTranscriptSaved', { path: editedPath }));
+						if (translation) {
+							await this.translateToFile(
+								originalText,
+								dir,
+								baseName,
+								translation,
+								context,
+								glossary,
+								selectedTemplateName,
+								signal,
+							);
+						}
 						await this.fileService.openFile(editedPath);
 					} catch (error: unknown) {
 						if (this.isAbortError(error)) {
@@ -159,7 +261,7 @@ export default class ObsidianAITranscriber extends Plugin {
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu, file) => {
 				const extension = file instanceof TFile ? file.extension.toLowerCase() : '';
-				if (!(file instanceof TFile) || !SUPPORTED_AUDIO_EXTENSIONS.has(extension)) {
+				if (!(file instanceof TFile) || !SUPPORTED_MEDIA_EXTENSIONS.has(extension)) {
 					return;
 				}
 
@@ -167,50 +269,48 @@ export default class ObsidianAITranscriber extends Plugin {
 					item
 						.setTitle('Transcribe with AI')
 						.setIcon('microphone')
-						.onClick(async () => {
+						.onClick(() => {
 							if (this.isTaskRunning()) {
 								new Notice(t('noticeTaskAlreadyRunning'));
 								return;
 							}
 
-							const processFile = async (systemPromptOverride?: string, context?: string) => {
-								const arrayBuffer = await this.app.vault.readBinary(file);
-								const mime = this.getMimeTypeForExtension(file.extension);
-								const blob = new Blob([arrayBuffer], { type: mime });
+							this.selectJobOptions(async jobOptions => {
+								const blob = await this.readMediaFile(file);
 								const baseName = file.name.replace(/\.[^/.]+$/, '');
 								await this.processAudioBlob(blob, baseName, {
-									systemPromptOverride,
-									context,
+									...jobOptions,
 									saveRawWhenEditorEnabled: true,
 									openResult: true,
+									sourcePath: file.path,
 								});
-							};
-
-							if (this.settings.editor.enabled) {
-								new SystemPromptTemplateSelectionModal(this.app, this, async selection => {
-									const selectedTemplateName =
-										typeof selection === 'object' && selection ? selection.name : selection;
-									const context = typeof selection === 'object' && selection ? selection.context : '';
-
-									if (!selectedTemplateName) {
-										new Notice(t('noticeTemplateSelectionCancelledTranscribe'));
-										return;
-									}
-
-									const selectedTemplate = this.settings.editor.systemPromptTemplates.find(
-										template => template.name === selectedTemplateName,
-									);
-									if (!selectedTemplate) {
-										new Notice(t('noticeTemplateNotFoundTranscribe'));
-										return;
-									}
-
-									await processFile(selectedTemplate.prompt, context);
-								}).open();
+							});
+						});
+				});
+			}),
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				const recordings = files.filter(
+					(file): file is TFile => file instanceof TFile && SUPPORTED_MEDIA_EXTENSIONS.has(file.extension.toLowerCase()),
+				);
+				if (recordings.length < 2) {
+					return;
+				}
+
+				menu.addItem(item => {
+					item
+						.setTitle('Transcribe as one session')
+						.setIcon('microphone')
+						.onClick(() => {
+							if (this.isTaskRunning()) {
+								new Notice(t('noticeTaskAlreadyRunning'));
 								return;
 							}
-
-							await processFile();
+							new SessionOrderModal(this.app, recordings, (ordered, baseName) => {
+								this.selectJobOptions(jobOptions => this.transcribeSession(ordered, baseName, jobOptions));
+							}).open();
 						});
 				});
 			}),
@@ -295,14 +395,112 @@ export default class ObsidianAITranscriber extends Plugin {
 		this.progressNotice = null;
 	}
 
-	private getMimeTypeForExtension(extension: string): string {
-		return AUDIO_MIME_BY_EXTENSION[extension.toLowerCase()] || '';
+	/**
+	 * Open an audio or video file from the vault as a Blob, typed by its container so video is
+	 * recognised. The Blob is fetched from the file's resource URL, so the whole file is copied
+	 * into the browser's blob storage, which may keep it on disk rather than in the JavaScript
+	 * heap; decoding and hashing then read it in slices.
+	 */
+	private async readMediaFile(file: TFile): Promise<Blob> {
+		const response = await fetch(this.app.vault.getResourcePath(file));
+		if (!response.ok) {
+			throw new Error(`Could not read ${file.path} (HTTP ${response.status})`);
+		}
+		const data = await response.blob();
+		return data.slice(0, data.size, await detectMediaMimeType(data, file.extension));
+	}
+
+	/**
+	 * Ask for the per-job options, and the system prompt template when the editor is enabled,
+	 * then start the transcription. Failures before processing starts (e.g. reading the files)
+	 * are shown as a notice.
+	 */
+	private selectJobOptions(run: (jobOptions: ProcessAudioBlobOptions) => Promise<void>): void {
+		const start = async (jobOptions: ProcessAudioBlobOptions) => {
+			try {
+				await run(jobOptions);
+			} catch (error) {
+				console.error('[AI Transcriber] Starting the transcription failed:', error);
+				new Notice(t('noticeError', { message: (error as Error).message }));
+			}
+		};
+
+		new SystemPromptTemplateSelectionModal(this.app, this, async selection => {
+			const editorEnabled = this.settings.editor.enabled;
+			if (!selection || (editorEnabled && !selection.name)) {
+				new Notice(
+					editorEnabled ? t('noticeTemplateSelectionCancelledTranscribe') : t('noticeJobOptionsCancelledTranscribe'),
+				);
+				return;
+			}
+			if (this.isTaskRunning()) {
+				new Notice(t('noticeTaskAlreadyRunning'));
+				return;
+			}
+
+			const jobOptions: ProcessAudioBlobOptions = {
+				context: selection.context,
+				preprocessingProfile: selection.preprocessingProfile,
+				promptTemplate: selection.promptTemplate,
+				languages: selection.languages,
+				translation: selection.translation,
+				glossaryProject: selection.glossaryProject,
+				channelSpeakers: selection.channelSpeakers,
+			};
+			if (!editorEnabled) {
+				await start(jobOptions);
+				return;
+			}
+
+			const selectedTemplate = this.settings.editor.systemPromptTemplates.find(
+				template => template.name === selection.name,
+			);
+			if (!selectedTemplate) {
+				new Notice(t('noticeTemplateNotFoundTranscribe'));
+				return;
+			}
+			await start({ ...jobOptions, systemPromptOverride: selectedTemplate.prompt, templateName: selection.name });
+		}).open();
+	}
+
+	/**
+	 * Transcribe several vault recordings, in the given order, into one transcript and note.
+	 */
+	private async transcribeSession(files: TFile[], baseName: string, jobOptions: ProcessAudioBlobOptions): Promise<void> {
+		const recordings: SessionRecording[] = [];
+		for (const file of files) {
+			recordings.push({ blob: await this.readMediaFile(file), name: file.name });
+		}
+		await this.processAudioBlob(recordings, baseName, {
+			...jobOptions,
+			saveRawWhenEditorEnabled: true,
+			openResult: true,
+			sourcePath: files[0].path,
+			sourcePaths: files.map(file => file.path),
+		});
 	}
 
 	private getTranscriptionProgressText(progress: TranscriptionProgress): string {
+		const status = this.getTranscriptionStageText(progress);
+		return progress.channel && progress.stage !== 'done'
+			? t('statusChannel', { speaker: progress.channel, status })
+			: status;
+	}
+
+	private getTranscriptionStageText(progress: TranscriptionProgress): string {
 		if (progress.stage === 'done') {
 			return t('statusTranscribing');
 		}
+		if (progress.stage === 'preprocess' && progress.levels?.adaptive) {
+			const toDb = (value: number) => Math.round(20 * Math.log10(Math.max(value, 1e-6)));
+			return t('statusPreprocessingLevels', {
+				noise: toDb(progress.levels.noiseFloor),
+				threshold: toDb(progress.levels.silenceThreshold),
+			});
+		}
+		if (progress.stage === 'reconcile') {
+			return t('statusReconcilingSpeakers');
+		}
 		if (
 			progress.stage === 'transcribe' ||
 			progress.stage === 'upload' ||
@@ -316,6 +514,9 @@ export default class ObsidianAITranscriber extends Plugin {
 			if (total > 0) {
 				return t('statusTranscribingProgress', { current, total });
 			}
+			if (current > 0) {
+				return t('statusTranscribingStreaming', { current });
+			}
 		}
 		return t('statusTranscribing');
 	}
@@ -324,6 +525,12 @@ export default class ObsidianAITranscriber extends Plugin {
 		if (progress.stage === 'summary') {
 			return t('statusEditingSummary');
 		}
+		if (progress.stage === 'translate') {
+			return t('statusTranslatingProgress', {
+				current: progress.completedChunks ?? 0,
+				total: progress.totalChunks ?? 0,
+			});
+		}
 		return t('statusEditing');
 	}
 
@@ -365,6 +572,8 @@ export default class ObsidianAITranscriber extends Plugin {
 		baseName: string,
 		systemPromptOverride: string,
 		context: string | undefined,
+		glossary: GlossaryEntry[],
+		templateName: string | undefined,
 		signal: AbortSignal,
 	): Promise<string> {
 		const editedFileName = `${baseName}_edited_transcript.md`;
@@ -380,6 +589,8 @@ export default class ObsidianAITranscriber extends Plugin {
 				context,
 				{
 					signal,
+					glossary,
+					onUsage: usage => this.recordUsage('edit', usage, baseName, templateName),
 					onProgress: progress => {
 						const message = this.getEditProgressText(progress);
 						this.updateStatus(message);
@@ -406,8 +617,120 @@ export default class ObsidianAITranscriber extends Plugin {
 		return editedPath;
 	}
 
+	/**
+	 * Translate a transcript into `<baseName>_translated_<lang>.md`. Failures other than
+	 * cancellation are reported and swallowed so the transcripts already saved are kept.
+	 */
+	private async translateToFile(
+		text: string,
+		dir: string,
+		baseName: string,
+		translation: TranslationRequest,
+		context: string | undefined,
+		glossary: GlossaryEntry[],
+		templateName: string | undefined,
+		signal: AbortSignal,
+	): Promise<string | undefined> {
+		this.updateStatus(t('statusTranslating'));
+		this.updateProgressNotice(t('statusTranslating'));
+		try {
+			const translated = await this.editorService.translateTranscript(text, this.settings.editor, translation, context, {
+				signal,
+				glossary,
+				concurrency: this.settings.translation.concurrency,
+				onUsage: usage => this.recordUsage('translation', usage, baseName, templateName),
+				onProgress: progress => {
+					const message = this.getEditProgressText(progress);
+					this.updateStatus(message);
+					this.updateProgressNotice(message);
+				},
+			});
+			const fileName = `${baseName}_translated_${translation.targetLanguage}.md`;
+			const path = await this.fileService.saveTextWithName(translated, dir, fileName);
+			new Notice(t('noticeTranslationSaved', { path }));
+			return path;
+		} catch (error) {
+			if (this.isAbortError(error)) throw error;
+			new Notice(t('noticeErrorTranslating', { message: (error as Error).message }));
+			console.error('[AI Transcriber] Translation failed:', error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Resume a job, showing failures before processing starts (e.g. reading or hashing the
+	 * recordings) as a notice.
+	 */
+	private async startResume(job: TranscriptionJob): Promise<void> {
+		try {
+			await this.resumeJob(job);
+		} catch (error) {
+			console.error('[AI Transcriber] Resuming the transcription failed:', error);
+			new Notice(t('noticeError', { message: (error as Error).message }));
+		}
+	}
+
+	/**
+	 * Re-run an unfinished job; chunks it already completed are taken from its checkpoint.
+	 */
+	private async resumeJob(job: TranscriptionJob): Promise<void> {
+		const files: TFile[] = [];
+		for (const path of job.sourcePaths ?? [job.sourcePath]) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				new Notice(t('noticeResumeAudioMissing', { path }));
+				await this.jobStore.remove(job.id);
+				return;
+			}
+			files.push(file);
+		}
+
+		let audio: Blob | SessionRecording[];
+		if (files.length === 1) {
+			audio = await this.readMediaFile(files[0]);
+		} else {
+			audio = [];
+			for (const file of files) {
+				audio.push({ blob: await this.readMediaFile(file), name: file.name });
+			}
+		}
+		const jobId = await computeTranscriptionKey(audio, this.settings.transcriber, {
+			context: job.context,
+			preprocessingProfile: job.preprocessingProfile,
+			promptTemplate: job.promptTemplate,
+			languages: job.languages,
+			glossary: resolveGlossary(this.settings.glossary, job.glossaryProject),
+			applyGlossaryCorrections: this.settings.glossary.applyCorrections,
+			channelSpeakers: job.channelSpeakers,
+		});
+		if (jobId !== job.id) {
+			new Notice(t('noticeResumeSettingsChanged'));
+			await this.jobStore.remove(job.id);
+		}
+
+		await this.processAudioBlob(audio, job.baseName, {
+			systemPromptOverride: job.systemPromptOverride,
+			context: job.context,
+			saveRawWhenEditorEnabled: job.saveRawWhenEditorEnabled,
+			openResult: true,
+			sourcePath: job.sourcePath,
+			sourcePaths: job.sourcePaths,
+			preprocessingProfile: job.preprocessingProfile,
+			promptTemplate: job.promptTemplate,
+			languages: job.languages,
+			translation: job.translation,
+			glossaryProject: job.glossaryProject,
+			channelSpeakers: job.channelSpeakers,
+			templateName: job.templateName,
+		});
+	}
+
+	/**
+	 * Transcribe a recording, or the recordings of a multi-file session as one transcript,
+	 * then edit and translate it as configured.
+	 */
 	public async processAudioBlob(
-		blob: Blob,
+		audio: Blob | SessionRecording[],
 		baseName: string,
 		options?: ProcessAudioBlobOptions,
 	): Promise<{ rawPath?: string; editedPath?: string }> {
@@ -424,28 +747,120 @@ export default class ObsidianAITranscriber extends Plugin {
 			context,
 			saveRawWhenEditorEnabled = true,
 			openResult = true,
+			sourcePath,
+			sourcePaths,
+			preprocessingProfile,
+			promptTemplate,
+			languages,
+			glossaryProject,
+			channelSpeakers,
+			templateName,
 		} = options || {};
+		const glossary = resolveGlossary(this.settings.glossary, glossaryProject);
+		const applyGlossaryCorrections = this.settings.glossary.applyCorrections;
+		const translation =
+			options?.translation !== undefined ? options.translation : this.getDefaultTranslation();
 
 		let rawPath: string | undefined;
 		let editedPath: string | undefined;
+		let job: TranscriptionJob | null = null;
 
 		try {
-			const transcript = await this.transcriber.transcribe(blob, this.settings.transcriber, {
-				context,
-				signal,
-				onProgress: progress => {
-					const message = this.getTranscriptionProgressText(progress);
-					this.updateStatus(message);
-					this.updateProgressNotice(message);
-				},
-			});
+			const transcriberSettings = this.settings.transcriber;
+			const useCache = transcriberSettings.useTranscriptCache;
+			const transcriptionKey =
+				useCache || sourcePath
+					? await computeTranscriptionKey(audio, transcriberSettings, {
+							context,
+							preprocessingProfile,
+							promptTemplate,
+							languages,
+							glossary,
+							applyGlossaryCorrections,
+							channelSpeakers,
+						})
+					: '';
+			const cached = useCache ? await this.transcriptCache.get(transcriptionKey) : null;
+
+			let transcript: string;
+			let language: TranscriptLanguage | undefined;
+			let sources: TranscriptSource[];
+			if (cached) {
+				transcript = cached.text;
+				language = cached.language;
+				sources = summarizeTranscriptSources(cached.segments);
+				new Notice(t('noticeTranscriptFromCache'));
+			} else {
+				if (sourcePath) {
+					job = await this.jobStore.open({
+						id: transcriptionKey,
+						sourcePath,
+						sourcePaths,
+						baseName,
+						provider: transcriberSettings.provider,
+						model: transcriberSettings.model,
+						context,
+						systemPromptOverride,
+						saveRawWhenEditorEnabled,
+						preprocessingProfile,
+						promptTemplate,
+						languages,
+						translation,
+						glossaryProject,
+						channelSpeakers,
+						templateName,
+					});
+				}
+
+				const result = await this.transcriber.transcribe(audio, transcriberSettings, {
+					context,
+					signal,
+					checkpoint: job ? this.jobStore.createCheckpoint(job) : undefined,
+					preprocessingProfile,
+					promptTemplate,
+					languages,
+					glossary,
+					applyGlossaryCorrections,
+					channelSpeakers,
+					onUsage: usage => this.recordUsage('transcription', usage, baseName, templateName),
+					onProgress: progress => {
+						const message = this.getTranscriptionProgressText(progress);
+						this.updateStatus(message);
+						this.updateProgressNotice(message);
+					},
+				});
+				transcript = result.text;
+				language = result.language;
+				sources = summarizeTranscriptSources(result.segments);
+				if (result.gaps?.length) {
+					new Notice(t('noticeTranscriptGaps', { count: result.gaps.length }), 10000);
+				}
+
+				// A transcript with gaps is not cached, so the next run tries the missing parts again.
+				if (useCache && !result.gaps?.length) {
+					try {
+						await this.transcriptCache.set(
+							transcriptionKey,
+							result,
+							transcriberSettings.provider,
+							transcriberSettings.model,
+						);
+					} catch (error) {
+						console.warn('[AI Transcriber] Failed to cache transcript:', error);
+					}
+				}
+			}
 
 			const dir = this.settings.transcriber.transcriptDir;
 			const shouldEdit = this.settings.editor.enabled && systemPromptOverride !== undefined;
 
 			if (!shouldEdit || saveRawWhenEditorEnabled) {
 				const rawFileName = `${baseName}_raw_transcript.md`;
-				rawPath = await this.fileService.saveTextWithName(transcript, dir, rawFileName);
+				rawPath = await this.fileService.saveTextWithName(
+					renderTranscriptFrontmatter(language, sources) + transcript,
+					dir,
+					rawFileName,
+				);
 				new Notice(t('noticeRawTranscriptSaved', { path: rawPath }));
 			}
 
@@ -460,6 +875,8 @@ export default class ObsidianAITranscriber extends Plugin {
 					baseName,
 					systemPromptOverride!,
 					context,
+					glossary,
+					templateName,
 					signal,
 				);
 				new Notice(t('noticeEditedTranscriptSaved', { path: editedPath }));
@@ -471,6 +888,13 @@ export default class ObsidianAITranscriber extends Plugin {
 				await this.fileService.openFile(rawPath);
 			}
 
+			if (translation) {
+				await this.translateToFile(transcript, dir, baseName, translation, context, glossary, templateName, signal);
+			}
+
+			if (job) {
+				await this.jobStore.remove(job.id);
+			}
 			return { rawPath, editedPath };
 		} catch (error: unknown) {
 			if (this.isAbortError(error)) {
@@ -479,12 +903,48 @@ export default class ObsidianAITranscriber extends Plugin {
 				new Notice(t('noticeError', { message: (error as Error).message }));
 				console.error('[AI Transcriber] Processing audio failed:', error);
 			}
+			const completed = job ? Object.keys(job.completed).length : 0;
+			if (job && completed > 0) {
+				new Notice(t('noticeTranscriptionResumable', { completed, total: job.chunks?.length ?? completed }));
+			}
 			return { rawPath, editedPath };
 		} finally {
 			this.endTask();
 		}
 	}
 
+	/**
+	 * Append one provider request to the usage ledger when it is enabled. Ledger failures are
+	 * logged and never fail the job.
+	 */
+	private recordUsage(kind: UsageKind, usage: AudioUsage | TokenUsage, source: string, template?: string): void {
+		if (!this.settings.usage.enabled) return;
+		this.usageLedger.append({ timestamp: Date.now(), kind, source, template, ...usage }).catch(error => {
+			console.warn('[AI Transcriber] Failed to record usage:', error);
+		});
+	}
+
+	/**
+	 * Summarize the usage ledger by day, model and template with the current price table.
+	 */
+	public async openUsageSummary(): Promise<void> {
+		try {
+			const records = await this.usageLedger.list();
+			new UsageSummaryModal(this.app, records, this.settings.usage).open();
+		} catch (error) {
+			new Notice(t('noticeError', { message: (error as Error).message }));
+			console.error('[AI Transcriber] Failed to read usage ledger:', error);
+		}
+	}
+
+	/**
+	 * Translation from the settings, used when a job does not choose its own.
+	 */
+	private getDefaultTranslation(): TranslationRequest | null {
+		const { enabled, targetLanguage, layout } = this.settings.translation;
+		return enabled && targetLanguage ? { targetLanguage, layout } : null;
+	}
+
 	/**
 	 * Load plugin settings from disk.
 	 * 使用深度合并确保新增的嵌套属性不会丢失
@@ -492,7 +952,7 @@ export default class ObsidianAITranscriber extends Plugin {
 	public async loadSettings(): Promise<void> {
 		const savedData = await this.loadData();
 		this.settings = {
-			transcriber: { ...DEFAULT_SETTINGS.transcriber, ...savedData?.transcriber },
+			transcriber: this.migrateTranscriberSettings(savedData?.transcriber),
 			editor: {
 				...DEFAULT_SETTINGS.editor,
 				...savedData?.editor,
@@ -501,9 +961,59 @@ export default class ObsidianAITranscriber extends Plugin {
 					savedData?.editor?.systemPromptTemplates ??
 					DEFAULT_SETTINGS.editor.systemPromptTemplates,
 			},
+			translation: {
+				...DEFAULT_SETTINGS.translation,
+				...savedData?.translation,
+			},
+			glossary: {
+				...DEFAULT_SETTINGS.glossary,
+				...savedData?.glossary,
+			},
+			usage: {
+				...DEFAULT_SETTINGS.usage,
+				...savedData?.usage,
+			},
 		};
 	}
 
+	/**
+	 * Merge saved transcriber settings over defaults, moving provider-specific
+	 * fields from older versions into `providerOptions`.
+	 */
+	private migrateTranscriberSettings(saved: Record<string, unknown> | undefined): TranscriberSettings {
+		const { preferQualityWav, customBaseUrl, customAuthHeader, prompt, ...rest } = saved ?? {};
+		const transcriber = { ...DEFAULT_SETTINGS.transcriber, ...rest } as TranscriberSettings;
+		const providerOptions: Record<string, ProviderOptions> = {};
+		for (const [id, options] of Object.entries(transcriber.providerOptions ?? {})) {
+			providerOptions[id] = { ...options };
+		}
+
+		if (typeof preferQualityWav === 'boolean' && providerOptions.gemini?.preferQualityWav === undefined) {
+			providerOptions.gemini = { ...providerOptions.gemini, preferQualityWav };
+		}
+		if (typeof customBaseUrl === 'string' && providerOptions['openai-compatible']?.baseUrl === undefined) {
+			providerOptions['openai-compatible'] = {
+				...providerOptions['openai-compatible'],
+				baseUrl: customBaseUrl,
+				authHeader: typeof customAuthHeader === 'string' ? customAuthHeader : '',
+			};
+		}
+
+		transcriber.providerOptions = providerOptions;
+		transcriber.promptTemplates = (transcriber.promptTemplates ?? []).map(template => ({ ...template, hint: template.hint ?? '' }));
+		// The single prompt of older versions served both as Gemini's instructions and as the OpenAI prompt.
+		if (typeof prompt === 'string' && prompt.trim() && !saved?.promptTemplates) {
+			const name = 'Custom';
+			transcriber.promptTemplates.push({ name, prompt, hint: prompt });
+			transcriber.activePromptTemplateName = name;
+		}
+		transcriber.preprocessingProfiles = (transcriber.preprocessingProfiles ?? []).map(profile => ({
+			...DEFAULT_PREPROCESSING_PROFILES[0],
+			...profile,
+		}));
+		return transcriber;
+	}
+
 	/**
 	 * Save plugin settings to disk.
 	 */
@@ -10,8 +10,14 @@ const STRINGS = {
 		statusSavingRecording: 'Saving recording...',
 		statusTranscribing: 'AI Transcribing...',
 		statusTranscribingProgress: 'Transcribing {current}/{total}...',
+		statusTranscribingStreaming: 'Transcribing chunk {current} (still reading audio)...',
+		statusPreprocessingLevels: 'Noise floor {noise} dBFS, silence threshold {threshold} dBFS',
+		statusReconcilingSpeakers: 'Matching speakers across chunks...',
+		statusChannel: '{speaker}: {status}',
 		statusEditing: 'AI Editing...',
 		statusEditingSummary: 'Editing summary...',
+		statusTranslating: 'AI Translating...',
+		statusTranslatingProgress: 'Translating {current}/{total}...',
 		statusCancelled: 'Task cancelled',
 		statusCancelButton: 'Cancel',
 		noticeTaskCancelled: 'Task cancelled.',
@@ -27,6 +33,8 @@ const STRINGS = {
 		noticeTemplateSelectionCancelledEditing: 'Template selection cancelled. Editing aborted.',
 		noticeTemplateSelectionCancelledTranscribe: 'Template selection cancelled. Transcription aborted.',
 		noticeTemplateSelectionCancelledAudioSaved: 'Template selection cancelled. Audio saved, transcription aborted.',
+		noticeJobOptionsCancelledTranscribe: 'Transcription options cancelled. Transcription aborted.',
+		noticeJobOptionsCancelledAudioSaved: 'Transcription options cancelled. Audio saved, transcription aborted.',
 		noticeTemplateNotFoundEditing: 'Selected template not found. Editing aborted.',
 		noticeTemplateNotFoundTranscribe: 'Selected template not found. Transcription aborted.',
 		noticeTemplateNotFoundAudioSaved: 'Selected template not found. Audio saved, transcription aborted.',
@@ -36,6 +44,16 @@ const STRINGS = {
 		noticeRawTranscriptSaved: 'Raw transcript saved to {path}',
 		noticeTranscriptSaved: 'Transcript saved to {path}',
 		noticeEditedTranscriptSaved: 'Edited transcript saved to {path}',
+		noticeTranslationSaved: 'Translated transcript saved to {path}',
+		noticeErrorTranslating: 'Error translating transcript: {message}',
+		errorAuth: '{label} was rejected: the API key is missing, invalid or lacks access. Check it in the settings. ({detail})',
+		errorQuota: '{label} failed: the account has run out of quota or credit. ({detail})',
+		errorRateLimit: '{label} is still rate limited after {attempts} attempts. Try again later or lower the concurrency. ({detail})',
+		errorNetwork: '{label} could not reach the server after {attempts} attempts. Check your connection. ({detail})',
+		errorServer: '{label} failed with a server error after {attempts} attempts. The provider may be having problems. ({detail})',
+		errorContentBlocked: '{label} was blocked by the provider\'s content policy. ({detail})',
+		errorBadRequest: '{label} was refused as an invalid request. Check the model and settings. ({detail})',
+		errorUnknown: '{label} failed after {attempts} attempts: {detail}',
 		noticeRecordingSaved: 'Recording saved to {path}',
 		noticeError: 'Error: {message}',
 		noticeErrorEditing: 'Error editing transcript: {message}',
@@ -44,8 +62,30 @@ const STRINGS = {
 		noticeErrorSavingRecording: 'Error saving recording: {message}',
 		noticeErrorStartingRecording: 'Error starting recording: {message}',
 		templateSelectTitle: 'Select System Prompt Template',
+		jobOptionsTitle: 'Transcription Options',
 		templateLabel: 'Template',
 		templateDesc: 'Choose a system prompt template for the editor.',
+		transcriptionPromptTemplateLabel: 'Transcription prompt',
+		transcriptionPromptTemplateDesc: 'How the audio is transcribed: verbatim, clean verbatim, lecture, interview, phone call or your own template.',
+		preprocessingProfileLabel: 'Audio preprocessing',
+		preprocessingProfileDesc: 'Silence detection and chunking profile for this recording.',
+		transcriptionLanguageLabel: 'Spoken language',
+		transcriptionLanguageDesc: 'Language codes expected in this recording, e.g. "ko" or "de, en". Leave empty to detect automatically.',
+		glossaryProjectLabel: 'Project glossary',
+		glossaryProjectDesc: 'Terms for this project, used on top of the shared glossary.',
+		glossaryProjectNone: 'None',
+		splitChannelsLabel: 'Separate stereo channels',
+		splitChannelsDesc: 'Transcribe the left and right channels on their own, e.g. a call recorded with each side on one channel.',
+		channelSpeakerLeftLabel: 'Left channel speaker',
+		channelSpeakerRightLabel: 'Right channel speaker',
+		channelSpeakerPickParticipant: 'Pick a participant',
+		translationLabel: 'Translate transcript',
+		translationDesc: 'Also save a translated copy of the raw transcript, using the editor model.',
+		translationTargetLabel: 'Translate into',
+		translationTargetDesc: 'Language code, e.g. "en" or "zh".',
+		translationLayoutLabel: 'Translation layout',
+		translationLayoutTranslation: 'Translation only',
+		translationLayoutBilingual: 'Bilingual (original, then translation)',
 		participantsLabel: 'Participants',
 		participantsDesc: 'Select participants or add new people.',
 		participantsAdd: 'Add Participant',
@@ -83,6 +123,35 @@ const STRINGS = {
 		noticeTemplateImportInvalid: 'Invalid template JSON format.',
 		noticeTemplateImportEmpty: 'No valid templates found in imported file.',
 		noticeTemplateImportSuccess: 'Imported {count} template(s).',
+		noticeNoJobsToResume: 'No unfinished transcriptions to resume.',
+		noticeTranscriptionResumable: 'Transcription stopped after {completed}/{total} chunks. Run "Resume Transcription" to continue.',
+		noticeResumeAudioMissing: 'Audio file for this transcription no longer exists: {path}',
+		noticeResumeSettingsChanged: 'Transcriber settings changed since this transcription started. Starting over.',
+		resumeJobPlaceholder: 'Select a transcription to resume',
+		resumeJobItem: '{path} ({completed}/{total} chunks, {date})',
+		noticeTranscriptFromCache: 'Using cached transcript for this audio.',
+		noticeTranscriptGaps: 'Parts of the transcript may be missing ({count} gap(s)); they are marked with a warning in the transcript.',
+		noticeTranscriptCacheCleared: 'Cleared {count} cached transcript(s).',
+		noticeUsageLedgerCleared: 'Cleared {count} usage record(s).',
+		usageTitle: 'Usage and Costs',
+		usageEmpty: 'No usage recorded yet.',
+		usageTotal: 'Estimated total: {cost} for {requests} requests ({minutes} min of audio, {tokens} tokens).',
+		usageUnpricedNote: '{count} request(s) use models missing from the price table and are not included in the costs (marked *).',
+		usageByDay: 'By day',
+		usageByModel: 'By model',
+		usageByTemplate: 'By template',
+		usageNoTemplate: '(no template)',
+		usageColumnRequests: 'Requests',
+		usageColumnAudio: 'Audio (min)',
+		usageColumnInput: 'Input tokens',
+		usageColumnOutput: 'Output tokens',
+		usageColumnCost: 'Est. cost',
+		sessionModalTitle: 'Transcribe as One Session',
+		sessionModalDesc: 'The recordings are joined in this order into one transcript and one edited note, with a marker where each file starts.',
+		sessionNameLabel: 'Note name',
+		sessionMoveUp: 'Move up',
+		sessionMoveDown: 'Move down',
+		sessionStart: 'Transcribe',
 	},
 	zh: {
 		statusIdle: '转录器空闲',
@@ -91,8 +160,14 @@ const STRINGS = {
 		statusSavingRecording: '保存录音中...',
 		statusTranscribing: 'AI 转录中...',
 		statusTranscribingProgress: '转录中 {current}/{total}...',
+		statusTranscribingStreaming: '转录第 {current} 段（仍在读取音频）...',
+		statusPreprocessingLevels: '底噪 {noise} dBFS，静音阈值 {threshold} dBFS',
+		statusReconcilingSpeakers: '跨分段对齐说话人...',
+		statusChannel: '{speaker}：{status}',
 		statusEditing: 'AI 编辑中...',
 		statusEditingSummary: '摘要生成中...',
+		statusTranslating: 'AI 翻译中...',
+		statusTranslatingProgress: '翻译中 {current}/{total}...',
 		statusCancelled: '任务已取消',
 		statusCancelButton: '取消',
 		noticeTaskCancelled: '任务已取消。',
@@ -108,6 +183,8 @@ const STRINGS = {
 		noticeTemplateSelectionCancelledEditing: '已取消模板选择，编辑已中止。',
 		noticeTemplateSelectionCancelledTranscribe: '已取消模板选择，转录已中止。',
 		noticeTemplateSelectionCancelledAudioSaved: '已取消模板选择，音频已保存，转录已中止。',
+		noticeJobOptionsCancelledTranscribe: '已取消转录选项，转录已中止。',
+		noticeJobOptionsCancelledAudioSaved: '已取消转录选项，音频已保存，转录已中止。',
 		noticeTemplateNotFoundEditing: '未找到所选模板，编辑已中止。',
 		noticeTemplateNotFoundTranscribe: '未找到所选模板，转录已中止。',
 		noticeTemplateNotFoundAudioSaved: '未找到所选模板，音频已保存，转录已中止。',
@@ -117,6 +194,16 @@ const STRINGS = {
 		noticeRawTranscriptSaved: '原始逐字稿已保存到 {path}',
 		noticeTranscriptSaved: '逐字稿已保存到 {path}',
 		noticeEditedTranscriptSaved: '编辑后逐字稿已保存到 {path}',
+		noticeTranslationSaved: '翻译后逐字稿已保存到 {path}',
+		noticeErrorTranslating: '翻译逐字稿出错：{message}',
+		errorAuth: '{label} 被拒绝：API 密钥缺失、无效或没有权限，请在设置中检查。（{detail}）',
+		errorQuota: '{label} 失败：账户额度或余额已用完。（{detail}）',
+		errorRateLimit: '{label} 尝试 {attempts} 次后仍被限流，请稍后再试或降低并发数。（{detail}）',
+		errorNetwork: '{label} 尝试 {attempts} 次后仍无法连接服务器，请检查网络。（{detail}）',
+		errorServer: '{label} 尝试 {attempts} 次后仍返回服务器错误，服务商可能出现故障。（{detail}）',
+		errorContentBlocked: '{label} 被服务商的内容政策拦截。（{detail}）',
+		errorBadRequest: '{label} 因请求无效被拒绝，请检查模型和设置。（{detail}）',
+		errorUnknown: '{label} 尝试 {attempts} 次后失败：{detail}',
 		noticeRecordingSaved: '录音已保存到 {path}',
 		noticeError: '错误：{message}',
 		noticeErrorEditing: '编辑逐字稿出错：{message}',
@@ -125,8 +212,30 @@ const STRINGS = {
 		noticeErrorSavingRecording: '保存录音出错：{message}',
 		noticeErrorStartingRecording: '开始录音出错：{message}',
 		templateSelectTitle: '选择系统提示词模板',
+		jobOptionsTitle: '转录选项',
 		templateLabel: '模板',
 		templateDesc: '为编辑器选择一个系统提示词模板。',
+		transcriptionPromptTemplateLabel: '转录提示词',
+		transcriptionPromptTemplateDesc: '音频的转录方式：逐字、精简逐字、讲座、访谈、电话或自定义模板。',
+		preprocessingProfileLabel: '音频预处理',
+		preprocessingProfileDesc: '本次录音使用的静音检测与分段配置。',
+		transcriptionLanguageLabel: '语音语言',
+		transcriptionLanguageDesc: '本次录音预期的语言代码，例如 "ko" 或 "de, en"。留空则自动识别。',
+		glossaryProjectLabel: '项目术语表',
+		glossaryProjectDesc: '本项目的术语，与通用术语表一起使用。',
+		glossaryProjectNone: '无',
+		splitChannelsLabel: '分离立体声声道',
+		splitChannelsDesc: '分别转录左右声道，例如双方各占一个声道的通话录音。',
+		channelSpeakerLeftLabel: '左声道说话人',
+		channelSpeakerRightLabel: '右声道说话人',
+		channelSpeakerPickParticipant: '选择人物',
+		translationLabel: '翻译逐字稿',
+		translationDesc: '使用编辑模型另存一份翻译后的原始逐字稿。',
+		translationTargetLabel: '目标语言',
+		translationTargetDesc: '语言代码，例如 "en" 或 "zh"。',
+		translationLayoutLabel: '翻译排版',
+		translationLayoutTranslation: '仅译文',
+		translationLayoutBilingual: '双语对照（原文在前，译文在后）',
 		participantsLabel: '参会人员',
 		participantsDesc: '选择参会人员，或新增人物。',
 		participantsAdd: '新增人物',
@@ -164,6 +273,35 @@ const STRINGS = {
 		noticeTemplateImportInvalid: '模板 JSON 格式无效。',
 		noticeTemplateImportEmpty: '导入文件中没有有效模板。',
 		noticeTemplateImportSuccess: '已导入 {count} 个模板。',
+		noticeNoJobsToResume: '没有可继续的未完成转录。',
+		noticeTranscriptionResumable: '转录在完成 {completed}/{total} 个分段后中断。运行“Resume Transcription”命令可继续。',
+		noticeResumeAudioMissing: '该转录对应的音频文件已不存在：{path}',
+		noticeResumeSettingsChanged: '转录设置在任务开始后已更改，将从头开始转录。',
+		resumeJobPlaceholder: '选择要继续的转录',
+		resumeJobItem: '{path}（{completed}/{total} 个分段，{date}）',
+		noticeTranscriptFromCache: '已使用该音频的缓存转录结果。',
+		noticeTranscriptGaps: '转录可能有缺失部分（{count} 处），已在转录中以警告标出。',
+		noticeTranscriptCacheCleared: '已清除 {count} 条缓存转录。',
+		noticeUsageLedgerCleared: '已清除 {count} 条用量记录。',
+		usageTitle: '用量与费用',
+		usageEmpty: '暂无用量记录。',
+		usageTotal: '预估总计：{cost}，共 {requests} 次请求（音频 {minutes} 分钟，{tokens} 个 token）。',
+		usageUnpricedNote: '{count} 次请求使用的模型不在价格表中，未计入费用（标记为 *）。',
+		usageByDay: '按日期',
+		usageByModel: '按模型',
+		usageByTemplate: '按模板',
+		usageNoTemplate: '（无模板）',
+		usageColumnRequests: '请求数',
+		usageColumnAudio: '音频（分钟）',
+		usageColumnInput: '输入 token',
+		usageColumnOutput: '输出 token',
+		usageColumnCost: '预估费用',
+		sessionModalTitle: '合并为一个会话转录',
+		sessionModalDesc: '录音将按此顺序拼接为一份逐字稿和一篇编辑笔记，并在每个文件开始处插入标记。',
+		sessionNameLabel: '笔记名称',
+		sessionMoveUp: '上移',
+		sessionMoveDown: '下移',
+		sessionStart: '开始转录',
 	},
 } as const;
 
@@ -0,0 +1,81 @@
+import { App, normalizePath } from 'obsidian';
+import { TranscriptionResult } from './transcript';
+
+const CACHE_FILE_VERSION = 1;
+
+interface CachedTranscript extends TranscriptionResult {
+	version: number;
+	key: string;
+	provider: string;
+	model: string;
+	createdAt: number;
+}
+
+/**
+ * Finished transcripts stored as JSON under the plugin folder, keyed by
+ * `computeTranscriptionKey`, so identical audio is not sent to the provider twice.
+ */
+export class TranscriptCache {
+	private app: App;
+	private dir: string;
+
+	constructor(app: App, dir: string) {
+		this.app = app;
+		this.dir = normalizePath(dir);
+	}
+
+	async get(key: string): Promise<TranscriptionResult | null> {
+		const path = this.getEntryPath(key);
+		if (!(await this.app.vault.adapter.exists(path))) {
+			return null;
+		}
+		try {
+			const entry = JSON.parse(await this.app.vault.adapter.read(path)) as CachedTranscript;
+			if (entry.version !== CACHE_FILE_VERSION || typeof entry.text !== 'string') {
+				return null;
+			}
+			return { text: entry.text, segments: entry.segments ?? [], language: entry.language };
+		} catch (error) {
+			console.warn('[AI Transcriber] Ignoring unreadable cache entry:', path, error);
+			return null;
+		}
+	}
+
+	async set(key: string, result: TranscriptionResult, provider: string, model: string): Promise<void> {
+		const entry: CachedTranscript = {
+			version: CACHE_FILE_VERSION,
+			key,
+			provider,
+			model,
+			createdAt: Date.now(),
+			text: result.text,
+			segments: result.segments,
+			language: result.language,
+		};
+		if (!(await this.app.vault.adapter.exists(this.dir))) {
+			await this.app.vault.adapter.mkdir(this.dir);
+		}
+		await this.app.vault.adapter.write(this.getEntryPath(key), JSON.stringify(entry));
+	}
+
+	/**
+	 * Delete every cached transcript and return how many were removed.
+	 */
+	async clear(): Promise<number> {
+		if (!(await this.app.vault.adapter.exists(this.dir))) {
+			return 0;
+		}
+		const listing = await this.app.vault.adapter.list(this.dir);
+		let removed = 0;
+		for (const file of listing.files) {
+			if (!file.endsWith('.json')) continue;
+			await this.app.vault.adapter.remove(file);
+			removed++;
+		}
+		return removed;
+	}
+
+	private getEntryPath(key: string): string {
+		return normalizePath(`${this.dir}/${key}.json`);
+	}
+}
@@ -0,0 +1,640 @@
+import { VadOptions, detectSpeechRegions, findNonSpeechSplitPoint } from './vad';
+import { DynamicsOptions, DynamicsReport, createDynamicsProcessor } from './dynamics';
+import { AudioFilterOptions, SpectralGateOptions, createAudioFilter, createSpectralGate } from './filters';
+import { encodeFlac } from './flac';
+import { ChunkFormat } from '../settings/types';
+
+/**
+ * Levels measured on the 16 kHz audio while chunking, and the thresholds derived from them.
+ */
+export interface AudioLevels {
+	/** 10th-percentile RMS of 30 ms frames. */
+	noiseFloor: number;
+	/** 90th-percentile RMS of 30 ms frames. */
+	speechLevel: number;
+	/** Per-sample amplitude below which a split-search window counts as silence. */
+	silenceThreshold: number;
+	/** Per-sample amplitude below which audio counts towards a trimmable silence. */
+	trimThreshold: number;
+	/** Frame RMS the voice activity detector requires for speech. */
+	vadEnergyThreshold: number;
+	/** False when the profile's fixed threshold was used instead of the estimate. */
+	adaptive: boolean;
+}
+
+export interface ChunkerOptions {
+	targetSampleRate: number;
+	maxDurationSeconds: number;
+	trimLongSilence: boolean;
+	minSilenceTrimSamples: number;
+	/** Profile threshold, used as is when adaptive estimation is off or inconclusive. */
+	silenceThreshold: number;
+	adaptiveThreshold: boolean;
+	/** Voice activity detection settings, or null to use amplitude-only silence detection. */
+	vad: Omit<VadOptions, 'energyThreshold'> | null;
+	/** High-pass and hum filters applied right after resampling, or null for none. */
+	filters: AudioFilterOptions | null;
+	/** Gain stage applied after the filters, or null to pass the audio through unchanged. */
+	dynamics: DynamicsOptions | null;
+	/** Spectral gate applied to each analysed block, learning from its non-speech frames; null for none. */
+	noiseReduction: SpectralGateOptions | null;
+	silenceWindowSeconds: number;
+	searchRangeSeconds: number;
+	minChunkSeconds: number;
+	overlapSeconds: number;
+	/** Chunk encoding; WAV is also used when FLAC encoding fails. */
+	format: ChunkFormat;
+	/** Upper bound for each encoded chunk, or null when only the duration is limited. */
+	maxChunkBytes: number | null;
+}
+
+/**
+ * vad.ts, dynamics.ts, filters.ts and flac.ts functions the chunker calls. They are passed in rather than
+ * imported so the chunker can be inlined into the worker next to them.
+ */
+export interface ChunkerHelpers {
+	detectSpeechRegions: typeof detectSpeechRegions;
+	findNonSpeechSplitPoint: typeof findNonSpeechSplitPoint;
+	createDynamicsProcessor: typeof createDynamicsProcessor;
+	createAudioFilter: typeof createAudioFilter;
+	createSpectralGate: typeof createSpectralGate;
+	encodeFlac: typeof encodeFlac;
+}
+
+/**
+ * A finished 16-bit FLAC or WAV chunk, positioned in samples on the trimmed timeline.
+ */
+export interface EncodedChunk {
+	audio: ArrayBuffer;
+	mimeType: string;
+	startSample: number;
+	endSample: number;
+	/** Samples of the chunk detected as speech, or null when voice activity detection was off or found none yet. */
+	speechSamples: number | null;
+}
+
+export interface ChunkerResult {
+	/** Chunks cut while flushing the end of the recording. */
+	chunks: EncodedChunk[];
+	/**
+	 * Flattened [processedSample, sourceSample, ...] breakpoints recorded where
+	 * trimming removed audio. Empty when nothing was trimmed.
+	 */
+	timeMap: number[];
+	levels: AudioLevels;
+	/** Samples detected as speech, or null when voice activity detection was off. */
+	speechSamples: number | null;
+	/** What the gain stage did, or null when it was off. */
+	dynamics: DynamicsReport | null;
+	/** Frames the noise reducer learned the noise spectrum from, or null when it was off. */
+	noiseFrames: number | null;
+}
+
+export interface AudioChunker {
+	/**
+	 * Append mono audio at its native sample rate and return the chunks that are now final.
+	 * The rate may change between the recordings of a session.
+	 */
+	push(samples: Float32Array, sampleRate: number): EncodedChunk[];
+	/** Levels estimated from the audio pushed so far. */
+	levels(): AudioLevels;
+	/** Flush whatever is still buffered once the recording has been fully decoded. */
+	finish(): ChunkerResult;
+}
+
+/**
+ * Streaming resample → filtering → gain control → level estimation → noise reduction →
+ * silence trimming → chunking, holding only a few blocks of audio plus the chunk being
+ * filled at any time.
+ *
+ * Audio is analysed in blocks of BLOCK_SECONDS. A block's trailing quiet stretch, or a
+ * speech region still running at its end, is carried into the next block so gaps and
+ * regions are always judged whole. Chunks are cut once enough trimmed audio follows the
+ * desired end for the split search, and the trimmed audio before the next chunk's start
+ * is released.
+ */
+export function createAudioChunker(options: ChunkerOptions, helpers: ChunkerHelpers): AudioChunker {
+	const LEVEL_FRAME_SECONDS = 0.03;
+	const MIN_LEVEL_FRAMES = 20;
+	const LEVEL_BINS_PER_DECADE = 40;
+	const LEVEL_MIN_LOG10 = -6;
+	const LEVEL_BIN_COUNT = 6 * LEVEL_BINS_PER_DECADE;
+	// Silence checks compare single samples, so derived thresholds sit above the noise peaks
+	// (as multiples of the noise RMS). Trimmed runs are seconds long and need a wider margin
+	// than 0.3 s split windows for a stray noise peak not to break them.
+	const SPLIT_NOISE_PEAK_PER_RMS = 4.5;
+	const TRIM_NOISE_PEAK_PER_RMS = 5;
+	const VAD_ENERGY_PER_NOISE_RMS = 2.5;
+	const BLOCK_SECONDS = 30;
+	const RESAMPLER_ZERO_CROSSINGS = 6;
+	const RESAMPLER_PHASES = 64;
+
+	const rate = options.targetSampleRate;
+	const maxSamples = Math.max(1, Math.floor(options.maxDurationSeconds * rate));
+	const minChunkSamples = Math.floor(options.minChunkSeconds * rate);
+	const silenceWindowSamples = Math.floor(options.silenceWindowSeconds * rate);
+	const searchRangeSamples = Math.floor(options.searchRangeSeconds * rate);
+	const overlapSamples = Math.floor(options.overlapSeconds * rate);
+	const minGapSamples = options.minSilenceTrimSamples;
+	const blockSamples = Math.floor(BLOCK_SECONDS * rate);
+
+	// Resampler: polyphase windowed sinc from the input rate to `rate`.
+	let inputRate = 0;
+	let ratio = 1;
+	let half = 0;
+	let taps = 0;
+	let kernel = new Float32Array(0);
+	let history = new Float32Array(0);
+	let historyLength = 0;
+	let historyStart = 0;
+	let nextOutput = 0;
+
+	const filter = options.filters ? helpers.createAudioFilter(options.filters) : null;
+	const dynamics = options.dynamics ? helpers.createDynamicsProcessor(options.dynamics) : null;
+	const noiseGate = options.noiseReduction ? helpers.createSpectralGate(options.noiseReduction) : null;
+
+	// Frame RMS histogram for the noise floor and speech level percentiles.
+	const histogram = new Float64Array(LEVEL_BIN_COUNT);
+	const frameSamples = Math.max(1, Math.floor(rate * LEVEL_FRAME_SECONDS));
+	let frameCount = 0;
+	let frameFill = 0;
+	let frameSumSquares = 0;
+	let levels = computeLevels();
+
+	// Resampled audio waiting to be analysed, starting at source sample `pendingStart`.
+	let pending = new Float32Array(blockSamples);
+	let pendingLength = 0;
+	let pendingStart = 0;
+	let sinceBlock = 0;
+	let inDroppedGap = false;
+	let speechSamples = 0;
+	let anySpeech = false;
+	const timeMap: number[] = [];
+
+	// Trimmed audio not yet released, starting at processed sample `outStart`.
+	let out = new Float32Array(blockSamples);
+	let outStart = 0;
+	let outLength = 0;
+	let chunkStart = 0;
+	// Speech regions on the processed timeline, from the current chunk onwards.
+	const regions: number[] = [];
+
+	function setupResampler(sampleRate: number): void {
+		inputRate = sampleRate;
+		ratio = sampleRate / rate;
+		nextOutput = 0;
+		if (sampleRate === rate) return;
+		// Low-pass just below the lower of the two Nyquist frequencies.
+		const cutoff = Math.min(1, 1 / ratio) * 0.9;
+		half = Math.ceil(RESAMPLER_ZERO_CROSSINGS / cutoff);
+		taps = 2 * half;
+		kernel = new Float32Array((RESAMPLER_PHASES + 1) * taps);
+		for (let p = 0; p <= RESAMPLER_PHASES; p++) {
+			let sum = 0;
+			for (let k = 0; k < taps; k++) {
+				const x = k - half + 1 - p / RESAMPLER_PHASES;
+				const t = x * cutoff;
+				const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+				const w = x / half;
+				const blackman = Math.abs(w) >= 1 ? 0 : 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+				kernel[p * taps + k] = sinc * blackman;
+				sum += sinc * blackman;
+			}
+			for (let k = 0; k < taps; k++) {
+				kernel[p * taps + k] /= sum;
+			}
+		}
+		// Samples before the start of the recording read as silence.
+		history = new Float32Array(Math.max(blockSamples, taps));
+		historyLength = half - 1;
+		historyStart = 1 - half;
+	}
+
+	function resample(input: Float32Array, final: boolean): Float32Array {
+		if (inputRate === rate) return input;
+		if (historyLength + input.length > history.length) {
+			const grown = new Float32Array(Math.max(history.length * 2, historyLength + input.length));
+			grown.set(history.subarray(0, historyLength));
+			history = grown;
+		}
+		history.set(input, historyLength);
+		historyLength += input.length;
+
+		const available = historyStart + historyLength;
+		const limit = final ? available : available - half;
+		const count = Math.max(0, Math.ceil(limit / ratio) - nextOutput);
+		const output = new Float32Array(count);
+		const coefficients = kernel;
+		const source = history;
+		for (let n = 0; n < count; n++) {
+			const position = (nextOutput + n) * ratio;
+			let i0 = Math.floor(position);
+			let phase = Math.round((position - i0) * RESAMPLER_PHASES);
+			if (phase === RESAMPLER_PHASES) {
+				i0++;
+				phase = 0;
+			}
+			const base = i0 - half + 1 - historyStart;
+			const row = phase * taps;
+			// Only the final output samples reach past the end of the input.
+			const usable = Math.min(taps, historyLength - base);
+			let sum = 0;
+			for (let k = 0; k < usable; k++) {
+				sum += coefficients[row + k] * source[base + k];
+			}
+			output[n] = sum;
+		}
+		nextOutput += count;
+
+		// Keep only the input still needed by upcoming output samples.
+		const keepFrom = Math.min(Math.floor(nextOutput * ratio) - half + 1 - historyStart, historyLength);
+		if (keepFrom > 0) {
+			history.copyWithin(0, keepFrom, historyLength);
+			historyLength -= keepFrom;
+			historyStart += keepFrom;
+		}
+		return output;
+	}
+
+	function measureLevels(data: Float32Array): void {
+		for (let i = 0; i < data.length; i++) {
+			frameSumSquares += data[i] * data[i];
+			if (++frameFill < frameSamples) continue;
+			const rms = Math.sqrt(frameSumSquares / frameSamples);
+			const bin = Math.floor((Math.log10(Math.max(rms, 1e-6)) - LEVEL_MIN_LOG10) * LEVEL_BINS_PER_DECADE);
+			histogram[Math.min(Math.max(bin, 0), LEVEL_BIN_COUNT - 1)]++;
+			frameCount++;
+			frameFill = 0;
+			frameSumSquares = 0;
+		}
+	}
+
+	function percentile(fraction: number): number {
+		const target = Math.floor(frameCount * fraction);
+		let seen = 0;
+		for (let bin = 0; bin < LEVEL_BIN_COUNT; bin++) {
+			seen += histogram[bin];
+			if (seen > target) {
+				return Math.pow(10, LEVEL_MIN_LOG10 + (bin + 0.5) / LEVEL_BINS_PER_DECADE);
+			}
+		}
+		return 1;
+	}
+
+	/**
+	 * Estimate noise floor and speech level from frame RMS percentiles and derive
+	 * silence thresholds between them. Falls back to the profile threshold when
+	 * adaptive mode is off, too little audio has been seen, or there is no clear quiet part.
+	 */
+	function computeLevels(): AudioLevels {
+		const estimate: AudioLevels = {
+			noiseFloor: 0,
+			speechLevel: 0,
+			silenceThreshold: options.silenceThreshold,
+			trimThreshold: options.silenceThreshold,
+			// Treat the fixed threshold as a noise peak and place the detector relative to the implied floor.
+			vadEnergyThreshold: (options.silenceThreshold / SPLIT_NOISE_PEAK_PER_RMS) * VAD_ENERGY_PER_NOISE_RMS,
+			adaptive: false,
+		};
+		if (!options.adaptiveThreshold || frameCount < MIN_LEVEL_FRAMES) return estimate;
+
+		estimate.noiseFloor = Math.max(percentile(0.1), 1e-5);
+		estimate.speechLevel = percentile(0.9);
+		if (estimate.speechLevel < estimate.noiseFloor * 2) return estimate;
+
+		// Clear the noise peaks, but never demand more than the typical speech level.
+		const clamp = (value: number) => Math.min(Math.max(Math.min(value, estimate.speechLevel), 0.0005), 0.3);
+		estimate.silenceThreshold = clamp(estimate.noiseFloor * SPLIT_NOISE_PEAK_PER_RMS);
+		estimate.trimThreshold = clamp(estimate.noiseFloor * TRIM_NOISE_PEAK_PER_RMS);
+		estimate.vadEnergyThreshold = Math.min(estimate.noiseFloor * VAD_ENERGY_PER_NOISE_RMS, estimate.speechLevel / 2);
+		estimate.adaptive = true;
+		return estimate;
+	}
+
+	/**
+	 * Everything outside silent runs long enough to trim, as flattened [start, end) pairs.
+	 * Leading and trailing silence is left outside the regions whatever its length.
+	 */
+	function findLoudRegions(data: Float32Array, threshold: number): number[] {
+		const found: number[] = [];
+		let regionStart = -1;
+		let lastLoud = -1;
+		for (let i = 0; i < data.length; i++) {
+			if (Math.abs(data[i]) <= threshold) continue;
+			if (regionStart < 0) {
+				regionStart = i;
+			} else if (i - lastLoud - 1 >= minGapSamples) {
+				found.push(regionStart, lastLoud + 1);
+				regionStart = i;
+			}
+			lastLoud = i;
+		}
+		if (regionStart >= 0) {
+			found.push(regionStart, lastLoud + 1);
+		}
+		return found;
+	}
+
+	function appendPending(data: Float32Array): void {
+		if (pendingLength + data.length > pending.length) {
+			const grown = new Float32Array(Math.max(pending.length * 2, pendingLength + data.length));
+			grown.set(pending.subarray(0, pendingLength));
+			pending = grown;
+		}
+		pending.set(data, pendingLength);
+		pendingLength += data.length;
+	}
+
+	function appendOut(data: Float32Array): void {
+		// Release audio the next chunk no longer needs before growing the buffer.
+		if (chunkStart > outStart) {
+			const drop = Math.min(chunkStart - outStart, outLength);
+			out.copyWithin(0, drop, outLength);
+			outLength -= drop;
+			outStart += drop;
+		}
+		if (outLength + data.length > out.length) {
+			const grown = new Float32Array(Math.max(out.length * 2, outLength + data.length));
+			grown.set(out.subarray(0, outLength));
+			out = grown;
+		}
+		out.set(data, outLength);
+		outLength += data.length;
+	}
+
+	function dropSource(sourceEnd: number): void {
+		const processed = outStart + outLength;
+		if (timeMap.length && timeMap[timeMap.length - 2] === processed) {
+			timeMap[timeMap.length - 1] = sourceEnd;
+		} else {
+			timeMap.push(processed, sourceEnd);
+		}
+	}
+
+	function addRegion(start: number, end: number): void {
+		if (regions.length && regions[regions.length - 1] >= start) {
+			regions[regions.length - 1] = end;
+		} else {
+			regions.push(start, end);
+		}
+	}
+
+	/**
+	 * Trim and hand over the buffered audio, holding back what cannot be judged yet.
+	 */
+	function processBlock(final: boolean): void {
+		const data = pending.subarray(0, pendingLength);
+		levels = computeLevels();
+		const speech = options.vad
+			? helpers.detectSpeechRegions(data, Object.assign({}, options.vad, { energyThreshold: levels.vadEnergyThreshold }))
+			: [];
+		// Without any detected speech the detector is likely wrong about this stretch; fall back to amplitude.
+		const useSpeech = speech.length > 0;
+		const active = useSpeech ? speech : options.trimLongSilence ? findLoudRegions(data, levels.trimThreshold) : [];
+
+		let cut = pendingLength;
+		if (!final && active.length) {
+			const lastStart = active[active.length - 2];
+			const lastEnd = active[active.length - 1];
+			if (lastEnd === pendingLength) {
+				// Speech runs into the next block: let the detector see it whole there.
+				if (lastStart > 0) cut = lastStart;
+			} else if (options.trimLongSilence && pendingLength - lastEnd < minGapSamples) {
+				// The quiet tail may yet grow long enough to trim.
+				cut = lastEnd;
+			}
+		} else if (!final && options.trimLongSilence && !inDroppedGap && pendingLength < minGapSamples) {
+			cut = 0;
+		}
+
+		if (noiseGate && cut > 0) {
+			// Learn the noise from the gaps between speech regions, or from the quietest frames without them.
+			let noise: number[] | null = null;
+			if (useSpeech) {
+				noise = [];
+				let gapStart = 0;
+				for (let r = 0; r + 1 < speech.length && gapStart < cut; r += 2) {
+					if (speech[r] > gapStart) noise.push(gapStart, Math.min(speech[r], cut));
+					gapStart = speech[r + 1];
+				}
+				if (gapStart < cut) noise.push(gapStart, cut);
+			}
+			noiseGate.reduce(data.subarray(0, cut), noise);
+		}
+
+		let cursor = 0;
+		const handleGap = (end: number, closed: boolean) => {
+			if (end <= cursor) return;
+			const droppable =
+				options.trimLongSilence && (end - cursor >= minGapSamples || (cursor === 0 && inDroppedGap));
+			if (droppable) {
+				dropSource(pendingStart + end);
+			} else {
+				appendOut(data.subarray(cursor, end));
+			}
+			inDroppedGap = droppable && !closed;
+			cursor = end;
+		};
+		for (let r = 0; r + 1 < active.length && active[r] < cut; r += 2) {
+			handleGap(active[r], true);
+			const start = outStart + outLength;
+			appendOut(data.subarray(active[r], active[r + 1]));
+			if (useSpeech) {
+				addRegion(start, outStart + outLength);
+				speechSamples += active[r + 1] - active[r];
+				anySpeech = true;
+			}
+			inDroppedGap = false;
+			cursor = active[r + 1];
+		}
+		// A gap reaching the end of the block may continue into the next one.
+		handleGap(cut, final || cut < pendingLength);
+
+		pending.copyWithin(0, cut, pendingLength);
+		pendingLength -= cut;
+		pendingStart += cut;
+		sinceBlock = 0;
+	}
+
+	function findSilenceSplitPoint(desiredSplit: number, totalSamples: number): number | null {
+		const threshold = levels.silenceThreshold;
+		const sample = (index: number) => out[index - outStart];
+		const backwardStart = Math.max(outStart + silenceWindowSamples, desiredSplit - searchRangeSamples);
+		for (let i = desiredSplit; i >= backwardStart; i--) {
+			let silent = true;
+			for (let j = i - silenceWindowSamples; j < i; j++) {
+				if (Math.abs(sample(j)) > threshold) {
+					silent = false;
+					break;
+				}
+			}
+			if (silent) return i - silenceWindowSamples;
+		}
+
+		const forwardEnd = Math.min(totalSamples, desiredSplit + searchRangeSamples);
+		for (let i = desiredSplit; i < forwardEnd; i++) {
+			let silent = true;
+			for (let j = i; j < i + silenceWindowSamples && j < totalSamples; j++) {
+				if (Math.abs(sample(j)) > threshold) {
+					silent = false;
+					break;
+				}
+			}
+			if (silent) return i;
+		}
+		return null;
+	}
+
+	function encodeWav(samples: Float32Array): ArrayBuffer {
+		const dataSize = samples.length * 2;
+		const wavBuffer = new ArrayBuffer(44 + dataSize);
+		const view = new DataView(wavBuffer);
+		const writeString = (offset: number, value: string) => {
+			for (let i = 0; i < value.length; i++) {
+				view.setUint8(offset + i, value.charCodeAt(i));
+			}
+		};
+
+		writeString(0, 'RIFF');
+		view.setUint32(4, 36 + dataSize, true);
+		writeString(8, 'WAVE');
+		writeString(12, 'fmt ');
+		view.setUint32(16, 16, true);
+		view.setUint16(20, 1, true);
+		view.setUint16(22, 1, true);
+		view.setUint32(24, rate, true);
+		view.setUint32(28, rate * 2, true);
+		view.setUint16(32, 2, true);
+		view.setUint16(34, 16, true);
+		writeString(36, 'data');
+		view.setUint32(40, dataSize, true);
+
+		let offset = 44;
+		for (let i = 0; i < samples.length; i++) {
+			const sample = Math.max(-1, Math.min(1, samples[i]));
+			view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+			offset += 2;
+		}
+		return wavBuffer;
+	}
+
+	function encodeChunk(samples: Float32Array): { audio: ArrayBuffer; mimeType: string } {
+		if (options.format === 'flac') {
+			try {
+				return { audio: helpers.encodeFlac(samples, rate), mimeType: 'audio/flac' };
+			} catch (error) {
+				console.warn('[AI Transcriber] FLAC encoding failed, falling back to WAV.', error);
+			}
+		}
+		return { audio: encodeWav(samples), mimeType: 'audio/wav' };
+	}
+
+	/**
+	 * Where the current chunk should end near `desiredEnd`: at a non-speech gap when speech
+	 * regions are known, otherwise at amplitude silence, or at `desiredEnd` itself.
+	 */
+	function findChunkEnd(desiredEnd: number, totalSamples: number): number {
+		if (desiredEnd >= totalSamples) return totalSamples;
+		const splitPoint =
+			options.vad && anySpeech
+				? helpers.findNonSpeechSplitPoint(regions, desiredEnd, chunkStart, totalSamples, searchRangeSamples)
+				: findSilenceSplitPoint(desiredEnd, totalSamples);
+		return splitPoint !== null && splitPoint > chunkStart ? splitPoint : desiredEnd;
+	}
+
+	/**
+	 * Samples detected as speech between `start` and `end` on the processed timeline.
+	 */
+	function countSpeech(start: number, end: number): number | null {
+		if (!options.vad || !anySpeech) return null;
+		let total = 0;
+		for (let r = 0; r + 1 < regions.length; r += 2) {
+			total += Math.max(0, Math.min(regions[r + 1], end) - Math.max(regions[r], start));
+		}
+		return total;
+	}
+
+	/**
+	 * Cut and encode every chunk whose split point can already be decided. A chunk that
+	 * encodes larger than the byte limit is cut again, shorter in proportion to the excess.
+	 */
+	function emitReady(final: boolean): EncodedChunk[] {
+		const emitted: EncodedChunk[] = [];
+		while (chunkStart < outStart + outLength) {
+			const totalSamples = outStart + outLength;
+			const desiredEnd = Math.min(chunkStart + maxSamples, totalSamples);
+			if (!final && desiredEnd + searchRangeSamples + silenceWindowSamples >= totalSamples) break;
+
+			let endSample = findChunkEnd(desiredEnd, totalSamples);
+			let segmentSamples = endSample - chunkStart;
+			if (segmentSamples >= minChunkSamples) {
+				let encoded = encodeChunk(out.subarray(chunkStart - outStart, endSample - outStart));
+				const maxBytes = options.maxChunkBytes;
+				const minSamples = Math.max(minChunkSamples, 1);
+				while (maxBytes && encoded.audio.byteLength > maxBytes && segmentSamples > minSamples) {
+					const shorterEnd =
+						chunkStart + Math.max(minSamples, Math.floor((segmentSamples * maxBytes * 0.95) / encoded.audio.byteLength));
+					const splitPoint = findChunkEnd(shorterEnd, totalSamples);
+					endSample = splitPoint < endSample ? splitPoint : shorterEnd;
+					segmentSamples = endSample - chunkStart;
+					encoded = encodeChunk(out.subarray(chunkStart - outStart, endSample - outStart));
+				}
+				emitted.push({ ...encoded, startSample: chunkStart, endSample, speechSamples: countSpeech(chunkStart, endSample) });
+			}
+
+			// Start the next chunk slightly before this one ended so words cut at the boundary are heard whole.
+			chunkStart = endSample < totalSamples && overlapSamples > 0
+				? Math.max(endSample - overlapSamples, chunkStart + Math.floor(segmentSamples / 2))
+				: endSample;
+			while (regions.length && regions[1] <= chunkStart) {
+				regions.splice(0, 2);
+			}
+		}
+		return emitted;
+	}
+
+	function feed(resampled: Float32Array): void {
+		const filtered = filter ? filter.process(resampled) : resampled;
+		const data = dynamics ? dynamics.process(filtered) : filtered;
+		measureLevels(data);
+		appendPending(data);
+		sinceBlock += data.length;
+		if (sinceBlock >= blockSamples) {
+			processBlock(false);
+		}
+	}
+
+	return {
+		push(samples: Float32Array, sampleRate: number): EncodedChunk[] {
+			if (!inputRate) {
+				setupResampler(sampleRate);
+			} else if (sampleRate !== inputRate) {
+				// The next recording of a multi-file session: finish the previous rate's tail first.
+				if (inputRate !== rate) {
+					feed(resample(new Float32Array(0), true));
+				}
+				setupResampler(sampleRate);
+			}
+			feed(resample(samples, false));
+			return emitReady(false);
+		},
+		levels(): AudioLevels {
+			return levels;
+		},
+		finish(): ChunkerResult {
+			if (inputRate && inputRate !== rate) {
+				feed(resample(new Float32Array(0), true));
+			}
+			processBlock(true);
+			levels = computeLevels();
+			return {
+				chunks: emitReady(true),
+				timeMap,
+				levels,
+				speechSamples: options.vad ? speechSamples : null,
+				dynamics: dynamics ? dynamics.report() : null,
+				noiseFrames: noiseGate ? noiseGate.noiseFrames() : null,
+			};
+		},
+	};
+}
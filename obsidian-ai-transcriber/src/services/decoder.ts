@@ -0,0 +1,1041 @@
+/**
+ * Decode an audio or video blob into consecutive mono windows of its audio track at the
+ * track's own sample rate, mixed down or taken from a single channel, reading it in slices where the container allows so long
+ * recordings never sit in memory whole. PCM WAV is parsed directly; the audio track of
+ * WebM/Matroska (Opus, Vorbis, AAC) and MP4/MOV/M4A (AAC) is demuxed here and decoded
+ * through WebCodecs, so video frames are skipped unread. Anything else is decoded in one
+ * piece by Web Audio.
+ */
+
+const DECODE_WINDOW_SECONDS = 10;
+const READ_SLICE_BYTES = 1 << 20;
+/** Encoded packets submitted between decoder flushes (about 5 s of 20 ms Opus packets or 48 kHz AAC frames). */
+const ENCODED_PACKETS_PER_FLUSH = 256;
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const TRACK_NUMBER_ID = 0xd7;
+const TRACK_TYPE_ID = 0x83;
+const CODEC_ID_ID = 0x86;
+const CODEC_PRIVATE_ID = 0x63a2;
+const AUDIO_ID = 0xe1;
+const SAMPLING_FREQUENCY_ID = 0xb5;
+const CHANNELS_ID = 0x9f;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+/** Master elements whose children are read in place instead of skipping the whole element. */
+const WEBM_CONTAINER_IDS = new Set([SEGMENT_ID, INFO_ID, TRACKS_ID, TRACK_ENTRY_ID, AUDIO_ID, CLUSTER_ID, BLOCK_GROUP_ID]);
+const WEBM_VIDEO_TRACK_TYPE = 1;
+const WEBM_AUDIO_TRACK_TYPE = 2;
+
+/** Box types an ISO BMFF (MP4, MOV, M4A) file can start with. */
+const MP4_FIRST_BOX_TYPES = new Set(['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot']);
+/** AAC sampling frequencies by the index in an AudioSpecificConfig. */
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+export type DecodedWindowHandler = (samples: Float32Array, sampleRate: number) => Promise<void>;
+
+export interface DecodeOptions {
+	/** Rate Web Audio decodes to when the file cannot be streamed. */
+	fallbackSampleRate: number;
+	throwIfAborted: () => void;
+	/** Zero-based channel to take instead of mixing all channels; a source without it decodes as silence. */
+	channel?: number;
+	/** Called with the source's channel count once it is known, possibly more than once. */
+	onChannelCount?: (channels: number) => void;
+}
+
+interface WavFormat {
+	encoding: 'int' | 'float';
+	channels: number;
+	sampleRate: number;
+	bitsPerSample: number;
+	blockAlign: number;
+}
+
+interface WebmTrack {
+	number: number;
+	type: number;
+	codecId: string;
+	codecPrivate?: Uint8Array;
+	sampleRate: number;
+	channels: number;
+}
+
+/** A box inside the moov box, as the range of its content. */
+interface Mp4Box {
+	type: string;
+	start: number;
+	end: number;
+}
+
+interface Mp4AudioTrack {
+	config: WebCodecsAudioDecoderConfig;
+	timescale: number;
+	sampleSizes: Uint32Array;
+	/** Sample durations as run-length [count, delta] pairs (stts). */
+	sampleDurations: Array<[number, number]>;
+	chunks: Array<{ offset: number; sampleCount: number }>;
+}
+
+/** The parts of the WebCodecs API used here; the bundled DOM typings predate it. */
+interface WebCodecsAudioData {
+	readonly numberOfFrames: number;
+	readonly numberOfChannels: number;
+	readonly sampleRate: number;
+	copyTo(destination: Float32Array, options: { planeIndex: number; format: 'f32-planar' }): void;
+	close(): void;
+}
+
+interface WebCodecsAudioDecoderConfig {
+	codec: string;
+	sampleRate: number;
+	numberOfChannels: number;
+	description?: Uint8Array;
+}
+
+interface WebCodecsAudioDecoder {
+	readonly state: string;
+	configure(config: WebCodecsAudioDecoderConfig): void;
+	decode(chunk: unknown): void;
+	flush(): Promise<void>;
+	close(): void;
+}
+
+interface WebCodecsGlobals {
+	AudioDecoder?: {
+		new (init: { output: (data: WebCodecsAudioData) => void; error: (error: Error) => void }): WebCodecsAudioDecoder;
+		isConfigSupported(config: WebCodecsAudioDecoderConfig): Promise<{ supported?: boolean }>;
+	};
+	EncodedAudioChunk?: new (init: { type: 'key' | 'delta'; timestamp: number; data: Uint8Array }) => unknown;
+}
+
+/**
+ * Feed `onWindow` with the decoded audio in order. Streaming decoders that fail before
+ * producing any audio fall back to a whole-file decode.
+ */
+export async function decodeAudioInWindows(
+	blob: Blob,
+	onWindow: DecodedWindowHandler,
+	options: DecodeOptions,
+): Promise<void> {
+	let emitted = false;
+	const emit: DecodedWindowHandler = async (samples, sampleRate) => {
+		emitted = true;
+		await onWindow(samples, sampleRate);
+	};
+
+	for (const stream of [streamWav, streamMatroska, streamMp4]) {
+		try {
+			if (await stream(blob, emit, options)) {
+				return;
+			}
+		} catch (error) {
+			if (emitted || (error as Error)?.name === 'AbortError') {
+				throw error;
+			}
+			console.warn('[AI Transcriber] Streaming decode unavailable, decoding the whole file instead.', error);
+			break;
+		}
+	}
+	await decodeWhole(blob, emit, options);
+}
+
+async function decodeWhole(blob: Blob, emit: DecodedWindowHandler, options: DecodeOptions): Promise<void> {
+	const bytes = await blob.arrayBuffer();
+	options.throwIfAborted();
+	// Decoding through a context at the target rate keeps the decoded copy as small as possible.
+	const decodeCtx = new OfflineAudioContext(1, 1, options.fallbackSampleRate);
+	const buffer = await decodeCtx.decodeAudioData(bytes);
+	options.throwIfAborted();
+
+	options.onChannelCount?.(buffer.numberOfChannels);
+	const channels: Float32Array[] = [];
+	for (let c = 0; c < buffer.numberOfChannels; c++) {
+		if (options.channel === undefined || options.channel === c) {
+			channels.push(buffer.getChannelData(c));
+		}
+	}
+	const windowFrames = Math.round(buffer.sampleRate * DECODE_WINDOW_SECONDS);
+	for (let start = 0; start < buffer.length; start += windowFrames) {
+		options.throwIfAborted();
+		const end = Math.min(start + windowFrames, buffer.length);
+		const mono = new Float32Array(end - start);
+		for (const channel of channels) {
+			for (let i = start; i < end; i++) {
+				mono[i - start] += channel[i] / channels.length;
+			}
+		}
+		await emit(mono, buffer.sampleRate);
+	}
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<ArrayBuffer> {
+	return await blob.slice(start, end).arrayBuffer();
+}
+
+function readTag(view: DataView, offset: number): string {
+	return String.fromCharCode(
+		view.getUint8(offset),
+		view.getUint8(offset + 1),
+		view.getUint8(offset + 2),
+		view.getUint8(offset + 3),
+	);
+}
+
+/**
+ * Stream the data chunk of a PCM or IEEE float WAV file. Returns false for other files.
+ */
+async function streamWav(blob: Blob, emit: DecodedWindowHandler, options: DecodeOptions): Promise<boolean> {
+	if (blob.size < 12) return false;
+	const header = new DataView(await readBytes(blob, 0, 12));
+	if (readTag(header, 0) !== 'RIFF' || readTag(header, 8) !== 'WAVE') return false;
+
+	let format: WavFormat | null = null;
+	let offset = 12;
+	while (offset + 8 <= blob.size) {
+		const chunkHeader = new DataView(await readBytes(blob, offset, offset + 8));
+		const id = readTag(chunkHeader, 0);
+		const size = chunkHeader.getUint32(4, true);
+		const body = offset + 8;
+		if (id === 'fmt ') {
+			format = parseWavFormat(new DataView(await readBytes(blob, body, body + Math.min(size, 40))));
+		} else if (id === 'data') {
+			if (!format) {
+				throw new Error('WAV data chunk comes before its format chunk.');
+			}
+			// Recorders that never finalised the header leave the size at 0 or 0xFFFFFFFF.
+			const end = size === 0 || body + size > blob.size ? blob.size : body + size;
+			options.onChannelCount?.(format.channels);
+			await streamPcm(blob, body, end, format, emit, options);
+			return true;
+		}
+		offset = body + size + (size % 2);
+	}
+	throw new Error('WAV file has no data chunk.');
+}
+
+function parseWavFormat(view: DataView): WavFormat {
+	let formatTag = view.getUint16(0, true);
+	const channels = view.getUint16(2, true);
+	const sampleRate = view.getUint32(4, true);
+	const blockAlign = view.getUint16(12, true);
+	const bitsPerSample = view.getUint16(14, true);
+	// WAVE_FORMAT_EXTENSIBLE keeps the real format tag at the start of its sub-format GUID.
+	if (formatTag === 0xfffe && view.byteLength >= 26) {
+		formatTag = view.getUint16(24, true);
+	}
+	const supported =
+		(formatTag === 1 && [8, 16, 24, 32].includes(bitsPerSample)) ||
+		(formatTag === 3 && [32, 64].includes(bitsPerSample));
+	if (!supported || !channels || !sampleRate || blockAlign !== (channels * bitsPerSample) / 8) {
+		throw new Error(`Unsupported WAV encoding (format ${formatTag}, ${bitsPerSample}-bit).`);
+	}
+	return { encoding: formatTag === 3 ? 'float' : 'int', channels, sampleRate, bitsPerSample, blockAlign };
+}
+
+async function streamPcm(
+	blob: Blob,
+	start: number,
+	end: number,
+	format: WavFormat,
+	emit: DecodedWindowHandler,
+	options: DecodeOptions,
+): Promise<void> {
+	const windowBytes = Math.max(1, Math.round(format.sampleRate * DECODE_WINDOW_SECONDS)) * format.blockAlign;
+	for (let position = start; position + format.blockAlign <= end; position += windowBytes) {
+		options.throwIfAborted();
+		const frames = Math.floor(Math.min(windowBytes, end - position) / format.blockAlign);
+		const bytes = await readBytes(blob, position, position + frames * format.blockAlign);
+		await emit(pcmToMono(bytes, frames, format, options.channel), format.sampleRate);
+	}
+}
+
+/**
+ * Mix interleaved PCM frames down to mono, or take only `channel` when it is given.
+ */
+function pcmToMono(bytes: ArrayBuffer, frames: number, format: WavFormat, channel?: number): Float32Array {
+	const { channels, bitsPerSample } = format;
+	const count = frames * channels;
+	let read: (index: number) => number;
+	if (format.encoding === 'float') {
+		const samples = bitsPerSample === 64 ? new Float64Array(bytes, 0, count) : new Float32Array(bytes, 0, count);
+		read = index => samples[index];
+	} else if (bitsPerSample === 8) {
+		const samples = new Uint8Array(bytes, 0, count);
+		read = index => (samples[index] - 128) / 128;
+	} else if (bitsPerSample === 16) {
+		const samples = new Int16Array(bytes, 0, count);
+		read = index => samples[index] / 0x8000;
+	} else if (bitsPerSample === 24) {
+		const samples = new Uint8Array(bytes, 0, count * 3);
+		read = index => {
+			const value = samples[index * 3] | (samples[index * 3 + 1] << 8) | (samples[index * 3 + 2] << 16);
+			return ((value << 8) >> 8) / 0x800000;
+		};
+	} else {
+		const samples = new Int32Array(bytes, 0, count);
+		read = index => samples[index] / 0x80000000;
+	}
+
+	const mono = new Float32Array(frames);
+	if (channel !== undefined) {
+		if (channel < channels) {
+			for (let frame = 0; frame < frames; frame++) {
+				mono[frame] = read(frame * channels + channel);
+			}
+		}
+		return mono;
+	}
+	for (let frame = 0; frame < frames; frame++) {
+		let sum = 0;
+		for (let c = 0; c < channels; c++) {
+			sum += read(frame * channels + c);
+		}
+		mono[frame] = sum / channels;
+	}
+	return mono;
+}
+
+/**
+ * Sequential reader over a blob that only keeps a slice of it in memory.
+ */
+class BlobReader {
+	private blob: Blob;
+	private buffer = new Uint8Array(0);
+	private bufferStart = 0;
+	position = 0;
+
+	constructor(blob: Blob) {
+		this.blob = blob;
+	}
+
+	get remaining(): number {
+		return this.blob.size - this.position;
+	}
+
+	/**
+	 * Make sure the next `length` bytes are buffered. Returns false past the end of the blob.
+	 */
+	async fill(length: number): Promise<boolean> {
+		const end = this.position + length;
+		if (end > this.blob.size) return false;
+		if (this.position >= this.bufferStart && end <= this.bufferStart + this.buffer.length) return true;
+		const readEnd = Math.min(this.blob.size, Math.max(end, this.position + READ_SLICE_BYTES));
+		this.buffer = new Uint8Array(await readBytes(this.blob, this.position, readEnd));
+		this.bufferStart = this.position;
+		return true;
+	}
+
+	byte(): number {
+		return this.buffer[this.position++ - this.bufferStart];
+	}
+
+	/**
+	 * The next `length` buffered bytes, without moving past them.
+	 */
+	peek(length: number): Uint8Array {
+		const start = this.position - this.bufferStart;
+		return this.buffer.subarray(start, start + length);
+	}
+
+	bytes(length: number): Uint8Array {
+		const start = this.position - this.bufferStart;
+		this.position += length;
+		return this.buffer.slice(start, start + length);
+	}
+
+	skip(length: number): void {
+		this.position += length;
+	}
+}
+
+/**
+ * Read an EBML element ID and size. The size is -1 for "unknown", which live recorders
+ * use for the segment and clusters. Returns null at the end of the data.
+ */
+async function readElementHeader(reader: BlobReader): Promise<{ id: number; size: number } | null> {
+	if (reader.remaining < 2 || !(await reader.fill(Math.min(12, reader.remaining)))) return null;
+	const first = reader.byte();
+	const idLength = first >= 0x80 ? 1 : first >= 0x40 ? 2 : first >= 0x20 ? 3 : first >= 0x10 ? 4 : 0;
+	if (!idLength) {
+		throw new Error('Invalid WebM element ID.');
+	}
+	if (reader.remaining < idLength) return null;
+	let id = first;
+	for (let i = 1; i < idLength; i++) {
+		id = id * 256 + reader.byte();
+	}
+
+	const sizeFirst = reader.byte();
+	let sizeLength = 1;
+	while (sizeLength <= 8 && !(sizeFirst & (0x100 >> sizeLength))) {
+		sizeLength++;
+	}
+	if (sizeLength > 8) {
+		throw new Error('Invalid WebM element size.');
+	}
+	if (reader.remaining < sizeLength - 1) return null;
+	let size = sizeFirst & (0xff >> sizeLength);
+	let unknown = size === 0xff >> sizeLength;
+	for (let i = 1; i < sizeLength; i++) {
+		const next = reader.byte();
+		unknown = unknown && next === 0xff;
+		size = size * 256 + next;
+	}
+	return { id, size: unknown ? -1 : size };
+}
+
+function readUnsigned(bytes: Uint8Array): number {
+	let value = 0;
+	for (let i = 0; i < bytes.length; i++) {
+		value = value * 256 + bytes[i];
+	}
+	return value;
+}
+
+function readFloat(bytes: Uint8Array): number {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	return bytes.length === 4 ? view.getFloat32(0) : bytes.length === 8 ? view.getFloat64(0) : 0;
+}
+
+/**
+ * Mix decoded audio down to mono, or take only `channel` when it is given.
+ */
+function mixToMono(data: WebCodecsAudioData, channel?: number): Float32Array {
+	const mono = new Float32Array(data.numberOfFrames);
+	if (channel !== undefined) {
+		if (channel < data.numberOfChannels) {
+			data.copyTo(mono, { planeIndex: channel, format: 'f32-planar' });
+		}
+		return mono;
+	}
+	const plane = new Float32Array(data.numberOfFrames);
+	for (let c = 0; c < data.numberOfChannels; c++) {
+		data.copyTo(plane, { planeIndex: c, format: 'f32-planar' });
+		for (let i = 0; i < plane.length; i++) {
+			mono[i] += plane[i] / data.numberOfChannels;
+		}
+	}
+	return mono;
+}
+
+function concatSamples(parts: Float32Array[]): Float32Array {
+	const total = parts.reduce((sum, part) => sum + part.length, 0);
+	const joined = new Float32Array(total);
+	let offset = 0;
+	for (const part of parts) {
+		joined.set(part, offset);
+		offset += part.length;
+	}
+	return joined;
+}
+
+/**
+ * WebCodecs audio decoder that hands its mono output to `emit` in windows of about
+ * DECODE_WINDOW_SECONDS, flushing every ENCODED_PACKETS_PER_FLUSH packets.
+ */
+class WindowedAudioDecoder {
+	private decoder: WebCodecsAudioDecoder;
+	private EncodedAudioChunkCtor: NonNullable<WebCodecsGlobals['EncodedAudioChunk']>;
+	private emit: DecodedWindowHandler;
+	private options: DecodeOptions;
+	private decodeError: Error | null = null;
+	private decoded: Float32Array[] = [];
+	private decodedFrames = 0;
+	private outputRate = 0;
+	private packetsSinceFlush = 0;
+
+	private constructor(
+		AudioDecoderCtor: NonNullable<WebCodecsGlobals['AudioDecoder']>,
+		EncodedAudioChunkCtor: NonNullable<WebCodecsGlobals['EncodedAudioChunk']>,
+		config: WebCodecsAudioDecoderConfig,
+		emit: DecodedWindowHandler,
+		options: DecodeOptions,
+	) {
+		this.EncodedAudioChunkCtor = EncodedAudioChunkCtor;
+		this.emit = emit;
+		this.options = options;
+		this.decoder = new AudioDecoderCtor({
+			output: data => {
+				try {
+					this.options.onChannelCount?.(data.numberOfChannels);
+					this.decoded.push(mixToMono(data, this.options.channel));
+					this.decodedFrames += data.numberOfFrames;
+					this.outputRate = data.sampleRate;
+				} finally {
+					data.close();
+				}
+			},
+			error: error => {
+				this.decodeError = error;
+			},
+		});
+		this.decoder.configure(config);
+	}
+
+	/**
+	 * Throws when WebCodecs is unavailable or cannot decode `config`, so the caller can fall back.
+	 */
+	static async open(
+		config: WebCodecsAudioDecoderConfig,
+		emit: DecodedWindowHandler,
+		options: DecodeOptions,
+	): Promise<WindowedAudioDecoder> {
+		const codecs = window as unknown as WebCodecsGlobals;
+		if (!codecs.AudioDecoder || !codecs.EncodedAudioChunk) {
+			throw new Error('WebCodecs audio decoding is not available.');
+		}
+		const support = await codecs.AudioDecoder.isConfigSupported(config);
+		if (!support.supported) {
+			throw new Error(`WebCodecs cannot decode this ${config.codec} stream.`);
+		}
+		return new WindowedAudioDecoder(codecs.AudioDecoder, codecs.EncodedAudioChunk, config, emit, options);
+	}
+
+	/**
+	 * Queue one encoded packet; `timestamp` is in microseconds.
+	 */
+	async decode(data: Uint8Array, timestamp: number): Promise<void> {
+		if (this.decodeError) throw this.decodeError;
+		this.decoder.decode(new this.EncodedAudioChunkCtor({ type: 'key', timestamp, data }));
+		if (++this.packetsSinceFlush >= ENCODED_PACKETS_PER_FLUSH) {
+			await this.drain(false);
+		}
+	}
+
+	async finish(): Promise<void> {
+		await this.drain(true);
+	}
+
+	close(): void {
+		if (this.decoder.state !== 'closed') {
+			this.decoder.close();
+		}
+	}
+
+	private async drain(final: boolean): Promise<void> {
+		await this.decoder.flush();
+		if (this.decodeError) throw this.decodeError;
+		this.options.throwIfAborted();
+		if (this.decoded.length && (final || this.decodedFrames >= this.outputRate * DECODE_WINDOW_SECONDS)) {
+			const samples = concatSamples(this.decoded);
+			this.decoded = [];
+			this.decodedFrames = 0;
+			await this.emit(samples, this.outputRate);
+		}
+		this.packetsSinceFlush = 0;
+	}
+}
+
+/**
+ * WebCodecs configuration for AAC described by its AudioSpecificConfig. The rate and channel
+ * count in the config win over the container's, which some muxers get wrong.
+ */
+function aacDecoderConfig(
+	audioSpecificConfig: Uint8Array,
+	container: { sampleRate: number; numberOfChannels: number },
+): WebCodecsAudioDecoderConfig {
+	const first = audioSpecificConfig[0];
+	const second = audioSpecificConfig[1];
+	// Object type 31 escapes to a six-bit extension, which shifts the fields after it.
+	const escaped = first >> 3 === 31;
+	const objectType = escaped ? 32 + (((first & 0x07) << 3) | (second >> 5)) : first >> 3;
+	const channelConfig = (second >> 3) & 0x0f;
+	const sampleRate = escaped ? 0 : AAC_SAMPLE_RATES[((first & 0x07) << 1) | (second >> 7)] ?? 0;
+	const numberOfChannels = !escaped && channelConfig >= 1 && channelConfig <= 6 ? channelConfig : 0;
+	return {
+		codec: `mp4a.40.${objectType}`,
+		sampleRate: sampleRate || container.sampleRate || 48000,
+		numberOfChannels: numberOfChannels || container.numberOfChannels || 2,
+		description: audioSpecificConfig,
+	};
+}
+
+/**
+ * An EBML variable-length integer in `data` at `offset`, with its length in bytes.
+ */
+function readVarint(data: Uint8Array, offset: number): { value: number; length: number } {
+	let length = 1;
+	while (length <= 8 && !(data[offset] & (0x100 >> length))) {
+		length++;
+	}
+	if (length > 8) {
+		throw new Error('Invalid WebM variable-length integer.');
+	}
+	let value = data[offset] & (0xff >> length);
+	for (let i = 1; i < length; i++) {
+		value = value * 256 + data[offset + i];
+	}
+	return { value, length };
+}
+
+/**
+ * Split the frames of a laced Matroska block. `offset` points at the lace count after the
+ * flags byte; `lacing` is the flags' lacing bits (1 Xiph, 2 fixed-size, 3 EBML).
+ */
+function splitLacedFrames(data: Uint8Array, offset: number, lacing: number): Uint8Array[] {
+	const count = data[offset] + 1;
+	let position = offset + 1;
+	const sizes: number[] = [];
+	if (lacing === 1) {
+		for (let i = 0; i < count - 1; i++) {
+			let size = 0;
+			let value: number;
+			do {
+				value = data[position++];
+				size += value;
+			} while (value === 0xff);
+			sizes.push(size);
+		}
+	} else if (lacing === 3) {
+		for (let i = 0; i < count - 1; i++) {
+			const { value, length } = readVarint(data, position);
+			position += length;
+			// Sizes after the first are signed differences from the one before.
+			sizes.push(i === 0 ? value : sizes[i - 1] + value - (Math.pow(2, 7 * length - 1) - 1));
+		}
+	} else {
+		const size = (data.length - position) / count;
+		if (!Number.isInteger(size)) {
+			throw new Error('Invalid fixed-size lacing in WebM block.');
+		}
+		for (let i = 0; i < count - 1; i++) {
+			sizes.push(size);
+		}
+	}
+
+	const frames: Uint8Array[] = [];
+	for (const size of sizes) {
+		frames.push(data.subarray(position, position + size));
+		position += size;
+	}
+	if (position > data.length) {
+		throw new Error('Laced WebM block is truncated.');
+	}
+	frames.push(data.subarray(position));
+	return frames;
+}
+
+function matroskaDecoderConfig(track: WebmTrack): WebCodecsAudioDecoderConfig {
+	const container = { sampleRate: track.sampleRate || 48000, numberOfChannels: track.channels || 1 };
+	if (track.codecId === 'A_OPUS') {
+		return {
+			codec: 'opus',
+			...container,
+			...(track.codecPrivate ? { description: track.codecPrivate } : {}),
+		};
+	}
+	// Matroska stores the Vorbis headers Xiph-laced, which is the description WebCodecs expects.
+	if (track.codecId === 'A_VORBIS' && track.codecPrivate) {
+		return { codec: 'vorbis', ...container, description: track.codecPrivate };
+	}
+	if (track.codecId.startsWith('A_AAC') && track.codecPrivate && track.codecPrivate.length >= 2) {
+		return aacDecoderConfig(track.codecPrivate, container);
+	}
+	throw new Error(`Unsupported WebM audio codec: ${track.codecId || 'none'}`);
+}
+
+/**
+ * Demux a WebM/Matroska file block by block and decode its first audio track with WebCodecs.
+ * Only the track number of video and subtitle blocks is read before they are skipped.
+ * Returns false for files that are not EBML.
+ */
+async function streamMatroska(blob: Blob, emit: DecodedWindowHandler, options: DecodeOptions): Promise<boolean> {
+	const reader = new BlobReader(blob);
+	if (!(await reader.fill(4)) || readUnsigned(reader.bytes(4)) !== EBML_HEADER_ID) return false;
+	reader.position = 0;
+
+	const tracks: WebmTrack[] = [];
+	let track: WebmTrack | null = null;
+	let audio: { track: WebmTrack; decoder: WindowedAudioDecoder } | null = null;
+	let timecodeScale = 1000000;
+	let clusterTimecode = 0;
+
+	const openAudio = async (): Promise<{ track: WebmTrack; decoder: WindowedAudioDecoder }> => {
+		const audioTrack = tracks.find(candidate => candidate.type === WEBM_AUDIO_TRACK_TYPE);
+		if (!audioTrack) {
+			throw new Error('WebM file has no audio track.');
+		}
+		return { track: audioTrack, decoder: await WindowedAudioDecoder.open(matroskaDecoderConfig(audioTrack), emit, options) };
+	};
+
+	const decodeBlock = async (decoder: WindowedAudioDecoder, data: Uint8Array) => {
+		// Track number (EBML varint), 16-bit relative timecode, flags, then the frame or laced frames.
+		const offset = readVarint(data, 0).length;
+		const relativeTimecode = ((data[offset] << 24) | (data[offset + 1] << 16)) >> 16;
+		const lacing = (data[offset + 2] & 0x06) >> 1;
+		const timestamp = Math.round(((clusterTimecode + relativeTimecode) * timecodeScale) / 1000);
+		const frames = lacing ? splitLacedFrames(data, offset + 3, lacing) : [data.subarray(offset + 3)];
+		for (const frame of frames) {
+			await decoder.decode(frame, timestamp);
+		}
+	};
+
+	try {
+		for (let header = await readElementHeader(reader); header; header = await readElementHeader(reader)) {
+			options.throwIfAborted();
+			const { id, size } = header;
+			if (WEBM_CONTAINER_IDS.has(id)) {
+				if (id === TRACK_ENTRY_ID) {
+					track = { number: 0, type: 0, codecId: '', sampleRate: 0, channels: 0 };
+					tracks.push(track);
+				} else if (id === CLUSTER_ID) {
+					track = null;
+				}
+				continue;
+			}
+			if (size < 0) {
+				throw new Error(`WebM element 0x${id.toString(16)} has an unknown size.`);
+			}
+			if (id === SIMPLE_BLOCK_ID || id === BLOCK_ID) {
+				const peekLength = Math.min(size, 8);
+				if (!(await reader.fill(peekLength))) break;
+				if (!audio) {
+					audio = await openAudio();
+				}
+				if (readVarint(reader.peek(peekLength), 0).value !== audio.track.number) {
+					reader.skip(size);
+					continue;
+				}
+			}
+			const isRead =
+				id === TIMECODE_SCALE_ID ||
+				id === CLUSTER_TIMECODE_ID ||
+				id === SIMPLE_BLOCK_ID ||
+				id === BLOCK_ID ||
+				(track !== null &&
+					(id === TRACK_NUMBER_ID ||
+						id === TRACK_TYPE_ID ||
+						id === CODEC_ID_ID ||
+						id === CODEC_PRIVATE_ID ||
+						id === SAMPLING_FREQUENCY_ID ||
+						id === CHANNELS_ID));
+			if (!isRead) {
+				reader.skip(size);
+				continue;
+			}
+			// A recording cut off mid-element simply ends there.
+			if (!(await reader.fill(size))) break;
+			const bytes = reader.bytes(size);
+			if (id === TIMECODE_SCALE_ID) timecodeScale = readUnsigned(bytes);
+			else if (id === CLUSTER_TIMECODE_ID) clusterTimecode = readUnsigned(bytes);
+			else if ((id === SIMPLE_BLOCK_ID || id === BLOCK_ID) && audio) await decodeBlock(audio.decoder, bytes);
+			else if (track && id === TRACK_NUMBER_ID) track.number = readUnsigned(bytes);
+			else if (track && id === TRACK_TYPE_ID) track.type = readUnsigned(bytes);
+			else if (track && id === CODEC_ID_ID) track.codecId = String.fromCharCode(...Array.from(bytes)).replace(/\0+$/, '');
+			else if (track && id === CODEC_PRIVATE_ID) track.codecPrivate = bytes;
+			else if (track && id === SAMPLING_FREQUENCY_ID) track.sampleRate = Math.round(readFloat(bytes));
+			else if (track && id === CHANNELS_ID) track.channels = readUnsigned(bytes);
+		}
+		if (!audio) {
+			throw new Error('WebM file has no audio blocks.');
+		}
+		await audio.decoder.finish();
+		return true;
+	} finally {
+		audio?.decoder.close();
+	}
+}
+
+/**
+ * The content of the top-level moov box of an ISO BMFF file, found by walking the top-level
+ * box headers so the media data is never read. Null for other files and for files without one.
+ */
+async function readMp4Movie(blob: Blob): Promise<DataView | null> {
+	if (blob.size < 8 || !MP4_FIRST_BOX_TYPES.has(readTag(new DataView(await readBytes(blob, 0, 8)), 4))) {
+		return null;
+	}
+	let offset = 0;
+	while (offset + 8 <= blob.size) {
+		const header = new DataView(await readBytes(blob, offset, Math.min(offset + 16, blob.size)));
+		let size = header.getUint32(0);
+		let headerSize = 8;
+		if (size === 1 && header.byteLength >= 16) {
+			size = header.getUint32(8) * 0x100000000 + header.getUint32(12);
+			headerSize = 16;
+		} else if (size === 0) {
+			size = blob.size - offset;
+		}
+		if (size < headerSize) {
+			throw new Error('Invalid MP4 box size.');
+		}
+		if (readTag(header, 4) === 'moov') {
+			return new DataView(await readBytes(blob, offset + headerSize, Math.min(offset + size, blob.size)));
+		}
+		offset += size;
+	}
+	return null;
+}
+
+function findMp4Boxes(view: DataView, parent: Mp4Box, type: string): Mp4Box[] {
+	const boxes: Mp4Box[] = [];
+	let offset = parent.start;
+	while (offset + 8 <= parent.end) {
+		let size = view.getUint32(offset);
+		let headerSize = 8;
+		if (size === 1 && offset + 16 <= parent.end) {
+			size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+			headerSize = 16;
+		} else if (size === 0) {
+			size = parent.end - offset;
+		}
+		if (size < headerSize || offset + size > parent.end) break;
+		if (readTag(view, offset + 4) === type) {
+			boxes.push({ type, start: offset + headerSize, end: offset + size });
+		}
+		offset += size;
+	}
+	return boxes;
+}
+
+/**
+ * The first box at `path` below `parent`, e.g. ['mdia', 'minf', 'stbl'].
+ */
+function findMp4Box(view: DataView, parent: Mp4Box, path: string[]): Mp4Box | undefined {
+	let box: Mp4Box | undefined = parent;
+	for (const type of path) {
+		box = box && findMp4Boxes(view, box, type)[0];
+	}
+	return box;
+}
+
+function listMp4Tracks(movie: DataView): Mp4Box[] {
+	return findMp4Boxes(movie, { type: 'moov', start: 0, end: movie.byteLength }, 'trak');
+}
+
+/**
+ * The handler type of a trak box: 'soun' for audio, 'vide' for video.
+ */
+function readMp4HandlerType(view: DataView, trak: Mp4Box): string | undefined {
+	const hdlr = findMp4Box(view, trak, ['mdia', 'hdlr']);
+	return hdlr && hdlr.end - hdlr.start >= 12 ? readTag(view, hdlr.start + 8) : undefined;
+}
+
+/**
+ * The AudioSpecificConfig inside an esds box (ES descriptor, then decoder config, then decoder
+ * specific info), or null when the stream is not AAC.
+ */
+function readEsdsAudioSpecificConfig(view: DataView, esds: Mp4Box): Uint8Array | null {
+	let offset = esds.start + 4;
+	const readDescriptor = (): { tag: number; end: number } | null => {
+		if (offset + 2 > esds.end) return null;
+		const tag = view.getUint8(offset++);
+		let size = 0;
+		for (let i = 0; i < 4; i++) {
+			const next = view.getUint8(offset++);
+			size = (size << 7) | (next & 0x7f);
+			if (!(next & 0x80)) break;
+		}
+		return { tag, end: Math.min(offset + size, esds.end) };
+	};
+
+	const stream = readDescriptor();
+	if (!stream || stream.tag !== 0x03) return null;
+	const streamFlags = view.getUint8(offset + 2);
+	offset += 3;
+	if (streamFlags & 0x80) offset += 2;
+	if (streamFlags & 0x40) offset += 1 + view.getUint8(offset);
+	if (streamFlags & 0x20) offset += 2;
+
+	const decoderConfig = readDescriptor();
+	if (!decoderConfig || decoderConfig.tag !== 0x04) return null;
+	// 0x40 is MPEG-4 audio; 0x66 to 0x68 are the MPEG-2 AAC profiles.
+	const objectType = view.getUint8(offset);
+	if (objectType !== 0x40 && (objectType < 0x66 || objectType > 0x68)) return null;
+	offset += 13;
+
+	const specific = readDescriptor();
+	if (!specific || specific.tag !== 0x05 || specific.end - offset < 2) return null;
+	return new Uint8Array(view.buffer, view.byteOffset + offset, specific.end - offset).slice();
+}
+
+/**
+ * Decoder config of an mp4a sample entry starting at `entryStart`, or null when it is not AAC.
+ */
+function readMp4aDecoderConfig(view: DataView, entryStart: number, end: number): WebCodecsAudioDecoderConfig | null {
+	const entryEnd = Math.min(entryStart + view.getUint32(entryStart), end);
+	// QuickTime sound descriptions version 1 and 2 add 16 and 36 bytes before the child boxes.
+	const soundVersion = view.getUint16(entryStart + 16);
+	const entry: Mp4Box = {
+		type: 'mp4a',
+		start: entryStart + 36 + (soundVersion === 1 ? 16 : soundVersion === 2 ? 36 : 0),
+		end: entryEnd,
+	};
+	// QuickTime nests the esds box in a wave box.
+	const esds = findMp4Box(view, entry, ['esds']) ?? findMp4Box(view, entry, ['wave', 'esds']);
+	const audioSpecificConfig = esds ? readEsdsAudioSpecificConfig(view, esds) : null;
+	if (!audioSpecificConfig) return null;
+	return aacDecoderConfig(audioSpecificConfig, {
+		sampleRate: soundVersion === 2 ? 0 : view.getUint16(entryStart + 32),
+		numberOfChannels: soundVersion === 2 ? 0 : view.getUint16(entryStart + 24),
+	});
+}
+
+function readMp4SampleTable(view: DataView, stbl: Mp4Box): Pick<Mp4AudioTrack, 'sampleSizes' | 'sampleDurations' | 'chunks'> {
+	const stsz = findMp4Box(view, stbl, ['stsz']);
+	const stts = findMp4Box(view, stbl, ['stts']);
+	const stsc = findMp4Box(view, stbl, ['stsc']);
+	const stco = findMp4Box(view, stbl, ['stco']);
+	const co64 = findMp4Box(view, stbl, ['co64']);
+	if (!stsz || !stsc || !(stco || co64)) {
+		throw new Error('MP4 audio track has no sample table.');
+	}
+
+	const uniformSize = view.getUint32(stsz.start + 4);
+	const sampleSizes = new Uint32Array(view.getUint32(stsz.start + 8));
+	for (let i = 0; i < sampleSizes.length; i++) {
+		sampleSizes[i] = uniformSize || view.getUint32(stsz.start + 12 + i * 4);
+	}
+
+	const sampleDurations: Array<[number, number]> = [];
+	const durationCount = stts ? view.getUint32(stts.start + 4) : 0;
+	for (let i = 0; stts && i < durationCount; i++) {
+		sampleDurations.push([view.getUint32(stts.start + 8 + i * 8), view.getUint32(stts.start + 12 + i * 8)]);
+	}
+
+	const chunkOffsets: number[] = [];
+	if (co64) {
+		const count = view.getUint32(co64.start + 4);
+		for (let i = 0; i < count; i++) {
+			chunkOffsets.push(view.getUint32(co64.start + 8 + i * 8) * 0x100000000 + view.getUint32(co64.start + 12 + i * 8));
+		}
+	} else if (stco) {
+		const count = view.getUint32(stco.start + 4);
+		for (let i = 0; i < count; i++) {
+			chunkOffsets.push(view.getUint32(stco.start + 8 + i * 4));
+		}
+	}
+
+	// stsc holds runs of chunks with the same number of samples, keyed by one-based first chunk.
+	const runs: Array<{ firstChunk: number; samplesPerChunk: number }> = [];
+	const runCount = view.getUint32(stsc.start + 4);
+	for (let i = 0; i < runCount; i++) {
+		runs.push({
+			firstChunk: view.getUint32(stsc.start + 8 + i * 12),
+			samplesPerChunk: view.getUint32(stsc.start + 12 + i * 12),
+		});
+	}
+	const chunks: Mp4AudioTrack['chunks'] = [];
+	let run = 0;
+	let remaining = sampleSizes.length;
+	for (let c = 0; c < chunkOffsets.length && remaining > 0 && runs.length; c++) {
+		while (run + 1 < runs.length && runs[run + 1].firstChunk <= c + 1) {
+			run++;
+		}
+		const sampleCount = Math.min(runs[run].samplesPerChunk, remaining);
+		chunks.push({ offset: chunkOffsets[c], sampleCount });
+		remaining -= sampleCount;
+	}
+	return { sampleSizes, sampleDurations, chunks };
+}
+
+/**
+ * The first AAC audio track of the movie with its sample table.
+ */
+function readMp4AudioTrack(movie: DataView): Mp4AudioTrack {
+	const soundTracks = listMp4Tracks(movie).filter(trak => readMp4HandlerType(movie, trak) === 'soun');
+	if (!soundTracks.length) {
+		throw new Error('MP4 file has no audio track.');
+	}
+	let format = '';
+	for (const trak of soundTracks) {
+		const mdhd = findMp4Box(movie, trak, ['mdia', 'mdhd']);
+		const stbl = findMp4Box(movie, trak, ['mdia', 'minf', 'stbl']);
+		const stsd = stbl && findMp4Box(movie, stbl, ['stsd']);
+		if (!mdhd || !stbl || !stsd || stsd.end - stsd.start < 16) continue;
+		// The first sample entry follows the version, flags and entry count.
+		const entryStart = stsd.start + 8;
+		format = readTag(movie, entryStart + 4);
+		const config = format === 'mp4a' ? readMp4aDecoderConfig(movie, entryStart, stsd.end) : null;
+		if (!config) continue;
+		const timescale = movie.getUint32(mdhd.start + (movie.getUint8(mdhd.start) === 1 ? 20 : 12));
+		return { config, timescale: timescale || config.sampleRate, ...readMp4SampleTable(movie, stbl) };
+	}
+	throw new Error(`Unsupported MP4 audio codec: ${format || 'none'}`);
+}
+
+/**
+ * Decode the AAC audio track of an MP4/MOV/M4A file chunk by chunk with WebCodecs, reading
+ * only the byte ranges that hold audio samples. Returns false for files that are not ISO BMFF.
+ */
+async function streamMp4(blob: Blob, emit: DecodedWindowHandler, options: DecodeOptions): Promise<boolean> {
+	const movie = await readMp4Movie(blob);
+	if (!movie) return false;
+	const track = readMp4AudioTrack(movie);
+	if (!track.sampleSizes.length) {
+		// Fragmented files keep their samples in moof boxes instead.
+		throw new Error('Fragmented MP4 audio is not streamed.');
+	}
+
+	const decoder = await WindowedAudioDecoder.open(track.config, emit, options);
+	try {
+		let sample = 0;
+		let time = 0;
+		let run = 0;
+		let usedInRun = 0;
+		for (const chunk of track.chunks) {
+			options.throwIfAborted();
+			let chunkBytes = 0;
+			for (let i = 0; i < chunk.sampleCount; i++) {
+				chunkBytes += track.sampleSizes[sample + i];
+			}
+			// A recording cut off mid-file simply ends there.
+			if (chunk.offset + chunkBytes > blob.size) break;
+			const bytes = new Uint8Array(await readBytes(blob, chunk.offset, chunk.offset + chunkBytes));
+			let position = 0;
+			for (let i = 0; i < chunk.sampleCount; i++, sample++) {
+				const size = track.sampleSizes[sample];
+				await decoder.decode(bytes.subarray(position, position + size), Math.round((time * 1e6) / track.timescale));
+				position += size;
+				while (run < track.sampleDurations.length && usedInRun >= track.sampleDurations[run][0]) {
+					run++;
+					usedInRun = 0;
+				}
+				if (run < track.sampleDurations.length) {
+					time += track.sampleDurations[run][1];
+					usedInRun++;
+				}
+			}
+		}
+		await decoder.finish();
+		return true;
+	} finally {
+		decoder.close();
+	}
+}
+
+/**
+ * Whether a WebM/Matroska or MP4/MOV file has a video track. Only the headers are read.
+ */
+export async function hasVideoTrack(blob: Blob): Promise<boolean> {
+	const movie = await readMp4Movie(blob);
+	if (movie) {
+		return listMp4Tracks(movie).some(trak => readMp4HandlerType(movie, trak) === 'vide');
+	}
+
+	const reader = new BlobReader(blob);
+	if (!(await reader.fill(4)) || readUnsigned(reader.bytes(4)) !== EBML_HEADER_ID) return false;
+	reader.position = 0;
+	for (let header = await readElementHeader(reader); header; header = await readElementHeader(reader)) {
+		const { id, size } = header;
+		// Tracks are declared before the first cluster.
+		if (id === CLUSTER_ID) return false;
+		if (WEBM_CONTAINER_IDS.has(id)) continue;
+		if (size < 0) return false;
+		if (id !== TRACK_TYPE_ID) {
+			reader.skip(size);
+			continue;
+		}
+		if (!(await reader.fill(size))) return false;
+		if (readUnsigned(reader.bytes(size)) === WEBM_VIDEO_TRACK_TYPE) return true;
+	}
+	return false;
+}
@@ -0,0 +1,217 @@
+import { NormalizationMode } from '../settings/types';
+
+/**
+ * Gain control applied to the 16 kHz audio before levels are measured and chunks are cut:
+ * normalization towards a target level, optional compression, and a limiter.
+ */
+
+export interface DynamicsOptions {
+	sampleRate: number;
+	normalization: NormalizationMode;
+	/** dBFS for peak mode, dBFS RMS for RMS mode, LUFS for loudness mode. */
+	targetDb: number;
+	/** Most the normalization may boost, so near-silent recordings are not raised to the noise. */
+	maxGainDb: number;
+	/** Compressor settings, or null to leave the dynamic range alone. */
+	compression: { thresholdDb: number; ratio: number } | null;
+	/** Limiter ceiling in dBFS, or null to leave clipping to the chunk encoder. */
+	limiterCeilingDb: number | null;
+}
+
+/**
+ * What the gain stage did, for the preprocessing log.
+ */
+export interface DynamicsReport {
+	normalization: NormalizationMode;
+	/** Last measured level in the mode's unit, or null when nothing loud enough was measured. */
+	measuredDb: number | null;
+	/** Normalization gain in effect at the end of the recording. */
+	gainDb: number;
+	/** Deepest gain reduction the compressor applied. */
+	maxCompressionDb: number;
+	/** Time the limiter spent reducing gain. */
+	limitedSeconds: number;
+}
+
+export interface DynamicsProcessor {
+	/** Return a processed copy of the next stretch of audio. */
+	process(data: Float32Array): Float32Array;
+	report(): DynamicsReport;
+}
+
+/**
+ * Streaming gain stage. The level is measured over the audio so far in 400 ms blocks:
+ * running peak, or the mean square of blocks that pass an absolute and a relative gate
+ * (the relative gate keeps pauses and background noise out of the average), K-weighted as
+ * in ITU-R BS.1770 for loudness mode. The normalization gain follows that measurement,
+ * ramping to each new value over one block so changes are inaudible.
+ *
+ * Compression happens after the gain, with make-up gain so speech at the target level
+ * comes out at the target level and only louder passages are pulled down. The limiter
+ * has instant attack and a 50 ms release, so no sample exceeds its ceiling.
+ */
+export function createDynamicsProcessor(options: DynamicsOptions): DynamicsProcessor {
+	const BLOCK_SECONDS = 0.4;
+	const ABSOLUTE_GATE_DB = -70;
+	const RELATIVE_GATE_DB = -10;
+	const GATE_BINS_PER_DB = 10;
+	const GATE_BIN_COUNT = 70 * GATE_BINS_PER_DB;
+	const COMPRESSOR_ATTACK_SECONDS = 0.01;
+	const COMPRESSOR_RELEASE_SECONDS = 0.15;
+	const LIMITER_RELEASE_SECONDS = 0.05;
+
+	const rate = options.sampleRate;
+	const blockSamples = Math.max(1, Math.floor(rate * BLOCK_SECONDS));
+	const mode = options.normalization;
+	const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+	// K-weighting: high-shelf then high-pass biquad, coefficients derived for `rate`.
+	const shelf = [0, 0, 0, 0, 0];
+	const highPass = [1, -2, 1, 0, 0];
+	{
+		let k = Math.tan((Math.PI * 1681.974450955533) / rate);
+		let q = 0.7071752369554196;
+		const vh = Math.pow(10, 3.999843853973347 / 20);
+		const vb = Math.pow(vh, 0.4996667741545416);
+		let a0 = 1 + k / q + k * k;
+		shelf[0] = (vh + (vb * k) / q + k * k) / a0;
+		shelf[1] = (2 * (k * k - vh)) / a0;
+		shelf[2] = (vh - (vb * k) / q + k * k) / a0;
+		shelf[3] = (2 * (k * k - 1)) / a0;
+		shelf[4] = (1 - k / q + k * k) / a0;
+		k = Math.tan((Math.PI * 38.13547087602444) / rate);
+		q = 0.5003270373238773;
+		a0 = 1 + k / q + k * k;
+		highPass[3] = (2 * (k * k - 1)) / a0;
+		highPass[4] = (1 - k / q + k * k) / a0;
+	}
+	const shelfState = [0, 0, 0, 0];
+	const highPassState = [0, 0, 0, 0];
+	const biquad = (c: number[], s: number[], x: number) => {
+		const y = c[0] * x + c[1] * s[0] + c[2] * s[1] - c[3] * s[2] - c[4] * s[3];
+		s[1] = s[0];
+		s[0] = x;
+		s[3] = s[2];
+		s[2] = y;
+		return y;
+	};
+
+	// Block mean squares by level, to apply the relative gate over everything measured so far.
+	const gateCounts = new Float64Array(GATE_BIN_COUNT);
+	const gateSums = new Float64Array(GATE_BIN_COUNT);
+	let blockFill = 0;
+	let blockSumSquares = 0;
+	let peak = 0;
+	let measuredDb: number | null = null;
+
+	// Normalization gain ramps from `gain` to `targetGain` over one block.
+	let gain = 1;
+	let targetGain = 1;
+	let gainStep = 0;
+
+	const attack = Math.exp(-1 / (COMPRESSOR_ATTACK_SECONDS * rate));
+	const release = Math.exp(-1 / (COMPRESSOR_RELEASE_SECONDS * rate));
+	const makeupDb = options.compression
+		? Math.max(0, options.targetDb - options.compression.thresholdDb) * (1 - 1 / options.compression.ratio)
+		: 0;
+	let envelope = 0;
+	let maxCompressionDb = 0;
+
+	const ceiling = options.limiterCeilingDb === null ? 1 : dbToGain(options.limiterCeilingDb);
+	const limiterRelease = Math.exp(-1 / (LIMITER_RELEASE_SECONDS * rate));
+	let limiterGain = 1;
+	let limitedSamples = 0;
+
+	function gatedMeanSquare(): number | null {
+		let count = 0;
+		let sum = 0;
+		for (let bin = 0; bin < GATE_BIN_COUNT; bin++) {
+			count += gateCounts[bin];
+			sum += gateSums[bin];
+		}
+		if (!count) return null;
+		const relativeGate = 10 * Math.log10(sum / count) + RELATIVE_GATE_DB;
+		const firstBin = Math.max(0, Math.ceil((relativeGate - ABSOLUTE_GATE_DB) * GATE_BINS_PER_DB));
+		count = 0;
+		sum = 0;
+		for (let bin = firstBin; bin < GATE_BIN_COUNT; bin++) {
+			count += gateCounts[bin];
+			sum += gateSums[bin];
+		}
+		return count ? sum / count : null;
+	}
+
+	function endBlock(): void {
+		const meanSquare = blockSumSquares / blockSamples;
+		blockFill = 0;
+		blockSumSquares = 0;
+		const blockDb = 10 * Math.log10(Math.max(meanSquare, 1e-12));
+		if (blockDb > ABSOLUTE_GATE_DB) {
+			const bin = Math.min(Math.floor((blockDb - ABSOLUTE_GATE_DB) * GATE_BINS_PER_DB), GATE_BIN_COUNT - 1);
+			gateCounts[bin]++;
+			gateSums[bin] += meanSquare;
+		}
+
+		if (mode === 'peak') {
+			measuredDb = peak > 0 ? 20 * Math.log10(peak) : null;
+		} else {
+			const gated = gatedMeanSquare();
+			// BS.1770 loudness adds -0.691 dB so a full-scale 1 kHz sine reads -3.01 LUFS.
+			measuredDb = gated === null ? null : 10 * Math.log10(gated) + (mode === 'loudness' ? -0.691 : 0);
+		}
+		if (measuredDb !== null) {
+			targetGain = dbToGain(Math.min(options.targetDb - measuredDb, options.maxGainDb));
+			gainStep = (targetGain - gain) / blockSamples;
+		}
+	}
+
+	return {
+		process(data: Float32Array): Float32Array {
+			const output = new Float32Array(data.length);
+			for (let i = 0; i < data.length; i++) {
+				const x = data[i];
+				if (mode !== 'off') {
+					const measured = mode === 'loudness' ? biquad(highPass, highPassState, biquad(shelf, shelfState, x)) : x;
+					blockSumSquares += measured * measured;
+					if (Math.abs(x) > peak) peak = Math.abs(x);
+					if (gainStep !== 0) {
+						gain += gainStep;
+						if ((gainStep > 0 && gain >= targetGain) || (gainStep < 0 && gain <= targetGain)) {
+							gain = targetGain;
+							gainStep = 0;
+						}
+					}
+					if (++blockFill >= blockSamples) endBlock();
+				}
+				let y = x * gain;
+
+				if (options.compression) {
+					const square = y * y;
+					envelope = square > envelope ? attack * envelope + (1 - attack) * square : release * envelope + (1 - release) * square;
+					const levelDb = 10 * Math.log10(Math.max(envelope, 1e-12));
+					const reductionDb = Math.max(0, levelDb - options.compression.thresholdDb) * (1 - 1 / options.compression.ratio);
+					if (reductionDb > maxCompressionDb) maxCompressionDb = reductionDb;
+					y *= dbToGain(makeupDb - reductionDb);
+				}
+
+				if (options.limiterCeilingDb !== null) {
+					const needed = Math.abs(y) > ceiling ? ceiling / Math.abs(y) : 1;
+					limiterGain = Math.min(needed, 1 - (1 - limiterGain) * limiterRelease);
+					if (limiterGain < 0.999) limitedSamples++;
+					y *= limiterGain;
+				}
+				output[i] = y;
+			}
+			return output;
+		},
+		report(): DynamicsReport {
+			return {
+				normalization: mode,
+				measuredDb: measuredDb === null ? null : Math.round(measuredDb * 10) / 10,
+				gainDb: Math.round(20 * Math.log10(gain) * 10) / 10,
+				maxCompressionDb: Math.round(maxCompressionDb * 10) / 10,
+				limitedSeconds: Math.round((limitedSamples / rate) * 10) / 10,
+			};
+		},
+	};
+}
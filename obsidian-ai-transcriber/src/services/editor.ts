@@ -1,5 +1,19 @@
 import OpenAI from 'openai';
-import { EditorSettings } from '../settings/types';
+import { EditorSettings, GlossaryEntry } from '../settings/types';
+import {
+	TranslationRequest,
+	batchParagraphs,
+	buildTranslationPrompt,
+	parseTranslationResponse,
+	renderTranslatedTranscript,
+	splitTranscriptParagraphs,
+} from './translation';
+import { buildGlossaryBlock } from './glossary';
+import { ApiRequestError, getGeminiBlockReason, runWithRetryPolicy } from './errors';
+import { TokenUsage } from './usage';
+import { SESSION_MARKER } from './transcript';
+
+const TRANSLATION_BATCH_CHARS = 6000;
 
 // Cache dynamically imported Gemini module
 let genaiModule: typeof import('@google/genai') | null = null;
@@ -10,16 +24,36 @@ async function getGenAIModule() {
 	return genaiModule;
 }
 
-type EditorStage = 'summary' | 'done';
+type EditorStage = 'summary' | 'translate' | 'done';
+
+type GeminiUsageMetadata = import('@google/genai').GenerateContentResponseUsageMetadata;
 
 export interface EditProgress {
 	stage: EditorStage;
+	/** Translation batches finished so far, during the 'translate' stage. */
+	completedChunks?: number;
+	totalChunks?: number;
+}
+
+export interface TranslateOptions {
+	signal?: AbortSignal;
+	/** Paragraph batches translated in parallel. */
+	concurrency?: number;
+	onProgress?: (progress: EditProgress) => void;
+	/** Terms whose spellings the translation must keep. */
+	glossary?: GlossaryEntry[];
+	/** Called with the token counts of every successful request. */
+	onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface EditStreamingOptions {
 	signal?: AbortSignal;
 	onProgress?: (progress: EditProgress) => void;
 	onPartialText?: (text: string) => void;
+	/** Terms whose spellings the summary must use. */
+	glossary?: GlossaryEntry[];
+	/** Called with the token counts of every successful request. */
+	onUsage?: (usage: TokenUsage) => void;
 }
 
 export class EditorService {
@@ -62,12 +96,22 @@ ${context.trim()}
 `;
 	}
 
+	/**
+	 * Glossary section for editor prompts, followed by a blank line, or '' when empty.
+	 */
+	private buildEditorGlossaryBlock(glossary?: GlossaryEntry[]): string {
+		const block = buildGlossaryBlock(glossary ?? []);
+		return block ? `${block}\n\n` : '';
+	}
+
 	private getOpenAIClient(apiKey: string): OpenAI {
 		const cached = this.openAIClients.get(apiKey);
 		if (cached) return cached;
 		const client = new OpenAI({
 			apiKey,
 			dangerouslyAllowBrowser: true,
+			// generateContent retries according to the error class instead.
+			maxRetries: 0,
 		});
 		this.openAIClients.set(apiKey, client);
 		return client;
@@ -131,6 +175,7 @@ ${context.trim()}
 		settings: EditorSettings,
 		systemPromptOverride?: string,
 		context?: string,
+		glossary?: GlossaryEntry[],
 	): Promise<string> {
 		if (!settings.apiKey) {
 			throw new Error('Editor API key is not configured');
@@ -145,6 +190,7 @@ ${context.trim()}
 			prompt += `${settings.userPrompt}\n\n`;
 		}
 		prompt += this.buildEditorContextBlock(context);
+		prompt += this.buildEditorGlossaryBlock(glossary);
 		prompt += `【逐字稿】\n${text}`;
 
 		return this.generateContent(prompt, settings, settings.temperature);
@@ -197,6 +243,7 @@ ${context.trim()}
 			settings.userPrompt || '',
 			rawTranscript,
 			context,
+			options?.glossary,
 		);
 
 		let summaryPart = '';
@@ -209,11 +256,12 @@ ${context.trim()}
 				(_, accumulated) => {
 					options?.onPartialText?.(accumulated);
 				},
+				options?.onUsage,
 			);
 		} catch (error) {
 			if (this.isAbortError(error)) throw error;
 			console.warn('[AI Transcriber Editor] Summary streaming failed. Falling back to non-stream mode.', error);
-			summaryPart = await this.generateContent(summaryPrompt, settings, 0.2, options?.signal);
+			summaryPart = await this.generateContent(summaryPrompt, settings, 0.2, options?.signal, options?.onUsage);
 			options?.onPartialText?.(summaryPart);
 		}
 
@@ -227,16 +275,90 @@ ${context.trim()}
 		return finalNote;
 	}
 
+	/**
+	 * Translate a rendered transcript paragraph by paragraph. Paragraphs are sent in batches,
+	 * several in parallel; timestamps and speaker labels are kept out of the prompt and restored
+	 * afterwards, so the structure always matches the original.
+	 */
+	async translateTranscript(
+		text: string,
+		settings: EditorSettings,
+		request: TranslationRequest,
+		context?: string,
+		options?: TranslateOptions,
+	): Promise<string> {
+		if (!settings.apiKey) {
+			throw new Error('Editor API key is not configured');
+		}
+
+		const paragraphs = splitTranscriptParagraphs(this.extractRawTranscript(text));
+		const batches = batchParagraphs(paragraphs, TRANSLATION_BATCH_CHARS);
+		const translations: string[] = paragraphs.map(paragraph => paragraph.body);
+		const contextBlock = this.buildEditorContextBlock(context) + this.buildEditorGlossaryBlock(options?.glossary);
+		let completed = 0;
+		let next = 0;
+		let failed = false;
+
+		console.info('[AI Transcriber Editor] Starting translation.', {
+			targetLanguage: request.targetLanguage,
+			paragraphs: paragraphs.length,
+			batches: batches.length,
+		});
+		this.emitProgress(options, { stage: 'translate', completedChunks: 0, totalChunks: batches.length });
+
+		const runners = Array.from({ length: Math.max(1, Math.min(options?.concurrency ?? 3, batches.length)) }, async () => {
+			while (!failed && next < batches.length) {
+				const [start, end] = batches[next++];
+				this.throwIfAborted(options?.signal);
+				const bodies = paragraphs.slice(start, end).map(paragraph => paragraph.body);
+				let response: string;
+				try {
+					response = await this.generateContent(
+						buildTranslationPrompt(bodies, request.targetLanguage, contextBlock),
+						settings,
+						settings.temperature,
+						options?.signal,
+						options?.onUsage,
+					);
+				} catch (error) {
+					failed = true;
+					throw error;
+				}
+				const parsed = parseTranslationResponse(response, bodies.length);
+				const missing = parsed.filter(translation => translation === null).length;
+				if (missing) {
+					console.warn('[AI Transcriber Editor] Translation reply is missing paragraphs; keeping the original text for them.', {
+						batchStart: start,
+						missing,
+					});
+				}
+				parsed.forEach((translation, offset) => {
+					if (translation !== null) translations[start + offset] = translation;
+				});
+				completed++;
+				this.emitProgress(options, { stage: 'translate', completedChunks: completed, totalChunks: batches.length });
+			}
+		});
+		await Promise.all(runners);
+
+		this.emitProgress(options, { stage: 'done' });
+		return renderTranslatedTranscript(paragraphs, translations, request.layout);
+	}
+
 	/**
 	 * Extract raw transcript content, removing metadata headers.
 	 */
 	private extractRawTranscript(text: string): string {
-		const speakerMatch = text.match(/(\*\*Speaker \d+:\*\*|Speaker \d+:)/);
+		const speakerMatch = text.match(/(\[(?:\d{1,2}:)?\d{1,2}:\d{2}\]\s*)?(\*\*Speaker \d+:\*\*|Speaker \d+:)/);
 		if (speakerMatch && speakerMatch.index !== undefined) {
-			return text.substring(speakerMatch.index).trim();
+			// A multi-file session starts with the marker of its first recording.
+			const markerIndex = text.search(SESSION_MARKER);
+			const start = markerIndex !== -1 && markerIndex < speakerMatch.index ? markerIndex : speakerMatch.index;
+			return text.substring(start).trim();
 		}
 
 		let cleaned = text;
+		cleaned = cleaned.replace(/^---\n[\s\S]*?\n---\n/, '');
 		cleaned = cleaned.replace(/^#\s+Video Transcription.*?\n/gm, '');
 		cleaned = cleaned.replace(/^\*\*Detected Language:.*?\n/gm, '');
 		cleaned = cleaned.replace(/^\*\*Model:.*?\n/gm, '');
@@ -253,6 +375,7 @@ ${context.trim()}
 		userPrompt: string,
 		transcript: string,
 		context?: string,
+		glossary?: GlossaryEntry[],
 	): string {
 		let summaryTemplate = systemPrompt.replace(/###\s*\d+\.\s*完整逐字稿.*$/s, '');
 
@@ -267,6 +390,11 @@ ${context.trim()}
 - 不得凭背景补充逐字稿未出现的事实`;
 		}
 
+		const glossaryBlock = buildGlossaryBlock(glossary ?? []);
+		if (glossaryBlock) {
+			userPrompt += `${userPrompt ? '\n\n' : ''}${glossaryBlock}`;
+		}
+
 		summaryTemplate += '\n\n**重要提示**: 只生成前面的分析部分（Section 1-5或类似结构），不要输出完整逐字稿部分。';
 
 		return userPrompt
@@ -287,6 +415,37 @@ ${context.trim()}
 		return trimmedSummary + separator + trimmedTranscript;
 	}
 
+	private reportOpenAIUsage(
+		settings: EditorSettings,
+		usage: OpenAI.CompletionUsage | null | undefined,
+		onUsage?: (usage: TokenUsage) => void,
+	): void {
+		if (!usage || !onUsage) return;
+		onUsage({
+			provider: settings.provider,
+			model: settings.model,
+			inputTokens: usage.prompt_tokens ?? 0,
+			outputTokens: usage.completion_tokens ?? 0,
+		});
+	}
+
+	/**
+	 * Gemini bills thinking tokens as output, so they are counted with the candidates.
+	 */
+	private reportGeminiUsage(
+		settings: EditorSettings,
+		usage: GeminiUsageMetadata | undefined,
+		onUsage?: (usage: TokenUsage) => void,
+	): void {
+		if (!usage || !onUsage) return;
+		onUsage({
+			provider: settings.provider,
+			model: settings.model,
+			inputTokens: usage.promptTokenCount ?? 0,
+			outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+		});
+	}
+
 	/**
 	 * Generate content using streaming API when available.
 	 */
@@ -296,6 +455,7 @@ ${context.trim()}
 		temperature: number,
 		signal?: AbortSignal,
 		onDelta?: (delta: string, accumulated: string) => void,
+		onUsage?: (usage: TokenUsage) => void,
 	): Promise<string> {
 		this.throwIfAborted(signal);
 
@@ -308,13 +468,17 @@ ${context.trim()}
 					temperature,
 					max_tokens: 65536,
 					stream: true,
+					stream_options: { include_usage: true },
 				},
 				{ signal },
 			);
 
 			let result = '';
+			let usage: OpenAI.CompletionUsage | null | undefined;
 			for await (const chunk of stream) {
 				this.throwIfAborted(signal);
+				// The usage arrives in a final chunk without choices.
+				usage = chunk.usage ?? usage;
 				const delta = chunk.choices?.[0]?.delta?.content;
 				if (typeof delta === 'string' && delta) {
 					result += delta;
@@ -324,6 +488,7 @@ ${context.trim()}
 			if (!result) {
 				throw new Error('OpenAI streaming response contained no text.');
 			}
+			this.reportOpenAIUsage(settings, usage, onUsage);
 			return result;
 		}
 
@@ -359,8 +524,11 @@ ${context.trim()}
 			});
 
 			let result = '';
+			let usage: GeminiUsageMetadata | undefined;
 			for await (const chunk of stream) {
 				this.throwIfAborted(signal);
+				// Every chunk carries the running totals; the last one is final.
+				usage = chunk.usageMetadata ?? usage;
 				const delta = chunk.text;
 				if (typeof delta === 'string' && delta) {
 					result += delta;
@@ -370,6 +538,7 @@ ${context.trim()}
 			if (!result) {
 				throw new Error('Gemini streaming response contained no text.');
 			}
+			this.reportGeminiUsage(settings, usage, onUsage);
 			return result;
 		}
 
@@ -377,20 +546,66 @@ ${context.trim()}
 	}
 
 	/**
-	 * Generate content using the configured API with retry logic.
+	 * Generate content with the configured provider, then with each fallback in turn when a
+	 * provider still fails after its retries.
 	 */
 	private async generateContent(
 		prompt: string,
 		settings: EditorSettings,
 		temperature: number,
 		signal?: AbortSignal,
+		onUsage?: (usage: TokenUsage) => void,
 	): Promise<string> {
-		const MAX_RETRIES = 3;
-		let lastError: unknown;
-
-		for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-			this.throwIfAborted(signal);
+		const chain = [settings, ...this.resolveFallbackSettings(settings)];
+		for (let index = 0; ; index++) {
+			const attempt = chain[index];
 			try {
+				return await this.generateContentWith(prompt, attempt, temperature, signal, onUsage);
+			} catch (error) {
+				if (this.isAbortError(error) || signal?.aborted || index + 1 >= chain.length) {
+					throw error;
+				}
+				const next = chain[index + 1];
+				console.warn(
+					`[AI Transcriber Editor] ${attempt.provider} (${attempt.model}) failed; falling back to ${next.provider} (${next.model}).`,
+					error,
+				);
+			}
+		}
+	}
+
+	/**
+	 * The editor settings for each fallback that names a model and has an API key, with its
+	 * provider, model and key swapped in. An empty fallback key reuses the configured one only
+	 * on the same provider, so a key is never sent to another provider.
+	 */
+	private resolveFallbackSettings(settings: EditorSettings): EditorSettings[] {
+		return (settings.fallbacks ?? [])
+			.map(fallback => ({
+				...settings,
+				provider: fallback.provider,
+				model: fallback.model.trim(),
+				apiKey: fallback.apiKey || (fallback.provider === settings.provider ? settings.apiKey : ''),
+			}))
+			.filter(fallback => {
+				if (fallback.model && fallback.apiKey) return true;
+				console.warn('[AI Transcriber Editor] Skipping fallback without a model or API key.', fallback.provider, fallback.model);
+				return false;
+			});
+	}
+
+	/**
+	 * Generate content using one provider's API, retrying according to the error class.
+	 */
+	private async generateContentWith(
+		prompt: string,
+		settings: EditorSettings,
+		temperature: number,
+		signal?: AbortSignal,
+		onUsage?: (usage: TokenUsage) => void,
+	): Promise<string> {
+		return runWithRetryPolicy(
+			async () => {
 				if (settings.provider === 'openai') {
 					const client = this.getOpenAIClient(settings.apiKey);
 					const response = await client.chat.completions.create(
@@ -402,10 +617,15 @@ ${context.trim()}
 						},
 						{ signal },
 					);
-					const result = response.choices?.[0]?.message?.content;
+					const choice = response.choices?.[0];
+					if (choice?.finish_reason === 'content_filter') {
+						throw new ApiRequestError('contentBlocked', 'OpenAI withheld the response (content_filter)');
+					}
+					const result = choice?.message?.content;
 					if (typeof result !== 'string') {
 						throw new Error('Invalid response from OpenAI API');
 					}
+					this.reportOpenAIUsage(settings, response.usage, onUsage);
 					return result;
 				}
 
@@ -441,28 +661,26 @@ ${context.trim()}
 					});
 					const result = response.text;
 					if (typeof result !== 'string') {
+						const blockReason = getGeminiBlockReason(response);
+						if (blockReason) {
+							throw new ApiRequestError('contentBlocked', `Gemini blocked the response (${blockReason})`);
+						}
 						throw new Error('Invalid response from Gemini API: No text content');
 					}
+					this.reportGeminiUsage(settings, response.usageMetadata, onUsage);
 					return result;
 				}
 
-				throw new Error(`Unsupported provider: ${settings.provider}`);
-			} catch (error) {
-				lastError = error;
-				if (this.isAbortError(error)) {
-					throw error;
-				}
-				console.warn(`[AI Transcriber Editor] API request failed (attempt ${attempt}/${MAX_RETRIES}).`, error);
-				if (attempt < MAX_RETRIES) {
-					await this.sleep(1000 * Math.pow(2, attempt - 1), signal);
-				}
-			}
-		}
-
-		throw new Error(
-			`API request failed after ${MAX_RETRIES} attempts. Last error: ${
-				(lastError as Error)?.message || 'Unknown error'
-			}`,
+				throw new ApiRequestError('badRequest', `Unsupported provider: ${settings.provider}`);
+			},
+			{
+				label: `Editor (${settings.provider})`,
+				signal,
+				sleep: (ms, sleepSignal) => this.sleep(ms, sleepSignal),
+				isAbortError: error => this.isAbortError(error),
+				throwIfAborted: abortSignal => this.throwIfAborted(abortSignal),
+				logPrefix: '[AI Transcriber Editor]',
+			},
 		);
 	}
 }
@@ -0,0 +1,272 @@
+import { t } from '../i18n';
+import { IncompleteTranscriptReason, TranscriptSegment } from './transcript';
+
+/**
+ * What went wrong with a provider request, as far as retrying and reporting are concerned.
+ */
+export type ApiErrorKind =
+	| 'auth'
+	| 'quota'
+	| 'rateLimit'
+	| 'network'
+	| 'server'
+	| 'contentBlocked'
+	| 'badRequest'
+	| 'unknown';
+
+export interface RetryPolicy {
+	/** Attempts including the first one; 1 means the error is never retried. */
+	maxAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+}
+
+/**
+ * Bad keys, exhausted quota, blocked content and malformed requests fail the same way every
+ * time, so they are not retried. Rate limits get the most patience.
+ */
+export const RETRY_POLICIES: Record<ApiErrorKind, RetryPolicy> = {
+	auth: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+	quota: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+	contentBlocked: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+	badRequest: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+	rateLimit: { maxAttempts: 6, baseDelayMs: 2000, maxDelayMs: 60000 },
+	network: { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 15000 },
+	server: { maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 30000 },
+	unknown: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000 },
+};
+
+/** A server asking for a longer wait than this is treated as if it had asked for this long. */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+const AUTH_MESSAGE = /api key not valid|api_key_invalid|incorrect api key|invalid api key|invalid x-api-key|unauthenticated|permission_denied/i;
+const CONTENT_BLOCKED_MESSAGE = /content_policy|content_filter|content management policy|safety|blocked|prohibited_content/i;
+const NETWORK_MESSAGE = /failed to fetch|networkerror|network error|load failed|econnreset|econnrefused|etimedout|enotfound|eai_again|socket hang up|timed? ?out|connection error/i;
+
+/**
+ * An API failure tagged with its kind. Thrown once retries are exhausted, and by providers
+ * for failures they detect themselves (e.g. a blocked response).
+ */
+export class ApiRequestError extends Error {
+	readonly kind: ApiErrorKind;
+	readonly status?: number;
+	readonly retryAfterMs?: number;
+
+	constructor(kind: ApiErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+		super(message);
+		this.name = 'ApiRequestError';
+		this.kind = kind;
+		this.status = details.status;
+		this.retryAfterMs = details.retryAfterMs;
+	}
+}
+
+/**
+ * A chunk transcript that came back cut short or too sparse for its audio. Carries the
+ * segments that did come back, chunk-local, so they can be kept when the chunk cannot be
+ * transcribed again in shorter pieces. Thrown after the provider's requests succeeded, so it
+ * never reaches the retry policy.
+ */
+export class IncompleteTranscriptError extends Error {
+	readonly reason: IncompleteTranscriptReason;
+	readonly segments: TranscriptSegment[];
+
+	constructor(reason: IncompleteTranscriptReason, segments: TranscriptSegment[], message: string) {
+		super(message);
+		this.name = 'IncompleteTranscriptError';
+		this.reason = reason;
+		this.segments = segments;
+	}
+}
+
+/** Gemini finish reasons meaning the output was withheld rather than cut short. */
+const GEMINI_BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * Why Gemini withheld a response, or undefined when it did not.
+ */
+export function getGeminiBlockReason(response: {
+	promptFeedback?: { blockReason?: string };
+	candidates?: Array<{ finishReason?: string }>;
+}): string | undefined {
+	if (response.promptFeedback?.blockReason) {
+		return response.promptFeedback.blockReason;
+	}
+	return response.candidates
+		?.map(candidate => candidate.finishReason)
+		.find(reason => reason !== undefined && GEMINI_BLOCKING_FINISH_REASONS.indexOf(reason) !== -1);
+}
+
+export interface ErrorClassification {
+	kind: ApiErrorKind;
+	status?: number;
+	/** Wait requested by the server (Retry-After, retry-after-ms or Gemini's RetryInfo). */
+	retryAfterMs?: number;
+	/** The provider's own message, for logs and the user-facing text. */
+	detail: string;
+}
+
+/**
+ * Classify an error thrown by the OpenAI SDK, the Google GenAI SDK or `fetch`.
+ * The GenAI SDK only exposes the status inside its message ("got status: 429 ..."),
+ * so both the error fields and the message are inspected.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+	const err = (error ?? {}) as {
+		name?: string;
+		message?: string;
+		status?: unknown;
+		code?: unknown;
+		headers?: unknown;
+	};
+	const detail = String(err.message ?? error ?? 'Unknown error');
+
+	if (error instanceof ApiRequestError) {
+		return { kind: error.kind, status: error.status, retryAfterMs: error.retryAfterMs, detail };
+	}
+
+	const status = readStatus(err.status, detail);
+	const retryAfterMs = readRetryAfter(err.headers, detail);
+	const code = typeof err.code === 'string' ? err.code : '';
+
+	let kind: ApiErrorKind = 'unknown';
+	if (status === 401 || status === 403 || AUTH_MESSAGE.test(detail)) {
+		kind = 'auth';
+	} else if (status === 429) {
+		const exhausted = code === 'insufficient_quota' || (/per ?day|billing_hard_limit/i.test(detail) && retryAfterMs === undefined);
+		kind = exhausted ? 'quota' : 'rateLimit';
+	} else if (code === 'insufficient_quota') {
+		kind = 'quota';
+	} else if (status !== undefined && status >= 500) {
+		kind = 'server';
+	} else if (status === 408 || status === 409) {
+		kind = 'network';
+	} else if (status !== undefined && status >= 400) {
+		kind = CONTENT_BLOCKED_MESSAGE.test(`${code} ${detail}`) ? 'contentBlocked' : 'badRequest';
+	} else if (
+		err.name === 'APIConnectionError' ||
+		err.name === 'APIConnectionTimeoutError' ||
+		(error instanceof TypeError && /fetch/i.test(detail)) ||
+		NETWORK_MESSAGE.test(detail)
+	) {
+		kind = 'network';
+	}
+
+	return { kind, status, retryAfterMs, detail };
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when given, otherwise
+ * exponential backoff with up to 20% jitter.
+ */
+export function getRetryDelayMs(classification: ErrorClassification, attempt: number): number {
+	if (classification.retryAfterMs !== undefined) {
+		return Math.min(Math.max(0, classification.retryAfterMs), MAX_RETRY_AFTER_MS);
+	}
+	const policy = RETRY_POLICIES[classification.kind];
+	const backoff = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+	return Math.round(backoff * (1 + Math.random() * 0.2));
+}
+
+/**
+ * User-facing message saying what went wrong with `label` (e.g. "Gemini chunk 3").
+ */
+export function describeApiFailure(classification: ErrorClassification, label: string, attempts: number): string {
+	const params = { label, attempts, detail: classification.detail };
+	switch (classification.kind) {
+		case 'auth':
+			return t('errorAuth', params);
+		case 'quota':
+			return t('errorQuota', params);
+		case 'rateLimit':
+			return t('errorRateLimit', params);
+		case 'network':
+			return t('errorNetwork', params);
+		case 'server':
+			return t('errorServer', params);
+		case 'contentBlocked':
+			return t('errorContentBlocked', params);
+		case 'badRequest':
+			return t('errorBadRequest', params);
+		default:
+			return t('errorUnknown', params);
+	}
+}
+
+export interface RetryRunOptions {
+	label: string;
+	signal?: AbortSignal;
+	sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+	isAbortError: (error: unknown) => boolean;
+	/** Throws the caller's AbortError once `signal` is aborted. */
+	throwIfAborted: (signal?: AbortSignal) => void;
+	/** Prefix of the retry warnings in the console. */
+	logPrefix: string;
+}
+
+/**
+ * Run `operation`, retrying according to the policy for the class of each failure.
+ * Gives up with an `ApiRequestError` carrying the class and a translated message.
+ */
+export async function runWithRetryPolicy<T>(operation: () => Promise<T>, options: RetryRunOptions): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		options.throwIfAborted(options.signal);
+		try {
+			return await operation();
+		} catch (error) {
+			if (options.isAbortError(error) || options.signal?.aborted) {
+				throw error;
+			}
+			const classification = classifyError(error);
+			const policy = RETRY_POLICIES[classification.kind];
+			if (attempt >= policy.maxAttempts) {
+				console.error(`${options.logPrefix} ${options.label} failed (${classification.kind}).`, error);
+				throw new ApiRequestError(classification.kind, describeApiFailure(classification, options.label, attempt), {
+					status: classification.status,
+					retryAfterMs: classification.retryAfterMs,
+				});
+			}
+			const delay = getRetryDelayMs(classification, attempt);
+			console.warn(
+				`${options.logPrefix} ${options.label} failed (${classification.kind}, attempt ${attempt}/${policy.maxAttempts}). Retrying in ${delay} ms...`,
+				error,
+			);
+			await options.sleep(delay, options.signal);
+		}
+	}
+}
+
+function readStatus(status: unknown, message: string): number | undefined {
+	if (typeof status === 'number' && status > 0) return status;
+	const match = message.match(/got status: (\d{3})/) ?? message.match(/^(\d{3}) /);
+	return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Retry-After from the OpenAI SDK's headers (a plain record) or a `Headers` object, falling back
+ * to the `retryDelay` of a google.rpc.RetryInfo detail embedded in a GenAI error message.
+ */
+function readRetryAfter(headers: unknown, message: string): number | undefined {
+	const read = (name: string): string | undefined => {
+		if (!headers || typeof headers !== 'object') return undefined;
+		if (typeof (headers as Headers).get === 'function') {
+			return (headers as Headers).get(name) ?? undefined;
+		}
+		const value = (headers as Record<string, unknown>)[name];
+		return typeof value === 'string' ? value : undefined;
+	};
+
+	const retryAfterMs = Number(read('retry-after-ms'));
+	if (read('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+		return retryAfterMs;
+	}
+	const retryAfter = read('retry-after');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) return seconds * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+	const delay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+	return delay ? Number(delay[1]) * 1000 : undefined;
+}
@@ -0,0 +1,268 @@
+/**
+ * Noise filtering applied to the 16 kHz audio before it is chunked: a high-pass filter
+ * against rumble, notches at the mains hum frequency and its harmonics, and a spectral
+ * gate that attenuates whatever sounds like the recording's background noise.
+ * Both factories also run in the preprocessing worker, so their helpers stay nested inside them.
+ */
+
+export interface AudioFilterOptions {
+	sampleRate: number;
+	/** High-pass cutoff in Hz, or 0 to let low frequencies through. */
+	highPassHz: number;
+	/** Mains frequency (50 or 60 Hz) to notch out with its harmonics, or 0 for none. */
+	humHz: number;
+}
+
+export interface AudioFilter {
+	/** Return a filtered copy of the next stretch of audio. */
+	process(data: Float32Array): Float32Array;
+}
+
+export interface SpectralGateOptions {
+	sampleRate: number;
+	/** Most a time-frequency bin is attenuated, in dB. */
+	maxReductionDb: number;
+}
+
+export interface SpectralGate {
+	/**
+	 * Learn the noise spectrum from `noiseRegions` (flattened [start, end) pairs within `data`),
+	 * or from the quietest frames when no regions are known, then attenuate `data` in place.
+	 * Does nothing until some noise has been learned.
+	 */
+	reduce(data: Float32Array, noiseRegions: number[] | null): void;
+	/** Number of frames the noise profile was learned from. */
+	noiseFrames(): number;
+}
+
+/**
+ * Streaming high-pass and hum notch filters: a fourth-order Butterworth high-pass made of
+ * two biquads, and narrow notches at the hum frequency and its first harmonics.
+ */
+export function createAudioFilter(options: AudioFilterOptions): AudioFilter {
+	const HUM_HARMONICS = 4;
+	const HUM_NOTCH_Q = 30;
+	// Q of the two second-order sections of a fourth-order Butterworth filter.
+	const BUTTERWORTH_Q = [0.5411961, 1.3065630];
+
+	const rate = options.sampleRate;
+	// Each section: b0, b1, b2, a1, a2 normalized by a0.
+	const sections: number[][] = [];
+	const addSection = (b0: number, b1: number, b2: number, a0: number, a1: number, a2: number) => {
+		sections.push([b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0]);
+	};
+
+	if (options.highPassHz > 0 && options.highPassHz < rate / 2) {
+		const w0 = (2 * Math.PI * options.highPassHz) / rate;
+		const cos = Math.cos(w0);
+		for (const q of BUTTERWORTH_Q) {
+			const alpha = Math.sin(w0) / (2 * q);
+			addSection((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+		}
+	}
+	if (options.humHz > 0) {
+		for (let harmonic = 1; harmonic <= HUM_HARMONICS && options.humHz * harmonic < rate / 2; harmonic++) {
+			const w0 = (2 * Math.PI * options.humHz * harmonic) / rate;
+			const cos = Math.cos(w0);
+			const alpha = Math.sin(w0) / (2 * HUM_NOTCH_Q);
+			addSection(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+		}
+	}
+	// Transposed direct form II state, two values per section.
+	const state = new Float64Array(sections.length * 2);
+
+	return {
+		process(data: Float32Array): Float32Array {
+			const output = new Float32Array(data.length);
+			for (let i = 0; i < data.length; i++) {
+				let x = data[i];
+				for (let s = 0; s < sections.length; s++) {
+					const c = sections[s];
+					const y = c[0] * x + state[2 * s];
+					state[2 * s] = c[1] * x - c[3] * y + state[2 * s + 1];
+					state[2 * s + 1] = c[2] * x - c[4] * y;
+					x = y;
+				}
+				output[i] = x;
+			}
+			return output;
+		},
+	};
+}
+
+/**
+ * Spectral gating noise reducer. The noise spectrum is the running mean power per frequency
+ * bin of non-speech frames. Each frame of the signal is then attenuated bin by bin with a
+ * spectral-subtraction gain, floored at `maxReductionDb` and smoothed across neighbouring
+ * bins and over time so the residual noise does not turn into "musical" chirps.
+ *
+ * Frames are 32 ms Hann windows at 75% overlap; each call overlap-adds within `data` only,
+ * normalized by the summed window so the edges are reconstructed exactly.
+ */
+export function createSpectralGate(options: SpectralGateOptions): SpectralGate {
+	const FRAME_SECONDS = 0.032;
+	const HOPS_PER_FRAME = 4;
+	// Bins up to this many times the mean noise power are gated down to the floor.
+	const NOISE_POWER_FACTOR = 3;
+	// Frames towards the noise profile's running mean before it starts forgetting old noise.
+	const MAX_NOISE_WEIGHT_FRAMES = 1000;
+	const QUIET_FRAME_FRACTION = 0.1;
+	const MIN_QUIET_FRAMES = 10;
+	// Per-hop decay of the gain, so speech tails are not cut off abruptly.
+	const GAIN_RELEASE = 0.5;
+
+	let size = 2;
+	while (size < options.sampleRate * FRAME_SECONDS) size *= 2;
+	const hop = size / HOPS_PER_FRAME;
+	const bins = size / 2 + 1;
+	const floor = Math.pow(10, -options.maxReductionDb / 20);
+
+	const hann = new Float64Array(size);
+	for (let i = 0; i < size; i++) {
+		hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+	}
+	const reversed = new Uint32Array(size);
+	for (let i = 0, bitsTotal = Math.log2(size); i < size; i++) {
+		let r = 0;
+		for (let bit = 0; bit < bitsTotal; bit++) {
+			r = (r << 1) | ((i >> bit) & 1);
+		}
+		reversed[i] = r;
+	}
+	const cosTable = new Float64Array(size / 2);
+	const sinTable = new Float64Array(size / 2);
+	for (let i = 0; i < size / 2; i++) {
+		cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+		sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+	}
+
+	const re = new Float64Array(size);
+	const im = new Float64Array(size);
+	const power = new Float64Array(bins);
+	const gains = new Float64Array(bins);
+	const previousGains = new Float64Array(bins).fill(1);
+	const noisePower = new Float64Array(bins);
+	let learnedFrames = 0;
+
+	/** In-place radix-2 FFT of `re`/`im`; the inverse is computed with conjugated twiddles and unscaled. */
+	function fft(inverse: boolean): void {
+		for (let i = 0; i < size; i++) {
+			const j = reversed[i];
+			if (j > i) {
+				let t = re[i];
+				re[i] = re[j];
+				re[j] = t;
+				t = im[i];
+				im[i] = im[j];
+				im[j] = t;
+			}
+		}
+		const sign = inverse ? -1 : 1;
+		for (let length = 2; length <= size; length *= 2) {
+			const halfLength = length / 2;
+			const step = size / length;
+			for (let start = 0; start < size; start += length) {
+				for (let k = 0; k < halfLength; k++) {
+					const wr = cosTable[k * step];
+					const wi = -sign * sinTable[k * step];
+					const a = start + k;
+					const b = a + halfLength;
+					const tr = re[b] * wr - im[b] * wi;
+					const ti = re[b] * wi + im[b] * wr;
+					re[b] = re[a] - tr;
+					im[b] = im[a] - ti;
+					re[a] += tr;
+					im[a] += ti;
+				}
+			}
+		}
+	}
+
+	/** Window the frame starting at `position` (zero outside `data`) and fill `power`. */
+	function analyse(data: Float32Array, position: number): void {
+		for (let i = 0; i < size; i++) {
+			const index = position + i;
+			re[i] = index >= 0 && index < data.length ? data[index] * hann[i] : 0;
+			im[i] = 0;
+		}
+		fft(false);
+		for (let k = 0; k < bins; k++) {
+			power[k] = re[k] * re[k] + im[k] * im[k];
+		}
+	}
+
+	function learn(data: Float32Array, position: number): void {
+		analyse(data, position);
+		learnedFrames++;
+		const weight = 1 / Math.min(learnedFrames, MAX_NOISE_WEIGHT_FRAMES);
+		for (let k = 0; k < bins; k++) {
+			noisePower[k] += (power[k] - noisePower[k]) * weight;
+		}
+	}
+
+	return {
+		reduce(data: Float32Array, noiseRegions: number[] | null): void {
+			if (data.length < size) return;
+
+			if (noiseRegions) {
+				for (let r = 0; r + 1 < noiseRegions.length; r += 2) {
+					for (let position = noiseRegions[r]; position + size <= noiseRegions[r + 1]; position += hop) {
+						learn(data, position);
+					}
+				}
+			} else {
+				// Without speech regions, take the quietest frames as noise.
+				const energies: number[] = [];
+				for (let position = 0; position + size <= data.length; position += hop) {
+					let sum = 0;
+					for (let i = position; i < position + size; i++) {
+						sum += data[i] * data[i];
+					}
+					energies.push(sum);
+				}
+				if (energies.length >= MIN_QUIET_FRAMES) {
+					const limit = energies.slice().sort((a, b) => a - b)[Math.floor(energies.length * QUIET_FRAME_FRACTION)];
+					energies.forEach((energy, index) => {
+						if (energy <= limit) learn(data, index * hop);
+					});
+				}
+			}
+			if (!learnedFrames) return;
+
+			const output = new Float64Array(data.length);
+			const norm = new Float64Array(data.length);
+			for (let position = hop - size; position < data.length; position += hop) {
+				analyse(data, position);
+				for (let k = 0; k < bins; k++) {
+					const snr = power[k] / (NOISE_POWER_FACTOR * noisePower[k] + 1e-12);
+					gains[k] = Math.max(floor, Math.sqrt(Math.max(0, 1 - 1 / snr)));
+				}
+				for (let k = 0; k < bins; k++) {
+					const smoothed = (gains[Math.max(k - 1, 0)] + gains[k] + gains[Math.min(k + 1, bins - 1)]) / 3;
+					previousGains[k] = Math.max(smoothed, previousGains[k] * GAIN_RELEASE);
+				}
+				for (let k = 0; k < bins; k++) {
+					re[k] *= previousGains[k];
+					im[k] *= previousGains[k];
+					if (k > 0 && k < bins - 1) {
+						re[size - k] = re[k];
+						im[size - k] = -im[k];
+					}
+				}
+				fft(true);
+				for (let i = 0; i < size; i++) {
+					const index = position + i;
+					if (index < 0 || index >= data.length) continue;
+					output[index] += (re[i] / size) * hann[i];
+					norm[index] += hann[i] * hann[i];
+				}
+			}
+			for (let i = 0; i < data.length; i++) {
+				data[i] = norm[i] > 1e-9 ? output[i] / norm[i] : 0;
+			}
+		},
+		noiseFrames(): number {
+			return learnedFrames;
+		},
+	};
+}
@@ -0,0 +1,238 @@
+/**
+ * Lossless FLAC encoding of the 16-bit mono chunks sent to the providers. Speech at 16 kHz
+ * compresses to roughly half the size of the equivalent WAV.
+ */
+
+/**
+ * Encode mono audio as a 16-bit FLAC stream, quantized exactly like the WAV encoder.
+ *
+ * Each 4096-sample block is stored as a constant, as verbatim samples, or with the best of
+ * FLAC's fixed polynomial predictors (orders 0-4) and a partitioned Rice code for the
+ * residual, whichever is smallest. The STREAMINFO block leaves the MD5 signature and frame
+ * sizes unset, which the format allows.
+ */
+export function encodeFlac(samples: Float32Array, sampleRate: number): ArrayBuffer {
+	const BLOCK_SIZE = 4096;
+	const BITS_PER_SAMPLE = 16;
+	const MAX_FIXED_ORDER = 4;
+	const MAX_PARTITION_ORDER = 8;
+	const MAX_RICE_PARAMETER = 14;
+
+	const pcm = new Int32Array(samples.length);
+	for (let i = 0; i < samples.length; i++) {
+		const sample = Math.max(-1, Math.min(1, samples[i]));
+		pcm[i] = sample < 0 ? Math.trunc(sample * 0x8000) : Math.trunc(sample * 0x7fff);
+	}
+
+	let bytes = new Uint8Array(samples.length * 2 + 1024);
+	let position = 0;
+	let bitBuffer = 0;
+	let bitCount = 0;
+
+	/** Append the low `count` bits of `value`, most significant first; `count` is at most 24. */
+	function writeBits(value: number, count: number): void {
+		if (position + 8 > bytes.length) {
+			const grown = new Uint8Array(bytes.length * 2);
+			grown.set(bytes);
+			bytes = grown;
+		}
+		bitBuffer = (bitBuffer << count) | (value & ((1 << count) - 1));
+		bitCount += count;
+		while (bitCount >= 8) {
+			bitCount -= 8;
+			bytes[position++] = (bitBuffer >>> bitCount) & 0xff;
+		}
+		bitBuffer &= (1 << bitCount) - 1;
+	}
+
+	function writeUnary(zeros: number): void {
+		while (zeros >= 24) {
+			writeBits(0, 24);
+			zeros -= 24;
+		}
+		writeBits(1, zeros + 1);
+	}
+
+	function alignToByte(): void {
+		if (bitCount) writeBits(0, 8 - bitCount);
+	}
+
+	function crc8(from: number, to: number): number {
+		let crc = 0;
+		for (let i = from; i < to; i++) {
+			crc ^= bytes[i];
+			for (let bit = 0; bit < 8; bit++) {
+				crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+			}
+		}
+		return crc;
+	}
+
+	function crc16(from: number, to: number): number {
+		let crc = 0;
+		for (let i = from; i < to; i++) {
+			crc ^= bytes[i] << 8;
+			for (let bit = 0; bit < 8; bit++) {
+				crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+			}
+		}
+		return crc;
+	}
+
+	/** Residual of the fixed predictor of `order` for samples `start + order` to `end`. */
+	function fixedResidual(start: number, end: number, order: number, residual: Int32Array): void {
+		for (let i = start + order, n = 0; i < end; i++, n++) {
+			switch (order) {
+				case 0:
+					residual[n] = pcm[i];
+					break;
+				case 1:
+					residual[n] = pcm[i] - pcm[i - 1];
+					break;
+				case 2:
+					residual[n] = pcm[i] - 2 * pcm[i - 1] + pcm[i - 2];
+					break;
+				case 3:
+					residual[n] = pcm[i] - 3 * pcm[i - 1] + 3 * pcm[i - 2] - pcm[i - 3];
+					break;
+				default:
+					residual[n] = pcm[i] - 4 * pcm[i - 1] + 6 * pcm[i - 2] - 4 * pcm[i - 3] + pcm[i - 4];
+			}
+		}
+	}
+
+	/** Best Rice parameter for a partition and its estimated size in bits, parameter field included. */
+	function riceCost(folded: Float64Array, from: number, to: number): { parameter: number; bits: number } {
+		let sum = 0;
+		for (let i = from; i < to; i++) sum += folded[i];
+		const count = to - from;
+		let best = { parameter: 0, bits: Infinity };
+		for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+			const bits = 4 + count * (parameter + 1) + Math.floor(sum / Math.pow(2, parameter));
+			if (bits < best.bits) best = { parameter, bits };
+		}
+		return best;
+	}
+
+	const residual = new Int32Array(BLOCK_SIZE);
+	const folded = new Float64Array(BLOCK_SIZE);
+
+	function writeFrame(frameNumber: number, start: number, end: number): void {
+		const blockSize = end - start;
+		const frameStart = position;
+
+		// Header: sync code, fixed block size, rate and sample size from STREAMINFO, one channel.
+		writeBits(0xfff8, 16);
+		writeBits(0x70, 8);
+		writeBits(0x08, 8);
+		// Frame number in FLAC's UTF-8-like variable-length coding.
+		if (frameNumber < 0x80) {
+			writeBits(frameNumber, 8);
+		} else {
+			let continuation = 1;
+			while (frameNumber >= Math.pow(2, 6 + 5 * continuation)) continuation++;
+			const marker = (0xff00 >> (continuation + 1)) & 0xff;
+			writeBits(marker | Math.floor(frameNumber / Math.pow(2, 6 * continuation)), 8);
+			for (let c = continuation - 1; c >= 0; c--) {
+				writeBits(0x80 | (Math.floor(frameNumber / Math.pow(2, 6 * c)) & 0x3f), 8);
+			}
+		}
+		writeBits(blockSize - 1, 16);
+		writeBits(crc8(frameStart, position), 8);
+
+		let constant = true;
+		for (let i = start + 1; i < end && constant; i++) {
+			constant = pcm[i] === pcm[start];
+		}
+		if (constant) {
+			writeBits(0, 8);
+			writeBits(pcm[start], BITS_PER_SAMPLE);
+		} else {
+			let bestOrder = 0;
+			let bestSum = Infinity;
+			for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+				fixedResidual(start, end, order, residual);
+				let sum = 0;
+				for (let n = 0; n < blockSize - order; n++) sum += Math.abs(residual[n]);
+				if (sum < bestSum) {
+					bestSum = sum;
+					bestOrder = order;
+				}
+			}
+			fixedResidual(start, end, bestOrder, residual);
+			// Partition sizes are counted from the block start, so the first one loses the warm-up samples.
+			for (let n = 0; n < blockSize - bestOrder; n++) {
+				folded[n] = residual[n] >= 0 ? 2 * residual[n] : -2 * residual[n] - 1;
+			}
+
+			let bestPartitionOrder = 0;
+			let bestParameters: number[] = [];
+			let bestBits = Infinity;
+			for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+				const partitions = 1 << partitionOrder;
+				if (blockSize % partitions || blockSize / partitions <= bestOrder) break;
+				const partitionSize = blockSize / partitions;
+				const parameters: number[] = [];
+				let bits = 6;
+				for (let p = 0; p < partitions; p++) {
+					const from = p === 0 ? 0 : p * partitionSize - bestOrder;
+					const cost = riceCost(folded, from, (p + 1) * partitionSize - bestOrder);
+					parameters.push(cost.parameter);
+					bits += cost.bits;
+				}
+				if (bits < bestBits) {
+					bestBits = bits;
+					bestPartitionOrder = partitionOrder;
+					bestParameters = parameters;
+				}
+			}
+
+			if (bestOrder * BITS_PER_SAMPLE + bestBits >= blockSize * BITS_PER_SAMPLE) {
+				writeBits(0x02, 8);
+				for (let i = start; i < end; i++) writeBits(pcm[i], BITS_PER_SAMPLE);
+			} else {
+				writeBits(0x10 | (bestOrder << 1), 8);
+				for (let i = start; i < start + bestOrder; i++) writeBits(pcm[i], BITS_PER_SAMPLE);
+				writeBits(0, 2);
+				writeBits(bestPartitionOrder, 4);
+				const partitionSize = blockSize >> bestPartitionOrder;
+				bestParameters.forEach((parameter, p) => {
+					writeBits(parameter, 4);
+					const from = p === 0 ? 0 : p * partitionSize - bestOrder;
+					const to = (p + 1) * partitionSize - bestOrder;
+					for (let n = from; n < to; n++) {
+						const value = folded[n];
+						writeUnary(Math.floor(value / (1 << parameter)));
+						if (parameter) writeBits(value, parameter);
+					}
+				});
+			}
+		}
+
+		alignToByte();
+		writeBits(crc16(frameStart, position), 16);
+	}
+
+	// "fLaC" marker, then STREAMINFO as the last metadata block.
+	writeBits(0x664c, 16);
+	writeBits(0x6143, 16);
+	writeBits(0x80, 8);
+	writeBits(34, 24);
+	const blockSizeField = Math.max(16, Math.min(BLOCK_SIZE, samples.length));
+	writeBits(blockSizeField, 16);
+	writeBits(blockSizeField, 16);
+	writeBits(0, 24);
+	writeBits(0, 24);
+	writeBits(sampleRate >> 4, 16);
+	// Low 4 rate bits, channels - 1, bits per sample - 1, then the 36-bit sample count.
+	writeBits(((sampleRate & 0xf) << 4) | ((BITS_PER_SAMPLE - 1) >> 4), 8);
+	writeBits((((BITS_PER_SAMPLE - 1) & 0xf) << 4) | (Math.floor(samples.length / Math.pow(2, 32)) & 0xf), 8);
+	writeBits(Math.floor(samples.length / 0x10000) & 0xffff, 16);
+	writeBits(samples.length & 0xffff, 16);
+	for (let i = 0; i < 16; i++) writeBits(0, 8);
+
+	for (let start = 0, frame = 0; start < samples.length; start += BLOCK_SIZE, frame++) {
+		writeFrame(frame, start, Math.min(start + BLOCK_SIZE, samples.length));
+	}
+	return bytes.slice(0, position).buffer;
+}
@@ -0,0 +1,132 @@
+import { GlossaryEntry, GlossarySettings } from '../settings/types';
+
+/** OpenAI only reads the last 224 tokens of a transcription prompt. */
+export const OPENAI_PROMPT_TOKEN_LIMIT = 224;
+
+const WORD_CHAR = /[A-Za-z0-9\u00c0-\u024f]/;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * Shared entries plus the named project glossary. A project entry replaces a shared one with the same term.
+ */
+export function resolveGlossary(settings: GlossarySettings | undefined, project?: string): GlossaryEntry[] {
+	if (!settings) return [];
+	const byTerm = new Map<string, GlossaryEntry>();
+	const add = (entries: GlossaryEntry[]) => {
+		for (const entry of entries) {
+			if (entry.term.trim()) byTerm.set(entry.term.trim().toLowerCase(), entry);
+		}
+	};
+	add(settings.entries ?? []);
+	const selected = project ? (settings.projects ?? []).find(glossary => glossary.name === project) : undefined;
+	if (selected) add(selected.entries);
+	return Array.from(byTerm.values());
+}
+
+/**
+ * Parse the settings text format, one entry per line: `Term | mis-hearing, mis-hearing | note`.
+ * Only the term is required; blank lines and lines starting with "#" are skipped.
+ */
+export function parseGlossaryText(text: string): GlossaryEntry[] {
+	const entries: GlossaryEntry[] = [];
+	for (const line of text.split('\n')) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith('#')) continue;
+		const [term, misheard = '', ...note] = trimmed.split('|').map(part => part.trim());
+		if (!term) continue;
+		const entry: GlossaryEntry = {
+			term,
+			misheard: misheard
+				.split(/[,\uff0c]/)
+				.map(variant => variant.trim())
+				.filter(variant => variant && variant !== term),
+		};
+		if (note.join('|').trim()) entry.note = note.join('|').trim();
+		entries.push(entry);
+	}
+	return entries;
+}
+
+export function formatGlossaryText(entries: GlossaryEntry[]): string {
+	return entries
+		.map(entry => {
+			const parts = [entry.term, entry.misheard.join(', ')];
+			if (entry.note) parts.push(entry.note);
+			return parts.join(' | ').replace(/(\s\|\s)+$/, '');
+		})
+		.join('\n');
+}
+
+/**
+ * Rough token count: one token per CJK character, about four characters per token otherwise.
+ */
+export function estimateTokens(text: string): number {
+	const cjk = (text.match(CJK_CHAR) ?? []).length;
+	return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Append the glossary terms to an OpenAI transcription prompt within `tokenLimit`.
+ * Terms win over the rest of the prompt: as many terms as fit are listed last (the part the
+ * model reads), and the existing prompt is cut from the front to fit what is left.
+ */
+export function appendGlossaryToPrompt(prompt: string, entries: GlossaryEntry[], tokenLimit = OPENAI_PROMPT_TOKEN_LIMIT): string {
+	if (!entries.length) return prompt;
+	let glossaryLine = 'Glossary:';
+	for (const entry of entries) {
+		const candidate = `${glossaryLine} ${entry.term},`;
+		if (estimateTokens(candidate) > tokenLimit) break;
+		glossaryLine = candidate;
+	}
+	glossaryLine = glossaryLine.replace(/,$/, '.');
+	if (glossaryLine === 'Glossary:') return prompt;
+
+	const remaining = tokenLimit - estimateTokens(glossaryLine) - 1;
+	let head = prompt;
+	while (head && estimateTokens(head) > remaining) {
+		head = head.substring(Math.max(1, Math.ceil(head.length / 10)));
+	}
+	head = head.trim();
+	return head ? `${head}\n\n${glossaryLine}` : glossaryLine;
+}
+
+/**
+ * Glossary section for model prompts (Gemini transcription, editor, translation), or '' when empty.
+ */
+export function buildGlossaryBlock(entries: GlossaryEntry[]): string {
+	if (!entries.length) return '';
+	const lines = entries.map(entry => {
+		let line = `- ${entry.term}`;
+		if (entry.misheard.length) line += ` (often misheard as: ${entry.misheard.join(', ')})`;
+		if (entry.note) line += ` — ${entry.note}`;
+		return line;
+	});
+	return (
+		'【Glossary】\n' +
+		'Always use these spellings for names and terms. If the audio or text contains something that sounds like a listed term or one of its mis-hearings, write the term.\n' +
+		lines.join('\n')
+	);
+}
+
+/**
+ * Replace known mis-hearings with their terms. Latin-script variants only match whole words;
+ * variants in scripts without spaces match anywhere. Longer variants are replaced first.
+ */
+export function applyGlossaryCorrections(text: string, entries: GlossaryEntry[]): string {
+	const replacements: Array<{ variant: string; term: string }> = [];
+	for (const entry of entries) {
+		for (const variant of entry.misheard) {
+			if (variant) replacements.push({ variant, term: entry.term });
+		}
+	}
+	replacements.sort((a, b) => b.variant.length - a.variant.length);
+
+	let corrected = text;
+	for (const { variant, term } of replacements) {
+		const escaped = variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const before = WORD_CHAR.test(variant[0]) ? '(^|[^A-Za-z0-9\\u00c0-\\u024f])' : '()';
+		const after = WORD_CHAR.test(variant[variant.length - 1]) ? '(?![A-Za-z0-9\\u00c0-\\u024f])' : '';
+		corrected = corrected.replace(new RegExp(`${before}${escaped}${after}`, 'gi'), (_, prefix: string) => `${prefix}${term}`);
+	}
+	return corrected;
+}
@@ -0,0 +1,83 @@
+import { GlossaryEntry, TranscriberSettings } from '../settings/types';
+import {
+	SessionRecording,
+	resolveChannelSpeakers,
+	resolvePreprocessingProfile,
+	resolveTranscriptionPromptTemplate,
+} from './transcriber';
+
+/** Slice of a blob read at a time when hashing it, so a long recording is never copied whole. */
+const HASH_WINDOW_BYTES = 8 * 1024 * 1024;
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * SHA-256 of the SHA-256 digests of consecutive HASH_WINDOW_BYTES slices of `blob`. Web Crypto
+ * cannot hash incrementally, so hashing the per-slice digests keeps one slice in memory at a time.
+ */
+export async function sha256Blob(blob: Blob): Promise<string> {
+	const digests = new Uint8Array(Math.ceil(blob.size / HASH_WINDOW_BYTES) * 32);
+	for (let offset = 0, index = 0; offset < blob.size; offset += HASH_WINDOW_BYTES, index++) {
+		const window = await blob.slice(offset, offset + HASH_WINDOW_BYTES).arrayBuffer();
+		digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', window)), index * 32);
+	}
+	return sha256Hex(digests.buffer);
+}
+
+/**
+ * Per-job choices that shape the raw transcript in addition to the transcriber settings.
+ */
+export interface TranscriptionKeyOptions {
+	context?: string;
+	preprocessingProfile?: string;
+	promptTemplate?: string;
+	languages?: string[];
+	/** Resolved glossary entries, and whether mis-hearings are corrected with them. */
+	glossary?: GlossaryEntry[];
+	applyGlossaryCorrections?: boolean;
+	/** Speaker per stereo channel, null to transcribe the channels mixed. */
+	channelSpeakers?: string[] | null;
+}
+
+/**
+ * Hash of the audio bytes (read slice by slice) and every setting that shapes the raw transcript.
+ * Two runs with the same key are expected to produce the same transcript.
+ * A session is hashed by its recordings in order, with their names since the markers show them.
+ */
+export async function computeTranscriptionKey(
+	audio: Blob | SessionRecording[],
+	settings: TranscriberSettings,
+	options: TranscriptionKeyOptions = {},
+): Promise<string> {
+	let audioHash: string;
+	if (audio instanceof Blob) {
+		audioHash = await sha256Blob(audio);
+	} else {
+		const parts: string[][] = [];
+		for (const recording of audio) {
+			parts.push([recording.name, await sha256Blob(recording.blob)]);
+		}
+		audioHash = await sha256Hex(new TextEncoder().encode(JSON.stringify(parts)).buffer);
+	}
+	const fingerprint = JSON.stringify({
+		audioHash,
+		provider: settings.provider,
+		model: settings.model,
+		promptTemplate: resolveTranscriptionPromptTemplate(settings, options.promptTemplate),
+		languages: options.languages ?? settings.languages ?? [],
+		temperature: settings.temperature,
+		chunkOverlapSeconds: settings.chunkOverlapSeconds,
+		providerOptions: settings.providerOptions?.[settings.provider] ?? {},
+		context: options.context ?? '',
+		preprocessing: resolvePreprocessingProfile(settings, options.preprocessingProfile),
+		glossary: options.glossary ?? [],
+		applyGlossaryCorrections: options.applyGlossaryCorrections ?? false,
+		channelSpeakers: resolveChannelSpeakers(settings, options.channelSpeakers),
+	});
+	return sha256Hex(new TextEncoder().encode(fingerprint).buffer);
+}
@@ -0,0 +1,193 @@
+import { App, normalizePath } from 'obsidian';
+import { TranscriptSegment } from './transcript';
+import { AudioChunk } from './providers/types';
+import { ChunkCheckpoint } from './transcriber';
+import { TranslationRequest } from './translation';
+
+const JOB_FILE_VERSION = 1;
+
+export interface JobChunkBounds {
+	startSeconds: number;
+	endSeconds?: number;
+}
+
+/**
+ * A transcription that has not finished yet. Completed chunks are written as they
+ * arrive so a failed or cancelled run can be resumed without paying for them again.
+ */
+export interface TranscriptionJob {
+	version: number;
+	/**
+	 * `computeTranscriptionKey` of the audio and settings, so re-running the same file
+	 * with the same settings picks up where it stopped.
+	 */
+	id: string;
+	/** Vault path of the audio file, used to reload it on resume. */
+	sourcePath: string;
+	/** Vault paths of all recordings of a multi-file session, in order; `sourcePath` is the first. */
+	sourcePaths?: string[];
+	baseName: string;
+	provider: string;
+	model: string;
+	createdAt: number;
+	updatedAt: number;
+	context?: string;
+	systemPromptOverride?: string;
+	saveRawWhenEditorEnabled: boolean;
+	preprocessingProfile?: string;
+	/** Transcription prompt template chosen for this job. */
+	promptTemplate?: string;
+	/** Expected languages chosen for this job; absent when the settings default was used. */
+	languages?: string[];
+	/** Translation chosen for this job, null for none; absent when the settings default was used. */
+	translation?: TranslationRequest | null;
+	/** Project glossary chosen for this job. */
+	glossaryProject?: string;
+	/** Speaker per stereo channel chosen for this job, null for mixed; absent when the settings default was used. */
+	channelSpeakers?: string[] | null;
+	/** System prompt template chosen for this job, recorded in the usage ledger. */
+	templateName?: string;
+	/**
+	 * Bounds of the chunks cut so far by the run that produced `completed`. Chunks from the
+	 * first one that comes out differently onwards are transcribed again.
+	 */
+	chunks?: JobChunkBounds[];
+	/** Chunk-local segments keyed by zero-based chunk index. */
+	completed: Record<string, TranscriptSegment[]>;
+}
+
+export type NewTranscriptionJob = Omit<TranscriptionJob, 'version' | 'createdAt' | 'updatedAt' | 'chunks' | 'completed'>;
+
+/**
+ * Persists in-progress transcription jobs as JSON files under the plugin folder.
+ */
+export class TranscriptionJobStore {
+	private app: App;
+	private dir: string;
+	private writes = new Map<string, Promise<void>>();
+
+	constructor(app: App, dir: string) {
+		this.app = app;
+		this.dir = normalizePath(dir);
+	}
+
+	async load(id: string): Promise<TranscriptionJob | null> {
+		const path = this.getJobPath(id);
+		if (!(await this.app.vault.adapter.exists(path))) {
+			return null;
+		}
+		try {
+			const job = JSON.parse(await this.app.vault.adapter.read(path)) as TranscriptionJob;
+			return job.version === JOB_FILE_VERSION ? job : null;
+		} catch (error) {
+			console.warn('[AI Transcriber] Ignoring unreadable job file:', path, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Load the job with this id, or start a new one when none exists.
+	 */
+	async open(job: NewTranscriptionJob): Promise<TranscriptionJob> {
+		const existing = await this.load(job.id);
+		if (existing) {
+			return existing;
+		}
+		const now = Date.now();
+		const created: TranscriptionJob = {
+			...job,
+			version: JOB_FILE_VERSION,
+			createdAt: now,
+			updatedAt: now,
+			completed: {},
+		};
+		await this.save(created);
+		return created;
+	}
+
+	/**
+	 * All unfinished jobs, most recently updated first.
+	 */
+	async list(): Promise<TranscriptionJob[]> {
+		if (!(await this.app.vault.adapter.exists(this.dir))) {
+			return [];
+		}
+		const listing = await this.app.vault.adapter.list(this.dir);
+		const jobs: TranscriptionJob[] = [];
+		for (const file of listing.files) {
+			if (!file.endsWith('.json')) continue;
+			const id = file.substring(file.lastIndexOf('/') + 1).replace(/\.json$/, '');
+			const job = await this.load(id);
+			if (job) jobs.push(job);
+		}
+		return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	async remove(id: string): Promise<void> {
+		await this.writes.get(id);
+		const path = this.getJobPath(id);
+		if (await this.app.vault.adapter.exists(path)) {
+			await this.app.vault.adapter.remove(path);
+		}
+	}
+
+	/**
+	 * Adapter handed to `TranscriberService` that restores and records chunks for this job.
+	 */
+	createCheckpoint(job: TranscriptionJob): ChunkCheckpoint {
+		return {
+			restore: async (chunkIndex: number, chunk: AudioChunk) => {
+				const bounds: JobChunkBounds = { startSeconds: chunk.startSeconds, endSeconds: chunk.endSeconds };
+				const layout = job.chunks ?? [];
+				const recorded = layout[chunkIndex];
+				if (recorded && !this.sameBounds(recorded, bounds)) {
+					console.warn('[AI Transcriber] Chunk layout changed since the job started; transcribing the remaining chunks again.', {
+						jobId: job.id,
+						chunkIndex,
+					});
+					layout.length = chunkIndex;
+					for (const index of Object.keys(job.completed)) {
+						if (Number(index) >= chunkIndex) delete job.completed[index];
+					}
+				}
+				layout[chunkIndex] = bounds;
+				job.chunks = layout;
+				const segments = job.completed[String(chunkIndex)] ?? null;
+				await this.save(job);
+				return segments;
+			},
+			save: async (chunkIndex: number, segments: TranscriptSegment[]) => {
+				job.completed[String(chunkIndex)] = segments;
+				await this.save(job);
+			},
+		};
+	}
+
+	private sameBounds(a: JobChunkBounds, b: JobChunkBounds): boolean {
+		const close = (x?: number, y?: number) =>
+			x === undefined || y === undefined ? x === y : Math.abs(x - y) < 0.001;
+		return close(a.startSeconds, b.startSeconds) && close(a.endSeconds, b.endSeconds);
+	}
+
+	/**
+	 * Serialize writes per job; chunks finishing in parallel would otherwise interleave.
+	 */
+	private save(job: TranscriptionJob): Promise<void> {
+		const previous = this.writes.get(job.id) ?? Promise.resolve();
+		const next = previous
+			.catch(() => undefined)
+			.then(async () => {
+				job.updatedAt = Date.now();
+				if (!(await this.app.vault.adapter.exists(this.dir))) {
+					await this.app.vault.adapter.mkdir(this.dir);
+				}
+				await this.app.vault.adapter.write(this.getJobPath(job.id), JSON.stringify(job));
+			});
+		this.writes.set(job.id, next);
+		return next;
+	}
+
+	private getJobPath(id: string): string {
+		return normalizePath(`${this.dir}/${id}.json`);
+	}
+}
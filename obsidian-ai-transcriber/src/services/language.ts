@@ -0,0 +1,82 @@
+import { TranscriptSegment } from './transcript';
+
+/**
+ * ISO 639-1 codes offered for transcription, with the English names used in prompts.
+ * Other two- or three-letter codes are accepted as-is.
+ */
+export const TRANSCRIPTION_LANGUAGES: Record<string, string> = {
+	ar: 'Arabic',
+	de: 'German',
+	en: 'English',
+	es: 'Spanish',
+	fr: 'French',
+	hi: 'Hindi',
+	id: 'Indonesian',
+	it: 'Italian',
+	ja: 'Japanese',
+	ko: 'Korean',
+	nl: 'Dutch',
+	pl: 'Polish',
+	pt: 'Portuguese',
+	ru: 'Russian',
+	sv: 'Swedish',
+	th: 'Thai',
+	tr: 'Turkish',
+	uk: 'Ukrainian',
+	vi: 'Vietnamese',
+	zh: 'Chinese',
+};
+
+/** Languages making up less than this share of the detected text are left out of the summary. */
+const MIN_DETECTED_SHARE = 0.1;
+
+/**
+ * Map a language code or English name ("ko", "KO", "korean") to its code, or null when unrecognised.
+ */
+export function normalizeLanguage(value: string): string | null {
+	const lower = value.trim().toLowerCase();
+	if (!lower || lower === 'auto') return null;
+	if (TRANSCRIPTION_LANGUAGES[lower]) return lower;
+	for (const [code, name] of Object.entries(TRANSCRIPTION_LANGUAGES)) {
+		if (name.toLowerCase() === lower) return code;
+	}
+	return /^[a-z]{2,3}$/.test(lower) ? lower : null;
+}
+
+/**
+ * Parse a comma/space separated language setting. An empty result means automatic detection.
+ */
+export function parseLanguageList(value: string): string[] {
+	const codes: string[] = [];
+	for (const part of value.split(/[\s,;]+/)) {
+		const code = normalizeLanguage(part);
+		if (code && codes.indexOf(code) === -1) codes.push(code);
+	}
+	return codes;
+}
+
+/**
+ * English names joined for a prompt, e.g. "Korean, German and English".
+ */
+export function describeLanguages(codes: string[]): string {
+	const names = codes.map(code => TRANSCRIPTION_LANGUAGES[code] ?? code);
+	return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * Languages reported by the provider for the given segments, most text first.
+ */
+export function summarizeDetectedLanguages(segments: TranscriptSegment[]): string[] {
+	const weights = new Map<string, number>();
+	let total = 0;
+	for (const segment of segments) {
+		if (!segment.language) continue;
+		const weight = Math.max(1, segment.text.length);
+		weights.set(segment.language, (weights.get(segment.language) ?? 0) + weight);
+		total += weight;
+	}
+	return Array.from(weights.entries())
+		.filter(([, weight]) => weight >= total * MIN_DETECTED_SHARE)
+		.sort((a, b) => b[1] - a[1])
+		.map(([code]) => code);
+}
@@ -0,0 +1,48 @@
+import { hasVideoTrack } from './decoder';
+
+/**
+ * MIME types of the files "Transcribe with AI" accepts. `.webm` and `.mp4` can hold audio
+ * only or video; `detectMediaMimeType` tells them apart.
+ */
+const MEDIA_MIME_BY_EXTENSION: Record<string, string> = {
+	webm: 'audio/webm',
+	m4a: 'audio/mp4',
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	ogg: 'audio/ogg',
+	flac: 'audio/flac',
+	aac: 'audio/aac',
+	opus: 'audio/ogg; codecs=opus',
+	mp4: 'audio/mp4',
+	m4v: 'video/mp4',
+	mov: 'video/quicktime',
+	mkv: 'video/x-matroska',
+};
+
+const VIDEO_MIME_BY_AMBIGUOUS_EXTENSION: Record<string, string> = {
+	webm: 'video/webm',
+	mp4: 'video/mp4',
+};
+
+export const SUPPORTED_MEDIA_EXTENSIONS = new Set(Object.keys(MEDIA_MIME_BY_EXTENSION));
+
+export function isVideoMimeType(mimeType: string): boolean {
+	return mimeType.toLowerCase().startsWith('video/');
+}
+
+/**
+ * MIME type for a vault file, looking inside `.webm` and `.mp4` files for a video track.
+ * Returns '' for unsupported extensions.
+ */
+export async function detectMediaMimeType(blob: Blob, extension: string): Promise<string> {
+	const lower = extension.toLowerCase();
+	const videoMime = VIDEO_MIME_BY_AMBIGUOUS_EXTENSION[lower];
+	if (videoMime) {
+		try {
+			if (await hasVideoTrack(blob)) return videoMime;
+		} catch (error) {
+			console.warn('[AI Transcriber] Could not read the container tracks; treating the file as audio.', error);
+		}
+	}
+	return MEDIA_MIME_BY_EXTENSION[lower] || '';
+}
@@ -0,0 +1,39 @@
+import { describeLanguages } from '../language';
+
+/**
+ * Build the meeting-context block appended to transcription prompts.
+ */
+export function buildTranscriptionContextBlock(context?: string): string {
+	if (!context || !context.trim()) return '';
+	return (
+		'【用户提供的会议背景（仅用于提高识别准确性）】\n' +
+		context.trim() +
+		'\n【使用规则】\n- 仅用于人名/组织/术语识别\n- 不要添加音频中未出现的内容'
+	);
+}
+
+export interface RenderedTranscriptionPrompt {
+	text: string;
+	/** The template placed the context itself, so it must not be appended again. */
+	usedContext: boolean;
+	/** The template named the declared languages itself. */
+	usedLanguage: boolean;
+}
+
+const CONTEXT_PLACEHOLDER = /\{\{\s*context\s*\}\}/gi;
+const LANGUAGE_PLACEHOLDER = /\{\{\s*language\s*\}\}/gi;
+
+/**
+ * Fill a prompt template's placeholders: `{{context}}` with the job's meeting context and
+ * `{{language}}` with the declared languages ("Korean and English"), or a neutral phrase when
+ * the language is detected.
+ */
+export function renderTranscriptionPrompt(template: string, context: string | undefined, languages: string[]): RenderedTranscriptionPrompt {
+	const usedContext = template.search(CONTEXT_PLACEHOLDER) !== -1;
+	const usedLanguage = languages.length > 0 && template.search(LANGUAGE_PLACEHOLDER) !== -1;
+	const text = template
+		.replace(CONTEXT_PLACEHOLDER, () => context?.trim() ?? '')
+		.replace(LANGUAGE_PLACEHOLDER, () => (languages.length ? describeLanguages(languages) : 'the language spoken in the audio'))
+		.trim();
+	return { text, usedContext, usedLanguage };
+}
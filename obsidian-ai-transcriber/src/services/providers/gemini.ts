@@ -0,0 +1,394 @@
+import { DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES, ProviderOptions, TranscriberSettings } from '../../settings/types';
+import { TranscriptSegment, isSparseTranscript, parseParagraphSegments } from '../transcript';
+import {
+	AudioChunk,
+	ChunkingRequirements,
+	ChunkTranscriptionContext,
+	ProviderSettingField,
+	ReconcileContext,
+	TranscriptionProvider,
+} from './types';
+import { buildTranscriptionContextBlock, renderTranscriptionPrompt } from './context';
+import { describeLanguages, parseLanguageList } from '../language';
+import { buildGlossaryBlock } from '../glossary';
+import { ApiRequestError, IncompleteTranscriptError, getGeminiBlockReason } from '../errors';
+import { isVideoMimeType } from '../media';
+
+const GEMINI_FILE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+const DIRECT_GEMINI_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+
+const GEMINI_TIMESTAMP_INSTRUCTION =
+	'\n\n**Timestamps:** Begin every paragraph with the time it starts in the audio, formatted as [MM:SS] ' +
+	'(or [HH:MM:SS] past one hour), measured from the beginning of this audio file. ' +
+	'Place the timestamp before the speaker label, e.g. "[01:23] **Speaker 1:** ...".';
+
+const GEMINI_LANGUAGE_DETECTION_INSTRUCTION =
+	'\n\n**Language:** Before the transcript, output a single line "[Language: xx]" with the ISO 639-1 code of the ' +
+	'language spoken (several codes separated by commas, most used first, e.g. "[Language: ko, en]"), followed by a blank line.';
+
+const LANGUAGE_LINE = /^\s*\[Language:\s*([^\]\n]*)\]\s*/i;
+
+const SPEAKER_EXCERPT_CHARS = 4000;
+const SPEAKER_SAMPLE_CHARS = 200;
+const GENERIC_SPEAKER_LABEL = /^Speaker (\d+)$/i;
+
+type GeminiFile = { name?: string; uri?: string; state?: string };
+type GenAIClient = InstanceType<typeof import('@google/genai').GoogleGenAI>;
+
+/**
+ * Gemini via the File API: each chunk is uploaded, polled until processed,
+ * transcribed with a paragraph/speaker prompt and deleted again. A transcript that stopped at
+ * the output token limit or a safety filter, or is far too short for the chunk's detected
+ * speech, is reported as incomplete so the service can transcribe the chunk in pieces.
+ */
+export class GeminiTranscriptionProvider implements TranscriptionProvider {
+	readonly id = 'gemini';
+	readonly displayName = 'Gemini';
+	readonly requiresApiKey = true;
+	readonly modelPlaceholder = 'gemini-2.5-flash';
+	readonly settingsSchema: ProviderSettingField[] = [
+		{
+			key: 'preferQualityWav',
+			name: 'Gemini Upload Mode',
+			desc: 'When enabled, audio is always converted to lossless 16 kHz chunks (FLAC or WAV, see Chunk Format) before uploading for best transcription quality. Disable to upload original compressed audio for faster uploads.',
+			type: 'toggle',
+			default: true,
+		},
+		{
+			key: 'reconcileSpeakers',
+			name: 'Reconcile Speakers Across Chunks',
+			desc: 'Chunks are transcribed independently, so "Speaker 1" can be a different person in each chunk. When enabled, each chunk boundary is sent back to Gemini (text only) to map its speakers onto one consistent set.',
+			type: 'toggle',
+			default: true,
+		},
+	];
+
+	private genaiModule: typeof import('@google/genai') | null = null;
+
+	/**
+	 * Preprocessed chunks are only skipped when the user prefers speed and the original file is small enough.
+	 * Video is always preprocessed so only its audio track is uploaded.
+	 */
+	getChunking(blob: Blob, settings: TranscriberSettings, providerOptions: ProviderOptions): ChunkingRequirements | null {
+		const forceWavPreprocess =
+			providerOptions.preferQualityWav !== false ||
+			blob.size > DIRECT_GEMINI_UPLOAD_MAX_BYTES ||
+			isVideoMimeType(blob.type);
+		if (!forceWavPreprocess) {
+			return null;
+		}
+		return { maxChunkSeconds: 15 * 60, trimLongSilence: false, concurrency: 2 };
+	}
+
+	validate(settings: TranscriberSettings): string | null {
+		return settings.apiKey ? null : 'Transcriber API key is not configured';
+	}
+
+	async transcribeChunk(chunk: AudioChunk, ctx: ChunkTranscriptionContext): Promise<TranscriptSegment[]> {
+		const { GoogleGenAI, FinishReason } = await this.getGenAIModule();
+		const genAI = new GoogleGenAI({ apiKey: ctx.settings.apiKey });
+		const mimeType = chunk.blob.type || 'audio/webm';
+		let uploadedFile: GeminiFile | null = null;
+
+		try {
+			ctx.reportStage('upload');
+			uploadedFile = await ctx.retry(`Gemini upload chunk ${ctx.chunkIndex}`, () =>
+				genAI.files.upload({
+					file: chunk.blob,
+					config: {
+						mimeType,
+						abortSignal: ctx.signal,
+					},
+				}),
+			);
+
+			if (!uploadedFile?.name || !uploadedFile?.uri) {
+				throw new Error('Gemini File API upload failed: no file URI returned');
+			}
+
+			uploadedFile = await this.waitForFileReady(genAI, uploadedFile, ctx);
+			const fileUri = uploadedFile.uri;
+			if (!fileUri) {
+				throw new Error('Gemini File API upload failed: no file URI returned');
+			}
+
+			ctx.reportStage('transcribe');
+			const template = renderTranscriptionPrompt(
+				ctx.promptTemplate.prompt || DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES[0].prompt,
+				ctx.context,
+				ctx.languages,
+			);
+			let enhancedPrompt = template.text + GEMINI_TIMESTAMP_INSTRUCTION;
+			if (!ctx.languages.length) {
+				enhancedPrompt += GEMINI_LANGUAGE_DETECTION_INSTRUCTION;
+			} else if (!template.usedLanguage) {
+				enhancedPrompt += `\n\n**Expected languages:** The audio is in ${describeLanguages(ctx.languages)}. Transcribe in the language actually spoken; do not translate into these languages.`;
+			}
+			const glossaryBlock = buildGlossaryBlock(ctx.glossary);
+			if (glossaryBlock) {
+				enhancedPrompt += `\n\n${glossaryBlock}`;
+			}
+			const contextBlock = template.usedContext ? '' : buildTranscriptionContextBlock(ctx.context);
+			if (contextBlock) {
+				enhancedPrompt += `\n\n${contextBlock}`;
+			}
+
+			const response = await ctx.retry(`Gemini chunk ${ctx.chunkIndex}`, () =>
+				genAI.models.generateContent({
+					model: ctx.settings.model,
+					contents: [
+						{
+							role: 'user',
+							parts: [{ text: enhancedPrompt }, { fileData: { fileUri, mimeType } }],
+						},
+					],
+					config: {
+						temperature: ctx.settings.temperature,
+						maxOutputTokens: 65536,
+						abortSignal: ctx.signal,
+					},
+				}),
+			);
+
+			let text = response.text;
+			if (typeof text !== 'string') {
+				const blockReason = getGeminiBlockReason(response);
+				if (blockReason) {
+					throw new ApiRequestError('contentBlocked', `Gemini blocked the transcription (${blockReason})`);
+				}
+				throw new Error('Gemini transcription error: No text content in response');
+			}
+			const languageMatch = text.match(LANGUAGE_LINE);
+			const detected = languageMatch ? parseLanguageList(languageMatch[1])[0] : undefined;
+			if (languageMatch) {
+				text = text.substring(languageMatch[0].length);
+			}
+			const parsed = parseParagraphSegments(text, ctx.durationSeconds);
+			const segments = detected ? parsed.map(segment => ({ ...segment, language: detected })) : parsed;
+
+			const label = `Gemini chunk ${ctx.chunkIndex}`;
+			if (response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS) {
+				throw new IncompleteTranscriptError('maxTokens', segments, `${label} stopped at the output token limit`);
+			}
+			const blockReason = getGeminiBlockReason(response);
+			if (blockReason) {
+				throw new IncompleteTranscriptError('blocked', segments, `${label} was cut off (${blockReason})`);
+			}
+			// Without detected speech, the (already trimmed) chunk length stands in for it.
+			const speechSeconds =
+				chunk.speechSeconds ?? (chunk.endSeconds !== undefined ? chunk.endSeconds - chunk.startSeconds : undefined);
+			if (speechSeconds !== undefined && isSparseTranscript(segments, speechSeconds)) {
+				throw new IncompleteTranscriptError(
+					'sparse',
+					segments,
+					`${label} has too little text for ${Math.round(speechSeconds)} s of ${chunk.speechSeconds !== undefined ? 'speech' : 'audio'}`,
+				);
+			}
+			return segments;
+		} finally {
+			if (uploadedFile?.name) {
+				try {
+					await genAI.files.delete({
+						name: uploadedFile.name,
+						config: { abortSignal: ctx.signal },
+					});
+				} catch (error) {
+					if (!ctx.signal?.aborted) {
+						console.warn('[AI Transcriber] Failed to delete uploaded Gemini file:', error);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Walk the chunks in order and relabel each chunk's speakers onto the roster built
+	 * so far, asking Gemini to match them from the text on both sides of the boundary.
+	 * A chunk whose request fails keeps its own labels.
+	 */
+	async reconcileChunks(chunkSegments: TranscriptSegment[][], ctx: ReconcileContext): Promise<TranscriptSegment[][]> {
+		if (ctx.providerOptions.reconcileSpeakers === false) {
+			return chunkSegments;
+		}
+
+		const { GoogleGenAI } = await this.getGenAIModule();
+		const genAI = new GoogleGenAI({ apiKey: ctx.settings.apiKey });
+		const reconciled: TranscriptSegment[][] = [chunkSegments[0]];
+		const roster = new Set(this.getSpeakers(chunkSegments[0]));
+
+		for (let index = 1; index < chunkSegments.length; index++) {
+			const segments = chunkSegments[index];
+			const localSpeakers = this.getSpeakers(segments);
+			if (!localSpeakers.length || !roster.size) {
+				reconciled.push(segments);
+				localSpeakers.forEach(speaker => roster.add(speaker));
+				continue;
+			}
+
+			let mapping: Record<string, string> | null = null;
+			try {
+				mapping = await ctx.retry(`Gemini speaker reconciliation ${index + 1}/${chunkSegments.length}`, () =>
+					this.requestSpeakerMapping(genAI, ([] as TranscriptSegment[]).concat(...reconciled), segments, roster, ctx),
+				);
+			} catch (error) {
+				if (ctx.signal?.aborted) throw error;
+				console.warn('[AI Transcriber] Speaker reconciliation failed; keeping chunk labels.', { chunk: index + 1, error });
+			}
+
+			const relabel = this.resolveSpeakerMapping(localSpeakers, mapping, roster);
+			console.info('[AI Transcriber] Speakers reconciled.', { chunk: index + 1, mapping: relabel });
+			reconciled.push(
+				segments.map(segment =>
+					segment.speaker ? { ...segment, speaker: relabel[segment.speaker] ?? segment.speaker } : segment,
+				),
+			);
+		}
+
+		return reconciled;
+	}
+
+	private getSpeakers(segments: TranscriptSegment[]): string[] {
+		const speakers: string[] = [];
+		for (const segment of segments) {
+			if (segment.speaker && speakers.indexOf(segment.speaker) === -1) {
+				speakers.push(segment.speaker);
+			}
+		}
+		return speakers;
+	}
+
+	private async requestSpeakerMapping(
+		genAI: GenAIClient,
+		previous: TranscriptSegment[],
+		next: TranscriptSegment[],
+		roster: Set<string>,
+		ctx: ReconcileContext,
+	): Promise<Record<string, string>> {
+		const render = (segments: TranscriptSegment[]) =>
+			segments.map(segment => (segment.speaker ? `**${segment.speaker}:** ${segment.text}` : segment.text)).join('\n\n');
+		const previousText = render(previous);
+		const nextText = render(next);
+		const samples = Array.from(roster).map(speaker => {
+			const lines = previous.filter(segment => segment.speaker === speaker);
+			const sample = lines.length ? lines[lines.length - 1].text.substring(0, SPEAKER_SAMPLE_CHARS) : '';
+			return `- ${speaker}: "${sample}"`;
+		});
+		const localSpeakers = this.getSpeakers(next);
+
+		let prompt =
+			'You are aligning speaker labels between two consecutive parts of one recording that were transcribed separately. ' +
+			'Labels in the NEXT part were assigned independently, so "Speaker 1" there may be a different person than "Speaker 1" in the PREVIOUS part.\n\n' +
+			`Known speakers (final labels) with a recent line from each:\n${samples.join('\n')}\n\n` +
+			`PREVIOUS part (end, final labels):\n${previousText.slice(-SPEAKER_EXCERPT_CHARS)}\n\n` +
+			`NEXT part (beginning, local labels):\n${nextText.substring(0, SPEAKER_EXCERPT_CHARS)}\n\n` +
+			`For every local label in the NEXT part (${localSpeakers.join(', ')}), decide which known speaker it is, ` +
+			'using the conversation flow across the boundary, names and roles mentioned, and speaking style. ' +
+			'Reply with only a JSON object mapping each local label to a known speaker label, or to "new" for someone not in the known list, ' +
+			'e.g. {"Speaker 1": "Speaker 2", "Speaker 2": "new"}.';
+		const contextBlock = buildTranscriptionContextBlock(ctx.context);
+		if (contextBlock) {
+			prompt += `\n\n${contextBlock}`;
+		}
+
+		const response = await genAI.models.generateContent({
+			model: ctx.settings.model,
+			contents: [{ role: 'user', parts: [{ text: prompt }] }],
+			config: {
+				temperature: 0,
+				responseMimeType: 'application/json',
+				abortSignal: ctx.signal,
+			},
+		});
+
+		const text = (response.text ?? '').trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+		const parsed: unknown = JSON.parse(text);
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			throw new Error('Gemini speaker reconciliation returned an unexpected response');
+		}
+		const mapping: Record<string, string> = {};
+		for (const [local, target] of Object.entries(parsed as Record<string, unknown>)) {
+			if (typeof target === 'string') {
+				mapping[local] = target.trim();
+			}
+		}
+		return mapping;
+	}
+
+	/**
+	 * Turn Gemini's answer into a relabelling for one chunk and extend the roster.
+	 * Without an answer labels are kept; "new" or unknown targets get the next free
+	 * "Speaker N" (real names are kept when they do not clash).
+	 */
+	private resolveSpeakerMapping(
+		localSpeakers: string[],
+		mapping: Record<string, string> | null,
+		roster: Set<string>,
+	): Record<string, string> {
+		const relabel: Record<string, string> = {};
+		if (!mapping) {
+			localSpeakers.forEach(speaker => {
+				relabel[speaker] = speaker;
+				roster.add(speaker);
+			});
+			return relabel;
+		}
+
+		const known = new Set(roster);
+		const nextGenericNumber = () => {
+			let max = 0;
+			roster.forEach(speaker => {
+				const match = speaker.match(GENERIC_SPEAKER_LABEL);
+				if (match) max = Math.max(max, Number(match[1]));
+			});
+			return max + 1;
+		};
+
+		for (const speaker of localSpeakers) {
+			const target = mapping[speaker];
+			if (target && known.has(target)) {
+				relabel[speaker] = target;
+				continue;
+			}
+			const label =
+				!GENERIC_SPEAKER_LABEL.test(speaker) && !roster.has(speaker) ? speaker : `Speaker ${nextGenericNumber()}`;
+			relabel[speaker] = label;
+			roster.add(label);
+		}
+		return relabel;
+	}
+
+	private async getGenAIModule(): Promise<typeof import('@google/genai')> {
+		if (!this.genaiModule) {
+			this.genaiModule = await import('@google/genai');
+		}
+		return this.genaiModule;
+	}
+
+	private async waitForFileReady(
+		genAI: { files: { get: (params: { name: string; config?: { abortSignal?: AbortSignal } }) => Promise<GeminiFile> } },
+		initialFile: GeminiFile,
+		ctx: ChunkTranscriptionContext,
+	): Promise<GeminiFile> {
+		let file = initialFile;
+		const startedAt = Date.now();
+
+		while (file.state === 'PROCESSING' && file.name) {
+			if (Date.now() - startedAt > GEMINI_FILE_PROCESSING_TIMEOUT_MS) {
+				throw new Error(`Gemini file processing timeout for chunk ${ctx.chunkIndex}/${ctx.totalChunks ?? '?'}`);
+			}
+
+			ctx.reportStage('processing');
+			await ctx.sleep(1000);
+			file = await genAI.files.get({
+				name: file.name,
+				config: { abortSignal: ctx.signal },
+			});
+		}
+
+		if (file.state === 'FAILED') {
+			throw new Error(`Gemini file processing failed for chunk ${ctx.chunkIndex}/${ctx.totalChunks ?? '?'}`);
+		}
+
+		return file;
+	}
+}
@@ -0,0 +1,202 @@
+import OpenAI from 'openai';
+import { ProviderOptions, TranscriberSettings } from '../../settings/types';
+import { TranscriptSegment } from '../transcript';
+import {
+	AudioChunk,
+	ChunkingRequirements,
+	ChunkTranscriptionContext,
+	ProviderSettingField,
+	TranscriptionProvider,
+} from './types';
+import { buildTranscriptionContextBlock, renderTranscriptionPrompt } from './context';
+import { describeLanguages, normalizeLanguage } from '../language';
+import { appendGlossaryToPrompt } from '../glossary';
+
+/** OpenAI rejects audio files over 25 MB; stay a little below to be safe. */
+const OPENAI_MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+
+/**
+ * OpenAI `/audio/transcriptions`. Whisper models return segment timestamps and the
+ * detected language via verbose_json; gpt-4o transcribe models only support json/text,
+ * so those chunks become a single segment spanning the chunk.
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+	readonly id: string = 'openai';
+	readonly displayName: string = 'OpenAI';
+	readonly requiresApiKey: boolean = true;
+	readonly modelPlaceholder: string = 'gpt-4o-transcribe';
+	readonly settingsSchema: ProviderSettingField[] = [];
+
+	private clients = new Map<string, OpenAI>();
+
+	getChunking(): ChunkingRequirements {
+		return { maxChunkSeconds: 600, maxChunkBytes: OPENAI_MAX_UPLOAD_BYTES, trimLongSilence: true, concurrency: 3 };
+	}
+
+	validate(settings: TranscriberSettings, providerOptions: ProviderOptions): string | null {
+		return settings.apiKey ? null : 'Transcriber API key is not configured';
+	}
+
+	async transcribeChunk(chunk: AudioChunk, ctx: ChunkTranscriptionContext): Promise<TranscriptSegment[]> {
+		const client = this.getClient(ctx.settings, ctx.providerOptions);
+		const chunkEnd = ctx.durationSeconds ?? 0;
+		const template = renderTranscriptionPrompt(ctx.promptTemplate.hint, ctx.context, ctx.languages);
+		let prompt = template.text;
+		const contextBlock = template.usedContext ? '' : buildTranscriptionContextBlock(ctx.context);
+		if (contextBlock) {
+			prompt = prompt ? `${prompt}\n\n${contextBlock}` : contextBlock;
+		}
+		// The `language` parameter takes a single code; several expected languages can only be hinted at.
+		const language = ctx.languages.length === 1 ? ctx.languages[0] : undefined;
+		if (ctx.languages.length > 1 && !template.usedLanguage) {
+			const hint = `The audio may contain ${describeLanguages(ctx.languages)}.`;
+			prompt = prompt ? `${hint}\n\n${prompt}` : hint;
+		}
+		prompt = appendGlossaryToPrompt(prompt, ctx.glossary);
+
+		const type = chunk.blob.type || 'audio/wav';
+		const file = new File([chunk.blob], type === 'audio/flac' ? 'audio.flac' : 'audio.wav', { type });
+		if (this.supportsVerboseTimestamps(ctx.settings.model)) {
+			const response = await ctx.retry(`${this.displayName} chunk ${ctx.chunkIndex}`, () =>
+				client.audio.transcriptions.create(
+					{
+						file,
+						model: ctx.settings.model,
+						response_format: 'verbose_json',
+						timestamp_granularities: ['segment'],
+						...(language ? { language } : {}),
+						...(prompt ? { prompt } : {}),
+					},
+					{
+						signal: ctx.signal,
+					},
+				),
+			);
+			if (typeof response === 'string') {
+				return [{ start: 0, end: chunkEnd, text: response }];
+			}
+			const detected = response.language ? normalizeLanguage(response.language) ?? undefined : undefined;
+			if (response.segments && response.segments.length) {
+				return response.segments.map<TranscriptSegment>(segment => ({
+					start: segment.start,
+					end: segment.end,
+					text: segment.text,
+					language: detected,
+				}));
+			}
+			return [{ start: 0, end: response.duration ?? chunkEnd, text: response.text, language: detected }];
+		}
+
+		const text = await ctx.retry(`${this.displayName} chunk ${ctx.chunkIndex}`, () =>
+			client.audio.transcriptions.create(
+				{
+					file,
+					model: ctx.settings.model,
+					response_format: 'text',
+					...(language ? { language } : {}),
+					...(prompt ? { prompt } : {}),
+				},
+				{
+					signal: ctx.signal,
+				},
+			),
+		);
+		return [{ start: 0, end: chunkEnd, text }];
+	}
+
+	protected supportsVerboseTimestamps(model: string): boolean {
+		return /^whisper/i.test(model.trim());
+	}
+
+	protected getClient(settings: TranscriberSettings, providerOptions: ProviderOptions): OpenAI {
+		return this.getCachedClient(settings.apiKey);
+	}
+
+	protected getCachedClient(
+		apiKey: string,
+		baseURL?: string,
+		defaultHeaders?: Record<string, string | null>,
+	): OpenAI {
+		const cacheKey = baseURL ? JSON.stringify([apiKey, baseURL, defaultHeaders ?? {}]) : apiKey;
+		const cached = this.clients.get(cacheKey);
+		if (cached) return cached;
+		const client = new OpenAI({
+			apiKey,
+			dangerouslyAllowBrowser: true,
+			// Retries are driven by TranscriberService's per-error-class policy.
+			maxRetries: 0,
+			...(baseURL ? { baseURL } : {}),
+			...(defaultHeaders ? { defaultHeaders } : {}),
+		});
+		this.clients.set(cacheKey, client);
+		return client;
+	}
+}
+
+/**
+ * Any self-hosted server exposing an OpenAI-compatible `/audio/transcriptions`
+ * (faster-whisper-server, whisper.cpp server, ...). These are expected to support verbose_json.
+ */
+export class OpenAICompatibleTranscriptionProvider extends OpenAITranscriptionProvider {
+	readonly id: string = 'openai-compatible';
+	readonly displayName: string = 'OpenAI-compatible (self-hosted)';
+	readonly requiresApiKey: boolean = false;
+	readonly modelPlaceholder: string = 'Systran/faster-whisper-large-v3';
+	readonly settingsSchema: ProviderSettingField[] = [
+		{
+			key: 'baseUrl',
+			name: 'Endpoint Base URL',
+			desc: 'Base URL of the OpenAI-compatible API, including the version prefix. Audio is sent to <base URL>/audio/transcriptions.',
+			type: 'text',
+			placeholder: 'http://localhost:8000/v1',
+			default: '',
+		},
+		{
+			key: 'authHeader',
+			name: 'Auth Header',
+			desc: 'Optional. Either a full header ("Authorization: Bearer <token>", "X-API-Key: <key>") or a bare token sent as Bearer.',
+			type: 'password',
+			placeholder: 'Authorization: Bearer <token>',
+			default: '',
+		},
+	];
+
+	validate(settings: TranscriberSettings, providerOptions: ProviderOptions): string | null {
+		return String(providerOptions.baseUrl ?? '').trim()
+			? null
+			: 'OpenAI-compatible endpoint base URL is not configured';
+	}
+
+	protected supportsVerboseTimestamps(): boolean {
+		return true;
+	}
+
+	protected getClient(settings: TranscriberSettings, providerOptions: ProviderOptions): OpenAI {
+		return this.getCachedClient(
+			settings.apiKey || 'not-required',
+			String(providerOptions.baseUrl ?? '').trim().replace(/\/+$/, ''),
+			this.parseAuthHeader(String(providerOptions.authHeader ?? '')),
+		);
+	}
+
+	/**
+	 * Turn the auth setting into request headers.
+	 * "Name: value" is sent verbatim, a bare value becomes a Bearer token,
+	 * and an empty setting suppresses the SDK's Authorization header entirely.
+	 */
+	private parseAuthHeader(raw: string): Record<string, string | null> {
+		const value = raw.trim();
+		if (!value) {
+			return { Authorization: null };
+		}
+		const separator = value.indexOf(':');
+		if (separator > 0 && /^[A-Za-z0-9-]+$/.test(value.substring(0, separator).trim())) {
+			const name = value.substring(0, separator).trim();
+			const headerValue = value.substring(separator + 1).trim();
+			return name.toLowerCase() === 'authorization'
+				? { Authorization: headerValue }
+				: { Authorization: null, [name]: headerValue };
+		}
+		return { Authorization: `Bearer ${value}` };
+	}
+}
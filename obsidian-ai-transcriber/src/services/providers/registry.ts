@@ -0,0 +1,52 @@
+import { ProviderOptions, TranscriberSettings } from '../../settings/types';
+import { TranscriptionProvider } from './types';
+import { OpenAICompatibleTranscriptionProvider, OpenAITranscriptionProvider } from './openai';
+import { GeminiTranscriptionProvider } from './gemini';
+
+/**
+ * Lookup table of transcription backends. New providers only need to implement
+ * `TranscriptionProvider` and be registered here.
+ */
+export class TranscriptionProviderRegistry {
+	private providers = new Map<string, TranscriptionProvider>();
+
+	register(provider: TranscriptionProvider): void {
+		if (this.providers.has(provider.id)) {
+			throw new Error(`Transcription provider already registered: ${provider.id}`);
+		}
+		this.providers.set(provider.id, provider);
+	}
+
+	get(id: string): TranscriptionProvider | undefined {
+		return this.providers.get(id);
+	}
+
+	require(id: string): TranscriptionProvider {
+		const provider = this.providers.get(id);
+		if (!provider) {
+			throw new Error(`Unsupported transcription provider: ${id}`);
+		}
+		return provider;
+	}
+
+	list(): TranscriptionProvider[] {
+		return Array.from(this.providers.values());
+	}
+
+	/**
+	 * Stored provider options with schema defaults filled in.
+	 */
+	getOptions(provider: TranscriptionProvider, settings: TranscriberSettings): ProviderOptions {
+		const stored = settings.providerOptions?.[provider.id] ?? {};
+		const resolved: ProviderOptions = {};
+		for (const field of provider.settingsSchema) {
+			resolved[field.key] = stored[field.key] ?? field.default;
+		}
+		return { ...stored, ...resolved };
+	}
+}
+
+export const transcriptionProviders = new TranscriptionProviderRegistry();
+transcriptionProviders.register(new OpenAITranscriptionProvider());
+transcriptionProviders.register(new GeminiTranscriptionProvider());
+transcriptionProviders.register(new OpenAICompatibleTranscriptionProvider());
@@ -0,0 +1,118 @@
+import { GlossaryEntry, ProviderOptions, TranscriberSettings, TranscriptionPromptTemplate } from '../../settings/types';
+import { TranscriptSegment } from '../transcript';
+
+export type TranscriptionStage = 'preprocess' | 'upload' | 'processing' | 'transcribe' | 'reconcile' | 'done';
+
+/**
+ * A preprocessed slice of audio, positioned on the preprocessed timeline.
+ * `endSeconds` is unknown when the original file is uploaded without preprocessing.
+ */
+export interface AudioChunk {
+	blob: Blob;
+	startSeconds: number;
+	endSeconds?: number;
+	/** Seconds of the chunk detected as speech, when voice activity detection ran and found any. */
+	speechSeconds?: number;
+}
+
+/**
+ * How a provider wants its audio prepared before `transcribeChunk` is called.
+ */
+export interface ChunkingRequirements {
+	/** Upper bound for each 16 kHz chunk. */
+	maxChunkSeconds: number;
+	/** Upper bound for each encoded chunk; chunks whose audio encodes larger are cut shorter. */
+	maxChunkBytes?: number;
+	/** Drop long silences before chunking (timestamps are mapped back afterwards). */
+	trimLongSilence: boolean;
+	/** Number of chunks transcribed in parallel. */
+	concurrency: number;
+}
+
+export type ProviderSettingFieldType = 'text' | 'password' | 'textarea' | 'toggle';
+
+/**
+ * One provider-specific setting, rendered by the settings tab and stored under
+ * `TranscriberSettings.providerOptions[provider.id][key]`.
+ */
+export interface ProviderSettingField {
+	key: string;
+	name: string;
+	desc: string;
+	type: ProviderSettingFieldType;
+	placeholder?: string;
+	default: string | boolean;
+}
+
+export interface ChunkTranscriptionContext {
+	settings: TranscriberSettings;
+	/** Provider-specific options with schema defaults applied. */
+	providerOptions: ProviderOptions;
+	context?: string;
+	/** Declared spoken languages (ISO 639-1); empty means the provider should detect them. */
+	languages: string[];
+	/** Terms and spellings to steer recognition towards. */
+	glossary: GlossaryEntry[];
+	/** Prompt template chosen for the job; render it with `renderTranscriptionPrompt`. */
+	promptTemplate: TranscriptionPromptTemplate;
+	chunkIndex: number;
+	/** Unknown while the rest of the recording is still being chunked. */
+	totalChunks?: number;
+	/** Chunk length in seconds, when known. */
+	durationSeconds?: number;
+	signal?: AbortSignal;
+	sleep: (ms: number) => Promise<void>;
+	/** Run one request with the service's retry/backoff policy. */
+	retry: <T>(label: string, operation: () => Promise<T>) => Promise<T>;
+	reportStage: (stage: Extract<TranscriptionStage, 'upload' | 'processing' | 'transcribe'>) => void;
+}
+
+/**
+ * Passed to `TranscriptionProvider.reconcileChunks` once every chunk is transcribed.
+ */
+export interface ReconcileContext {
+	settings: TranscriberSettings;
+	providerOptions: ProviderOptions;
+	context?: string;
+	signal?: AbortSignal;
+	sleep: (ms: number) => Promise<void>;
+	/** Run one request with the service's retry/backoff policy. */
+	retry: <T>(label: string, operation: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * A transcription backend. The service handles decoding, chunking, retry policy,
+ * concurrency, progress and stitching; a provider only transcribes one chunk,
+ * wrapping each of its requests in `ctx.retry`.
+ */
+export interface TranscriptionProvider {
+	readonly id: string;
+	readonly displayName: string;
+	/** Whether the shared "API Key" setting applies to this provider. */
+	readonly requiresApiKey: boolean;
+	readonly modelPlaceholder: string;
+	readonly settingsSchema: ProviderSettingField[];
+
+	/**
+	 * Return the chunking this provider needs, or null to send the original blob as a single chunk.
+	 */
+	getChunking(blob: Blob, settings: TranscriberSettings, providerOptions: ProviderOptions): ChunkingRequirements | null;
+
+	/**
+	 * Return an error message when the settings cannot be used, or null when they are valid.
+	 */
+	validate(settings: TranscriberSettings, providerOptions: ProviderOptions): string | null;
+
+	/**
+	 * Transcribe one chunk. Segment times are relative to the start of the chunk.
+	 * Throw an `IncompleteTranscriptError` when the transcript was cut short or looks too
+	 * sparse for the audio; the service then transcribes the chunk again in shorter pieces.
+	 */
+	transcribeChunk(chunk: AudioChunk, ctx: ChunkTranscriptionContext): Promise<TranscriptSegment[]>;
+
+	/**
+	 * Optional pass over all chunk results (chunk-local times) before stitching,
+	 * e.g. to make speaker labels consistent across independently transcribed chunks.
+	 */
+	reconcileChunks?(chunkSegments: TranscriptSegment[][], ctx: ReconcileContext): Promise<TranscriptSegment[][]>;
+}
@@ -1,93 +1,918 @@
-import OpenAI from 'openai';
-import { TranscriberSettings } from '../settings/types';
+import {
+	DEFAULT_PREPROCESSING_PROFILES,
+	DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES,
+	GlossaryEntry,
+	PreprocessingProfile,
+	ProviderOptions,
+	TranscriberSettings,
+	TranscriptionPromptTemplate,
+} from '../settings/types';
+import {
+	ChunkSegments,
+	SessionBoundary,
+	TranscriptGap,
+	TranscriptLanguage,
+	TranscriptSegment,
+	TranscriptionResult,
+	mergeChannelSegments,
+	mergeOverlappingChunks,
+	renderTranscript,
+	shiftSegments,
+} from './transcript';
+import {
+	AudioChunk,
+	ChunkTranscriptionContext,
+	ChunkingRequirements,
+	TranscriptionProvider,
+	TranscriptionStage,
+} from './providers/types';
+import { transcriptionProviders } from './providers/registry';
+import { DEFAULT_VAD_OPTIONS, detectSpeechRegions, findNonSpeechSplitPoint } from './vad';
+import { DynamicsOptions, createDynamicsProcessor } from './dynamics';
+import { createAudioFilter, createSpectralGate } from './filters';
+import { encodeFlac } from './flac';
+import { AudioLevels, ChunkerOptions, ChunkerResult, EncodedChunk, createAudioChunker } from './chunker';
+import { decodeAudioInWindows } from './decoder';
+import { summarizeDetectedLanguages } from './language';
+import { applyGlossaryCorrections } from './glossary';
+import { IncompleteTranscriptError, runWithRetryPolicy } from './errors';
+import { AudioUsage } from './usage';
 
 const TARGET_SAMPLE_RATE = 16000;
-const SILENCE_THRESHOLD = 0.01;
-const SILENCE_WINDOW_SECONDS = 0.3;
-const SEARCH_RANGE_SECONDS = 5;
-const MIN_CHUNK_SECONDS = 1;
-const DEFAULT_TRANSCRIBE_CONCURRENCY = 3;
-const GEMINI_FILE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
-const DIRECT_GEMINI_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
-
-type TranscriptionStage = 'preprocess' | 'upload' | 'processing' | 'transcribe' | 'done';
+const MAX_CHUNK_OVERLAP_SECONDS = 30;
+/**
+ * Chunking for a multi-file session or a per-channel transcription when the provider would
+ * take a single file whole: the recordings still have to be joined on one timeline, and
+ * channels separated, which only preprocessing does.
+ */
+const SESSION_CHUNKING: ChunkingRequirements = { maxChunkSeconds: 15 * 60, trimLongSilence: false, concurrency: 2 };
+/** An incomplete chunk is transcribed again in this many pieces, each at most MAX_RESPLIT_PIECE_SECONDS long. */
+const RESPLIT_PIECES = 3;
+const MAX_RESPLIT_PIECE_SECONDS = 5 * 60;
+/** Pieces are not cut shorter than this; a shorter incomplete chunk keeps its partial transcript. */
+const MIN_RESPLIT_PIECE_SECONDS = 30;
+/** How many times a piece that is still incomplete is split again. */
+const MAX_RESPLIT_DEPTH = 2;
 
 export interface TranscriptionProgress {
-	provider: 'openai' | 'gemini';
+	provider: string;
 	stage: TranscriptionStage;
 	currentChunk?: number;
+	/** Unknown until the whole recording has been chunked. */
 	totalChunks?: number;
 	completedChunks?: number;
+	/** Reported once preprocessing has measured the recording. */
+	levels?: AudioLevels;
+	/** Speaker of the channel being transcribed, when channels are transcribed separately. */
+	channel?: string;
+}
+
+/**
+ * Persists finished chunks so an interrupted transcription can skip them next time.
+ */
+export interface ChunkCheckpoint {
+	/**
+	 * Return the segments already transcribed for this chunk, or null when it has to be
+	 * transcribed. Called in chunk order as chunks are cut.
+	 */
+	restore(chunkIndex: number, chunk: AudioChunk): Promise<TranscriptSegment[] | null>;
+	/** Record a chunk as soon as it has been transcribed. */
+	save(chunkIndex: number, segments: TranscriptSegment[]): Promise<void>;
+}
+
+/**
+ * One file of a multi-file session.
+ */
+export interface SessionRecording {
+	blob: Blob;
+	/** File name, shown in the boundary marker. */
+	name: string;
 }
 
 export interface TranscribeOptions {
 	context?: string;
 	signal?: AbortSignal;
 	onProgress?: (progress: TranscriptionProgress) => void;
+	checkpoint?: ChunkCheckpoint;
+	/** Name of the preprocessing profile for this job; defaults to the active profile. */
+	preprocessingProfile?: string;
+	/** Name of the transcription prompt template for this job; defaults to the active template. */
+	promptTemplate?: string;
+	/** Expected languages for this job; defaults to `settings.languages`. Empty means detect. */
+	languages?: string[];
+	/** Terms passed to the provider prompts. */
+	glossary?: GlossaryEntry[];
+	/** Replace the glossary's known mis-hearings in the stitched transcript. */
+	applyGlossaryCorrections?: boolean;
+	/**
+	 * Called for every transcript a provider returns for a chunk or a piece of one, including
+	 * incomplete ones and those of a provider that is later fallen back from; chunks restored
+	 * from a checkpoint are not reported.
+	 */
+	onUsage?: (usage: AudioUsage) => void;
+	/**
+	 * Speaker name per channel to transcribe the channels of a stereo recording separately,
+	 * or null to mix them down; defaults to the transcriber settings.
+	 */
+	channelSpeakers?: string[] | null;
+}
+
+/**
+ * Look up a preprocessing profile by name, falling back to the active profile and then the built-in default.
+ */
+export function resolvePreprocessingProfile(settings: TranscriberSettings, name?: string): PreprocessingProfile {
+	const profiles = settings.preprocessingProfiles ?? [];
+	return (
+		profiles.find(profile => profile.name === name) ??
+		profiles.find(profile => profile.name === settings.activePreprocessingProfileName) ??
+		profiles[0] ??
+		DEFAULT_PREPROCESSING_PROFILES[0]
+	);
+}
+
+/**
+ * Speaker names for per-channel transcription, or null when the channels are mixed down.
+ * Fewer than two names cannot separate anything and also mean mixing.
+ */
+export function resolveChannelSpeakers(settings: TranscriberSettings, override?: string[] | null): string[] | null {
+	const speakers = override !== undefined ? override : settings.splitChannels ? settings.channelSpeakers : null;
+	return speakers && speakers.length > 1 ? speakers : null;
 }
 
-interface WorkerPreprocessOptions {
-	trimLongSilence: boolean;
-	minSilenceTrimSamples: number;
-	maxDurationSeconds: number;
-	targetSampleRate: number;
-	silenceThreshold: number;
-	silenceWindowSeconds: number;
-	searchRangeSeconds: number;
-	minChunkSeconds: number;
+/**
+ * Look up a transcription prompt template by name, falling back to the active template and then the built-in default.
+ */
+export function resolveTranscriptionPromptTemplate(settings: TranscriberSettings, name?: string): TranscriptionPromptTemplate {
+	const templates = settings.promptTemplates ?? [];
+	return (
+		templates.find(template => template.name === name) ??
+		templates.find(template => template.name === settings.activePromptTemplateName) ??
+		templates[0] ??
+		DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES[0]
+	);
+}
+
+interface PreprocessResult {
+	chunks: AudioChunk[];
+	/**
+	 * Flattened [processedSample, sourceSample, ...] breakpoints recorded where
+	 * silence trimming removed audio. Empty when nothing was trimmed.
+	 */
+	timeMap: number[];
+	sampleRate: number;
+	levels?: AudioLevels;
+	/** Seconds detected as speech, when voice activity detection ran. */
+	speechSeconds?: number;
+	/** Where each recording starts on the source timeline, in seconds. */
+	recordingStarts: number[];
+	/** Most channels any recording has; 1 when the audio was not decoded here. */
+	channelCount: number;
+}
+
+/**
+ * A transcription provider with the settings to call it with: the configured one, or a
+ * fallback with its provider, model and API key swapped in.
+ */
+interface ProviderChainEntry {
+	provider: TranscriptionProvider;
+	settings: TranscriberSettings;
+	providerOptions: ProviderOptions;
+}
+
+/**
+ * Everything one transcription pass over the recordings needs.
+ */
+interface TranscriptionPass {
+	recordings: SessionRecording[];
+	/** The recordings as one blob, for providers that take the audio whole. */
+	blob: Blob;
+	/** The configured provider first, then the usable fallbacks. */
+	chain: ProviderChainEntry[];
+	settings: TranscriberSettings;
+	options: TranscribeOptions;
+	chunking: ChunkingRequirements | null;
+	profile: PreprocessingProfile;
+	languages: string[];
+	glossary: GlossaryEntry[];
+	promptTemplate: TranscriptionPromptTemplate;
+}
+
+/**
+ * One channel of a per-channel transcription.
+ */
+interface ChannelPass {
+	index: number;
+	speaker: string;
+	/** Checkpoint index of the channel's first chunk. */
+	chunkOffset: number;
+}
+
+interface PassResult {
+	segments: TranscriptSegment[];
+	/** On the source timeline. */
+	gaps: TranscriptGap[];
+	chunkCount: number;
+	recordingStarts: number[];
+	channelCount: number;
+}
+
+/**
+ * One chunk on its way through the provider chain.
+ */
+interface ChunkRequest {
+	chunk: AudioChunk;
+	chunkIndex: number;
+	signal?: AbortSignal;
+	/** Context for transcribing the chunk, or a piece of it, with one provider. */
+	createContext: (entry: ProviderChainEntry, chunk: AudioChunk) => ChunkTranscriptionContext;
+	/** Cut the chunk, or a piece of it, into shorter pieces; null when it is too short. */
+	resplit: (chunk: AudioChunk) => Promise<AudioChunk[] | null>;
+	/** Cut the chunk into pieces a fallback provider takes. */
+	fit: (chunk: AudioChunk, chunking: ChunkingRequirements) => Promise<AudioChunk[]>;
+	/** Record the audio of one transcript returned by a provider in the chain. */
+	reportUsage: (entry: ProviderChainEntry, audioSeconds: number) => void;
+}
+
+/**
+ * A chunk transcribed as completely as the provider managed. Times are chunk-local.
+ */
+interface ChunkOutcome {
+	segments: TranscriptSegment[];
+	gaps: TranscriptGap[];
 }
 
 interface RetryOptions {
 	label: string;
 	signal?: AbortSignal;
-	maxRetries?: number;
+}
+
+/**
+ * One recording's pass through the chunker, in the inline worker or on the main thread.
+ */
+interface ChunkingSession {
+	push(samples: Float32Array, sampleRate: number): Promise<{ chunks: EncodedChunk[]; levels: AudioLevels }>;
+	finish(): Promise<ChunkerResult>;
+	/** Release the session; a request still in flight is rejected. */
+	close(): void;
+}
+
+type WorkerReply =
+	| { type: 'ready' }
+	| { type: 'chunks'; chunks: EncodedChunk[]; levels: AudioLevels }
+	| { type: 'result'; result: ChunkerResult }
+	| { type: 'error'; error?: string };
+
+/**
+ * Hands chunks from preprocessing to the transcription runners as they are cut.
+ * `push` waits while `capacity` chunks are queued so decoding cannot run far ahead of the uploads.
+ */
+class ChunkQueue<T> {
+	private items: T[] = [];
+	private pushed = 0;
+	private taken = 0;
+	private closed = false;
+	private failure: unknown = null;
+	private waiters: Array<() => void> = [];
+	private capacity: number;
+
+	constructor(capacity: number) {
+		this.capacity = Math.max(1, capacity);
+	}
+
+	/** Number of chunks, once preprocessing has finished. */
+	get total(): number | undefined {
+		return this.closed ? this.pushed : undefined;
+	}
+
+	async push(item: T): Promise<void> {
+		while (this.items.length >= this.capacity && this.failure === null) {
+			await this.wait();
+		}
+		if (this.failure !== null) throw this.failure;
+		this.items.push(item);
+		this.pushed++;
+		this.notify();
+	}
+
+	close(): void {
+		this.closed = true;
+		this.notify();
+	}
+
+	/** Stop the queue; both sides see `error` from then on. */
+	fail(error: unknown): void {
+		if (this.failure === null) {
+			this.failure = error;
+		}
+		this.notify();
+	}
+
+	/**
+	 * The next chunk with its index, or null once the queue is closed and drained.
+	 */
+	async next(): Promise<{ item: T; index: number } | null> {
+		for (;;) {
+			if (this.failure !== null) throw this.failure;
+			const item = this.items.shift();
+			if (item !== undefined) {
+				this.notify();
+				return { item, index: this.taken++ };
+			}
+			if (this.closed) return null;
+			await this.wait();
+		}
+	}
+
+	private wait(): Promise<void> {
+		return new Promise(resolve => this.waiters.push(resolve));
+	}
+
+	private notify(): void {
+		const waiters = this.waiters;
+		this.waiters = [];
+		waiters.forEach(resolve => resolve());
+	}
 }
 
 export class TranscriberService {
-	private openAIClients = new Map<string, OpenAI>();
-	private decodeAudioCtx: AudioContext | null = null;
 	private static audioWorkerUrl: string | null = null;
 
 	public async dispose(): Promise<void> {
-		if (this.decodeAudioCtx && this.decodeAudioCtx.state !== 'closed') {
-			await this.decodeAudioCtx.close();
+		if (TranscriberService.audioWorkerUrl) {
+			URL.revokeObjectURL(TranscriberService.audioWorkerUrl);
+			TranscriberService.audioWorkerUrl = null;
 		}
-		this.decodeAudioCtx = null;
 	}
 
 	/**
-	 * Transcribe audio blob using OpenAI or Gemini API based on settings.
+	 * Transcribe audio blob with the provider selected in settings.
+	 * Chunking, retries, concurrency and progress are shared by all providers.
+	 * Chunks are transcribed while the rest of the recording is still being decoded.
 	 * Supports cancellation and progress updates.
+	 * Returns timestamped segments on the original audio timeline plus the rendered transcript.
+	 * Several recordings are transcribed as one session: they are decoded back to back onto a
+	 * single timeline and a marker is rendered where each one starts. With channel speakers,
+	 * each channel of a stereo recording is transcribed on its own and the results are
+	 * interleaved chronologically under the channels' speaker names.
 	 */
 	async transcribe(
-		blob: Blob,
+		audio: Blob | SessionRecording[],
 		settings: TranscriberSettings,
 		contextOrOptions?: string | TranscribeOptions
-	): Promise<string> {
-		const options = this.normalizeOptions(contextOrOptions);
-
-		if (!settings.apiKey) {
-			throw new Error('Transcriber API key is not configured');
+	): Promise<TranscriptionResult> {
+		const recordings = audio instanceof Blob ? [{ blob: audio, name: '' }] : audio;
+		if (!recordings.length) {
+			throw new Error('No audio to transcribe.');
 		}
+		const blob = recordings.length === 1 ? recordings[0].blob : new Blob(recordings.map(recording => recording.blob));
+		const options = this.normalizeOptions(contextOrOptions);
+		const chain = this.resolveProviderChain(settings);
+		const provider = chain[0].provider;
 
 		console.info('[AI Transcriber] Transcription requested.', {
-			provider: settings.provider,
+			provider: provider.id,
 			model: settings.model,
+			fallbacks: chain.slice(1).map(entry => `${entry.provider.id}/${entry.settings.model}`),
 			mimeType: blob.type || 'unknown',
 			sizeBytes: blob.size,
+			recordings: recordings.length,
 		});
 
 		this.throwIfAborted(options.signal);
 
-		if (settings.provider === 'openai') {
-			return this.transcribeWithOpenAI(blob, settings, options);
+		const languages = options.languages ?? settings.languages ?? [];
+		const glossary = options.glossary ?? [];
+		const promptTemplate = resolveTranscriptionPromptTemplate(settings, options.promptTemplate);
+		const profile = resolvePreprocessingProfile(settings, options.preprocessingProfile);
+		const channelSpeakers = resolveChannelSpeakers(settings, options.channelSpeakers);
+		const providerChunking =
+			provider.getChunking(blob, settings, chain[0].providerOptions) ??
+			(recordings.length > 1 || channelSpeakers ? SESSION_CHUNKING : null);
+		const chunking = providerChunking ? this.applyProfileLimits(providerChunking, profile) : null;
+		const pass: TranscriptionPass = {
+			recordings,
+			blob,
+			chain,
+			settings,
+			options,
+			chunking,
+			profile,
+			languages,
+			glossary,
+			promptTemplate,
+		};
+
+		let transcribed: PassResult;
+		let segments: TranscriptSegment[];
+		let gaps: TranscriptGap[];
+		let totalChunks: number;
+		if (!channelSpeakers) {
+			transcribed = await this.transcribePass(pass);
+			segments = transcribed.segments;
+			gaps = transcribed.gaps;
+			totalChunks = transcribed.chunkCount;
+		} else {
+			// Channels are transcribed one after another; their checkpoints follow each other in the job.
+			const channels: Array<{ speaker: string; segments: TranscriptSegment[] }> = [];
+			transcribed = await this.transcribePass(pass, { index: 0, speaker: channelSpeakers[0], chunkOffset: 0 });
+			channels.push({ speaker: channelSpeakers[0], segments: transcribed.segments });
+			gaps = transcribed.gaps;
+			totalChunks = transcribed.chunkCount;
+			if (transcribed.channelCount < 2) {
+				console.warn('[AI Transcriber] The recording has a single channel; keeping the model\'s speaker labels.');
+				segments = transcribed.segments;
+			} else {
+				for (let index = 1; index < Math.min(channelSpeakers.length, transcribed.channelCount); index++) {
+					const channel = await this.transcribePass(pass, { index, speaker: channelSpeakers[index], chunkOffset: totalChunks });
+					channels.push({ speaker: channelSpeakers[index], segments: channel.segments });
+					gaps = gaps.concat(channel.gaps);
+					totalChunks += channel.chunkCount;
+				}
+				segments = mergeChannelSegments(channels, this.getSessionBoundaries(recordings, transcribed.recordingStarts));
+			}
+		}
+		if (!totalChunks) {
+			return { text: '', segments: [] };
 		}
 
-		if (settings.provider === 'gemini') {
-			return this.transcribeWithGemini(blob, settings, options);
+		if (options.applyGlossaryCorrections && glossary.length) {
+			segments = segments.map(segment => ({ ...segment, text: applyGlossaryCorrections(segment.text, glossary) }));
 		}
+		const boundaries = this.getSessionBoundaries(recordings, transcribed.recordingStarts);
+		const fullText = renderTranscript(segments, boundaries, gaps);
+		const detected = summarizeDetectedLanguages(segments);
+		const language: TranscriptLanguage | undefined = languages.length
+			? { codes: languages, source: 'declared' }
+			: detected.length
+				? { codes: detected, source: 'detected' }
+				: undefined;
+		this.emitProgress(options, { provider: provider.id, stage: 'done', totalChunks, completedChunks: totalChunks });
+		console.info('[AI Transcriber] Transcription complete.', {
+			provider: provider.id,
+			segments: segments.length,
+			textLength: fullText.length,
+			language,
+			gaps,
+		});
+		return { text: fullText, segments, language, gaps };
+	}
 
-		throw new Error(`Unsupported transcription provider: ${settings.provider}`);
+	/**
+	 * Preprocess and transcribe the recordings once, mixed down or for a single channel,
+	 * returning stitched segments on the source timeline. Chunks of a channel are
+	 * checkpointed after those of the channels before it.
+	 */
+	private async transcribePass(pass: TranscriptionPass, channel?: ChannelPass): Promise<PassResult> {
+		const { recordings, blob, chain, settings, options, chunking, profile, languages, glossary, promptTemplate } = pass;
+		const { provider, providerOptions } = chain[0];
+		const checkpointOffset = channel?.chunkOffset ?? 0;
+		const emit = (progress: TranscriptionProgress) =>
+			this.emitProgress(options, channel ? { ...progress, channel: channel.speaker } : progress);
+		const concurrency = chunking?.concurrency ?? 1;
+		const queue = new ChunkQueue<AudioChunk>(concurrency);
+		const pipeline = new AbortController();
+		const pipelineSignal = this.mergeAbortSignals(options.signal, pipeline.signal);
+
+		let preprocessing: Promise<PreprocessResult>;
+		if (chunking) {
+			emit({ provider: provider.id, stage: 'preprocess' });
+			let levelsReported = false;
+			preprocessing = this.preprocess(
+				recordings,
+				chunking,
+				profile,
+				settings,
+				{ ...options, signal: pipelineSignal.signal },
+				channel?.index,
+				async (chunk, levels) => {
+					if (!levelsReported) {
+						levelsReported = true;
+						emit({ provider: provider.id, stage: 'preprocess', levels });
+					}
+					await queue.push(chunk);
+				},
+			);
+		} else {
+			const whole: AudioChunk = { blob, startSeconds: 0 };
+			preprocessing = queue
+				.push(whole)
+				.then(() => ({ chunks: [whole], timeMap: [], sampleRate: TARGET_SAMPLE_RATE, recordingStarts: [0], channelCount: 1 }));
+		}
+		const preprocessed = preprocessing.then(
+			result => {
+				queue.close();
+				return result;
+			},
+			error => {
+				queue.fail(error);
+				throw error;
+			},
+		);
+		// Observed below; keeps a failure from being reported as unhandled while chunks are in flight.
+		preprocessed.catch(() => undefined);
+
+		let completedChunks = 0;
+		let results: TranscriptSegment[][];
+		const chunkGaps: TranscriptGap[][] = [];
+		try {
+			results = await this.mapWithConcurrency(
+				queue,
+				concurrency,
+				options.signal,
+				async (chunk, index, workerSignal) => {
+					const chunkIndex = index + 1;
+					const checkpointed = options.checkpoint ? await options.checkpoint.restore(checkpointOffset + index, chunk) : null;
+					if (checkpointed) {
+						completedChunks++;
+						emit({
+							provider: provider.id,
+							stage: 'transcribe',
+							currentChunk: chunkIndex,
+							totalChunks: queue.total,
+							completedChunks,
+						});
+						return checkpointed;
+					}
+
+					const outcome = await this.transcribeChunkWithFallbacks(chain, {
+						chunk,
+						chunkIndex,
+						signal: workerSignal,
+						createContext: (attempt, piece) => {
+							const reportStage = (stage: TranscriptionStage) =>
+								emit({
+									provider: attempt.provider.id,
+									stage,
+									currentChunk: chunkIndex,
+									totalChunks: queue.total,
+								});
+							reportStage('transcribe');
+							return {
+								settings: attempt.settings,
+								providerOptions: attempt.providerOptions,
+								context: options.context,
+								languages,
+								glossary,
+								promptTemplate,
+								chunkIndex,
+								totalChunks: queue.total,
+								durationSeconds: piece.endSeconds !== undefined ? piece.endSeconds - piece.startSeconds : undefined,
+								signal: workerSignal,
+								sleep: (ms: number) => this.sleep(ms, workerSignal),
+								retry: <T>(label: string, operation: () => Promise<T>) =>
+									this.withRetries(
+										async () => {
+											this.throwIfAborted(workerSignal);
+											return await operation();
+										},
+										{ label, signal: workerSignal },
+									),
+								reportStage,
+							};
+						},
+						resplit: piece => this.resplitChunk(piece, pass, workerSignal),
+						fit: (piece, required) => this.cutChunk(piece, pass, required, workerSignal),
+						reportUsage: (attempt, audioSeconds) =>
+							options.onUsage?.({
+								provider: attempt.provider.id,
+								model: attempt.settings.model,
+								chunkIndex,
+								audioSeconds,
+							}),
+					});
+					const { segments, gaps } = outcome;
+					chunkGaps[index] = gaps;
+					// A chunk left with gaps is transcribed again when the job is resumed.
+					if (options.checkpoint && !gaps.length) {
+						try {
+							await options.checkpoint.save(checkpointOffset + index, segments);
+						} catch (error) {
+							console.warn('[AI Transcriber] Failed to checkpoint chunk:', chunkIndex, error);
+						}
+					}
+
+					completedChunks++;
+					emit({
+						provider: provider.id,
+						stage: 'transcribe',
+						currentChunk: chunkIndex,
+						totalChunks: queue.total,
+						completedChunks,
+					});
+					return segments;
+				},
+			);
+		} catch (error) {
+			pipeline.abort();
+			queue.fail(error);
+			await preprocessed.catch(() => undefined);
+			throw error;
+		} finally {
+			pipelineSignal.cleanup();
+		}
+
+		const preprocessResult = await preprocessed;
+		const chunks = preprocessResult.chunks;
+		if (!chunks.length) {
+			return {
+				segments: [],
+				gaps: [],
+				chunkCount: 0,
+				recordingStarts: preprocessResult.recordingStarts,
+				channelCount: preprocessResult.channelCount,
+			};
+		}
+
+		const chunkResults = results.slice();
+		// The provider only relabels its own chunks; those of a fallback keep their speakers.
+		// Segments restored from a checkpoint saved before sources were recorded count as its own.
+		const primarySource = `${provider.id}/${settings.model}`;
+		const reconcilable = results
+			.map((segments, index) =>
+				segments.every(segment => !segment.source || segment.source === primarySource) ? index : -1,
+			)
+			.filter(index => index >= 0);
+		// A channel holds one speaker, so there is nothing to reconcile.
+		if (provider.reconcileChunks && reconcilable.length > 1 && !channel) {
+			if (reconcilable.length < results.length) {
+				console.info('[AI Transcriber] Reconciling speakers of the chunks a fallback did not transcribe.', {
+					chunks: reconcilable.map(index => index + 1),
+				});
+			}
+			emit({ provider: provider.id, stage: 'reconcile', totalChunks: chunks.length, completedChunks });
+			const reconciled = await provider.reconcileChunks(
+				reconcilable.map(index => results[index]),
+				{
+					settings,
+					providerOptions,
+					context: options.context,
+					signal: options.signal,
+					sleep: ms => this.sleep(ms, options.signal),
+					retry: (label, operation) => this.withRetries(operation, { label, signal: options.signal }),
+				},
+			);
+			reconcilable.forEach((chunkIndex, index) => {
+				chunkResults[chunkIndex] = reconciled[index];
+			});
+		}
+
+		return {
+			segments: this.stitchSegments(preprocessResult, chunkResults),
+			gaps: this.stitchGaps(preprocessResult, chunkGaps),
+			chunkCount: chunks.length,
+			recordingStarts: preprocessResult.recordingStarts,
+			channelCount: preprocessResult.channelCount,
+		};
+	}
+
+	/**
+	 * Transcribe a chunk with the first provider in the chain, moving on to the next one when
+	 * a provider still fails after its retries. The recording is chunked for the first provider
+	 * only, so a fallback gets the chunk cut to its own limits when it is longer or larger than
+	 * those. The segments are tagged with the provider and model that produced them.
+	 */
+	private async transcribeChunkWithFallbacks(
+		chain: ProviderChainEntry[],
+		request: ChunkRequest,
+	): Promise<ChunkOutcome> {
+		for (let index = 0; ; index++) {
+			const entry = chain[index];
+			try {
+				const outcome = index
+					? await this.transcribeFallbackChunk(entry, request)
+					: await this.transcribeCompleteChunk(entry, request, request.chunk, 0);
+				const source = `${entry.provider.id}/${entry.settings.model}`;
+				return { ...outcome, segments: outcome.segments.map(segment => ({ ...segment, source })) };
+			} catch (error) {
+				if (this.isAbortError(error) || request.signal?.aborted || index + 1 >= chain.length) {
+					throw error;
+				}
+				const next = chain[index + 1];
+				console.warn(
+					`[AI Transcriber] Chunk ${request.chunkIndex} failed on ${entry.provider.displayName} (${entry.settings.model}); falling back to ${next.provider.displayName} (${next.settings.model}).`,
+					error,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Transcribe the requested chunk with a fallback provider, first cutting it to the
+	 * fallback's chunking when it exceeds that or is the recording sent whole.
+	 */
+	private async transcribeFallbackChunk(entry: ProviderChainEntry, request: ChunkRequest): Promise<ChunkOutcome> {
+		const { chunk } = request;
+		const chunking = entry.provider.getChunking(chunk.blob, entry.settings, entry.providerOptions);
+		if (!chunking) {
+			return this.transcribeCompleteChunk(entry, request, chunk, 0);
+		}
+		const fits =
+			chunk.endSeconds !== undefined &&
+			chunk.endSeconds - chunk.startSeconds <= chunking.maxChunkSeconds &&
+			(chunking.maxChunkBytes === undefined || chunk.blob.size <= chunking.maxChunkBytes);
+		if (fits) {
+			return this.transcribeCompleteChunk(entry, request, chunk, 0);
+		}
+		const pieces = await request.fit(chunk, chunking);
+		console.info(`[AI Transcriber] Cutting chunk ${request.chunkIndex} into ${pieces.length} pieces for ${entry.provider.displayName}.`);
+		return this.transcribePieces(entry, request, chunk, pieces, 0);
+	}
+
+	/**
+	 * Transcribe `chunk` (the requested chunk or a piece of it) with one provider. When the
+	 * provider reports the transcript incomplete, the chunk is cut into shorter pieces that are
+	 * transcribed one by one and stitched like chunks; a piece that is still incomplete once it
+	 * cannot be split further keeps its partial transcript and is reported as a gap.
+	 */
+	private async transcribeCompleteChunk(
+		entry: ProviderChainEntry,
+		request: ChunkRequest,
+		chunk: AudioChunk,
+		depth: number,
+	): Promise<ChunkOutcome> {
+		const { chunkIndex, signal } = request;
+		// A recording sent whole is only measured by what the provider transcribed.
+		const measure = (segments: TranscriptSegment[]) =>
+			chunk.endSeconds !== undefined
+				? chunk.endSeconds - chunk.startSeconds
+				: segments.length ? segments[segments.length - 1].end : 0;
+		let incomplete: IncompleteTranscriptError;
+		try {
+			this.throwIfAborted(signal);
+			// The provider retries each of its requests; what still fails here moves on to a fallback.
+			const segments = await entry.provider.transcribeChunk(chunk, request.createContext(entry, chunk));
+			request.reportUsage(entry, measure(segments));
+			return { segments, gaps: [] };
+		} catch (error) {
+			if (!(error instanceof IncompleteTranscriptError)) throw error;
+			incomplete = error;
+		}
+		// The incomplete transcript was still billed.
+		request.reportUsage(entry, measure(incomplete.segments));
+
+		const pieces = depth < MAX_RESPLIT_DEPTH ? await request.resplit(chunk) : null;
+		if (!pieces) {
+			const { segments, reason } = incomplete;
+			const end = measure(segments);
+			const start = reason === 'sparse' || !segments.length ? 0 : Math.min(segments[segments.length - 1].start, end);
+			console.warn(`[AI Transcriber] ${incomplete.message}; keeping the partial transcript.`, { chunk: chunkIndex, start, end });
+			return { segments, gaps: [{ startSeconds: start, endSeconds: end, reason }] };
+		}
+
+		console.info(`[AI Transcriber] ${incomplete.message}; transcribing it again in ${pieces.length} pieces.`);
+		return this.transcribePieces(entry, request, chunk, pieces, depth + 1);
+	}
+
+	/**
+	 * Transcribe the pieces cut from `chunk` one by one and stitch them like chunks, on the
+	 * chunk's local timeline.
+	 */
+	private async transcribePieces(
+		entry: ProviderChainEntry,
+		request: ChunkRequest,
+		chunk: AudioChunk,
+		pieces: AudioChunk[],
+		depth: number,
+	): Promise<ChunkOutcome> {
+		const stitched: ChunkSegments[] = [];
+		const gaps: TranscriptGap[] = [];
+		for (const piece of pieces) {
+			const offset = piece.startSeconds - chunk.startSeconds;
+			const outcome = await this.transcribeCompleteChunk(entry, request, piece, depth);
+			stitched.push({
+				startSeconds: offset,
+				endSeconds: piece.endSeconds !== undefined ? piece.endSeconds - chunk.startSeconds : undefined,
+				segments: shiftSegments(outcome.segments, local => offset + local),
+			});
+			outcome.gaps.forEach(gap =>
+				gaps.push({ ...gap, startSeconds: offset + gap.startSeconds, endSeconds: offset + gap.endSeconds }),
+			);
+		}
+		return { segments: mergeOverlappingChunks(stitched), gaps };
+	}
+
+	/**
+	 * Cut a chunk into RESPLIT_PIECES shorter pieces for another attempt. Null when the chunk
+	 * is too short to split.
+	 */
+	private async resplitChunk(chunk: AudioChunk, pass: TranscriptionPass, signal?: AbortSignal): Promise<AudioChunk[] | null> {
+		const durationSeconds = chunk.endSeconds !== undefined ? chunk.endSeconds - chunk.startSeconds : Infinity;
+		if (durationSeconds < 2 * MIN_RESPLIT_PIECE_SECONDS) return null;
+		const pieceSeconds = Math.max(
+			MIN_RESPLIT_PIECE_SECONDS,
+			Math.min(MAX_RESPLIT_PIECE_SECONDS, durationSeconds / RESPLIT_PIECES),
+		);
+		const pieces = await this.cutChunk(chunk, pass, { maxChunkSeconds: pieceSeconds, trimLongSilence: false, concurrency: 1 }, signal);
+		return pieces.length > 1 ? pieces : null;
+	}
+
+	/**
+	 * Cut a chunk into pieces within the given length and size, keeping its timeline. The
+	 * chunk's own audio is decoded and chunked again, without the filters and gain it has
+	 * already been through, so the pieces split at pauses and carry their detected speech
+	 * like chunks do.
+	 */
+	private async cutChunk(
+		chunk: AudioChunk,
+		pass: TranscriptionPass,
+		chunking: ChunkingRequirements,
+		signal?: AbortSignal,
+	): Promise<AudioChunk[]> {
+		const { settings, profile } = pass;
+		const pieceSeconds = this.applyProfileLimits(chunking, profile).maxChunkSeconds;
+		const session = await this.openChunkingSession({
+			trimLongSilence: false,
+			minSilenceTrimSamples: 0,
+			maxDurationSeconds: pieceSeconds,
+			targetSampleRate: TARGET_SAMPLE_RATE,
+			silenceThreshold: profile.silenceThreshold,
+			adaptiveThreshold: profile.adaptiveThreshold,
+			vad: profile.voiceActivityDetection ? { ...DEFAULT_VAD_OPTIONS, sampleRate: TARGET_SAMPLE_RATE } : null,
+			filters: null,
+			dynamics: null,
+			noiseReduction: null,
+			silenceWindowSeconds: profile.silenceWindowSeconds,
+			searchRangeSeconds: Math.min(profile.searchRangeSeconds, pieceSeconds / 4),
+			// Every piece is kept, since a dropped tail would be a gap of its own.
+			minChunkSeconds: 0,
+			overlapSeconds: Math.min(Math.max(0, settings.chunkOverlapSeconds || 0), MAX_CHUNK_OVERLAP_SECONDS, pieceSeconds / 4),
+			format: settings.chunkFormat,
+			maxChunkBytes: chunking.maxChunkBytes ?? null,
+		});
+		const onAbort = () => session.close();
+		signal?.addEventListener('abort', onAbort);
+
+		const pieces: AudioChunk[] = [];
+		try {
+			await decodeAudioInWindows(
+				chunk.blob,
+				async (samples, sampleRate) => {
+					const update = await session.push(samples, sampleRate);
+					update.chunks.forEach(item => pieces.push(this.toAudioChunk(item, chunk.startSeconds)));
+				},
+				{
+					fallbackSampleRate: TARGET_SAMPLE_RATE,
+					throwIfAborted: () => this.throwIfAborted(signal),
+				},
+			);
+			const result = await session.finish();
+			result.chunks.forEach(item => pieces.push(this.toAudioChunk(item, chunk.startSeconds)));
+		} finally {
+			signal?.removeEventListener('abort', onAbort);
+			session.close();
+		}
+		return pieces;
+	}
+
+	/**
+	 * The configured provider followed by the fallbacks that can be used. A fallback without a
+	 * model, with an unknown provider or with invalid settings is skipped with a warning. The
+	 * primary API key is only reused by fallbacks on the same provider, so a key never goes to
+	 * another provider's host; a fallback elsewhere that needs a key must have its own.
+	 */
+	private resolveProviderChain(settings: TranscriberSettings): ProviderChainEntry[] {
+		const provider = transcriptionProviders.require(settings.provider);
+		const providerOptions = transcriptionProviders.getOptions(provider, settings);
+		const validationError = provider.validate(settings, providerOptions);
+		if (validationError) {
+			throw new Error(validationError);
+		}
+
+		const chain: ProviderChainEntry[] = [{ provider, settings, providerOptions }];
+		for (const fallback of settings.fallbacks ?? []) {
+			const fallbackProvider = transcriptionProviders.get(fallback.provider);
+			const fallbackSettings: TranscriberSettings = {
+				...settings,
+				provider: fallback.provider,
+				model: fallback.model.trim(),
+				apiKey: fallback.apiKey || (fallback.provider === settings.provider ? settings.apiKey : ''),
+			};
+			if (!fallbackProvider || !fallbackSettings.model) {
+				console.warn('[AI Transcriber] Skipping transcription fallback without a known provider and model.', fallback.provider, fallback.model);
+				continue;
+			}
+			if (fallbackProvider.requiresApiKey && !fallbackSettings.apiKey) {
+				console.warn('[AI Transcriber] Skipping transcription fallback without its own API key.', fallback.provider, fallback.model);
+				continue;
+			}
+			const fallbackOptions = transcriptionProviders.getOptions(fallbackProvider, fallbackSettings);
+			const fallbackError = fallbackProvider.validate(fallbackSettings, fallbackOptions);
+			if (fallbackError) {
+				console.warn('[AI Transcriber] Skipping transcription fallback:', fallback.provider, fallback.model, fallbackError);
+				continue;
+			}
+			chain.push({ provider: fallbackProvider, settings: fallbackSettings, providerOptions: fallbackOptions });
+		}
+		return chain;
+	}
+
+	/**
+	 * Where each recording of a multi-file session starts; empty for a single recording.
+	 */
+	private getSessionBoundaries(recordings: SessionRecording[], recordingStarts: number[]): SessionBoundary[] {
+		return recordings.length > 1
+			? recordings.map((recording, index) => ({ name: recording.name, startSeconds: recordingStarts[index] ?? 0 }))
+			: [];
 	}
 
 	private normalizeOptions(contextOrOptions?: string | TranscribeOptions): TranscribeOptions {
@@ -147,62 +972,44 @@ export class TranscriberService {
 		});
 	}
 
-	private async withRetries<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
-		const maxRetries = options.maxRetries ?? 3;
-		let lastError: unknown;
-
-		for (let attempt = 1; attempt <= maxRetries; attempt++) {
-			this.throwIfAborted(options.signal);
-			try {
-				return await operation();
-			} catch (error) {
-				lastError = error;
-				if (this.isAbortError(error)) {
-					throw error;
-				}
-				if (attempt >= maxRetries) {
-					break;
-				}
-				console.warn(`[AI Transcriber] ${options.label} failed (attempt ${attempt}/${maxRetries}). Retrying...`, error);
-				await this.sleep(500 * Math.pow(2, attempt - 1), options.signal);
-			}
-		}
-
-		throw new Error(
-			`[AI Transcriber] ${options.label} failed after ${maxRetries} attempts: ${
-				(lastError as Error)?.message ?? 'Unknown error'
-			}`,
-		);
+	private withRetries<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+		return runWithRetryPolicy(operation, {
+			label: options.label,
+			signal: options.signal,
+			sleep: (ms, signal) => this.sleep(ms, signal),
+			isAbortError: error => this.isAbortError(error),
+			throwIfAborted: signal => this.throwIfAborted(signal),
+			logPrefix: '[AI Transcriber]',
+		});
 	}
 
+	/**
+	 * Run `worker` over the queued items with at most `concurrency` in flight,
+	 * returning results in queue order. The first failure cancels the rest.
+	 */
 	private async mapWithConcurrency<T, R>(
-		items: T[],
+		queue: ChunkQueue<T>,
 		concurrency: number,
 		signal: AbortSignal | undefined,
 		worker: (item: T, index: number, workerSignal?: AbortSignal) => Promise<R>,
 	): Promise<R[]> {
-		const limitedConcurrency = Math.max(1, Math.min(concurrency, items.length || 1));
-		const results = new Array<R>(items.length);
-		if (!items.length) {
-			return results;
-		}
-
+		const results: R[] = [];
 		const localAbortController = new AbortController();
 		const merged = this.mergeAbortSignals(signal, localAbortController.signal);
-		let nextIndex = 0;
 		let firstError: unknown;
 
-		const runners = Array.from({ length: limitedConcurrency }, async () => {
+		const runners = Array.from({ length: Math.max(1, concurrency) }, async () => {
 			while (true) {
 				this.throwIfAborted(merged.signal);
-				const index = nextIndex++;
-				if (index >= items.length) return;
+				const next = await queue.next();
+				if (!next) return;
 				try {
-					results[index] = await worker(items[index], index, merged.signal);
+					results[next.index] = await worker(next.item, next.index, merged.signal);
 				} catch (error) {
 					if (firstError === undefined) {
 						firstError = error;
 						localAbortController.abort();
+						queue.fail(error);
 					}
 					throw error;
 				}
@@ -248,477 +1055,310 @@ export class TranscriberService {
 		};
 	}
 
-	private getOpenAIClient(apiKey: string): OpenAI {
-		const cached = this.openAIClients.get(apiKey);
-		if (cached) return cached;
-		const client = new OpenAI({
-			apiKey,
-			dangerouslyAllowBrowser: true,
-		});
-		this.openAIClients.set(apiKey, client);
-		return client;
-	}
 
-	private getDecodeAudioContext(): AudioContext {
-		const AudioCtx = window.AudioContext || (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-		if (!AudioCtx) {
-			throw new Error('Web Audio API is not supported in this browser.');
-		}
-		if (!this.decodeAudioCtx || this.decodeAudioCtx.state === 'closed') {
-			this.decodeAudioCtx = new AudioCtx();
+	/**
+	 * Map a position on the preprocessed timeline back to the original audio,
+	 * undoing any silence trimmed before that position.
+	 */
+	private toSourceSeconds(processedSeconds: number, preprocessed: PreprocessResult): number {
+		const { timeMap, sampleRate } = preprocessed;
+		const processedSample = processedSeconds * sampleRate;
+		let shiftSamples = 0;
+		for (let i = 0; i + 1 < timeMap.length; i += 2) {
+			if (timeMap[i] > processedSample) break;
+			shiftSamples = timeMap[i + 1] - timeMap[i];
 		}
-		return this.decodeAudioCtx;
+		return processedSeconds + shiftSamples / sampleRate;
 	}
 
-	private async transcribeWithOpenAI(
-		blob: Blob,
-		settings: TranscriberSettings,
-		options: TranscribeOptions,
-	): Promise<string> {
-		const openai = this.getOpenAIClient(settings.apiKey);
-
-		this.emitProgress(options, { provider: 'openai', stage: 'preprocess' });
-		const chunks = await this.preprocess(blob, undefined, options);
-		console.info('[AI Transcriber] OpenAI preprocess done.', {
-			chunks: chunks.length,
-			chunkBytes: chunks.map(chunk => chunk.size),
-		});
-
-		if (!chunks.length) {
-			return '';
-		}
-
-		let completedChunks = 0;
-		const results = await this.mapWithConcurrency(
-			chunks,
-			DEFAULT_TRANSCRIBE_CONCURRENCY,
-			options.signal,
-			async (chunk, index, workerSignal) => {
-				this.emitProgress(options, {
-					provider: 'openai',
-					stage: 'transcribe',
-					currentChunk: index + 1,
-					totalChunks: chunks.length,
-				});
-
-				const transcription = await this.withRetries(
-					async () => {
-						this.throwIfAborted(workerSignal);
-						let prompt = settings.prompt || '';
-						if (options.context && options.context.trim()) {
-							const contextBlock =
-								'【用户提供的会议背景（仅用于提高识别准确性）】\n' +
-								options.context.trim() +
-								'\n【使用规则】\n- 仅用于人名/组织/术语识别\n- 不要添加音频中未出现的内容';
-							prompt = prompt ? `${prompt}\n\n${contextBlock}` : contextBlock;
-						}
-
-						return await openai.audio.transcriptions.create(
-							{
-								file: new File([chunk], 'audio.wav', { type: 'audio/wav' }),
-								model: settings.model,
-								response_format: 'text',
-								...(prompt ? { prompt } : {}),
-							},
-							{
-								signal: workerSignal,
-							},
-						);
-					},
-					{
-						label: `OpenAI chunk ${index + 1}/${chunks.length}`,
-						signal: workerSignal,
-					},
-				);
-
-				completedChunks++;
-				this.emitProgress(options, {
-					provider: 'openai',
-					stage: 'transcribe',
-					currentChunk: index + 1,
-					totalChunks: chunks.length,
-					completedChunks,
-				});
-				return transcription;
-			},
+	/**
+	 * Shift each chunk's local segments by the chunk offset, drop text repeated by
+	 * overlapping chunk boundaries, and map the result back to the original audio.
+	 */
+	private stitchSegments(
+		preprocessed: PreprocessResult,
+		chunkSegments: TranscriptSegment[][],
+	): TranscriptSegment[] {
+		const merged = mergeOverlappingChunks(
+			chunkSegments.map((segments, index) => {
+				const chunk = preprocessed.chunks[index];
+				return {
+					startSeconds: chunk.startSeconds,
+					endSeconds: chunk.endSeconds,
+					segments: shiftSegments(segments, local => chunk.startSeconds + local),
+				};
+			}),
 		);
-
-		const fullText = results.join('\n').trim();
-		this.emitProgress(options, { provider: 'openai', stage: 'done', totalChunks: chunks.length, completedChunks });
-		console.info('[AI Transcriber] OpenAI transcription complete.', { textLength: fullText.length });
-		return fullText;
+		return shiftSegments(merged, processed => this.toSourceSeconds(processed, preprocessed));
 	}
 
-	private async transcribeWithGemini(
-		blob: Blob,
-		settings: TranscriberSettings,
-		options: TranscribeOptions,
-	): Promise<string> {
-		const { GoogleGenAI } = await import('@google/genai');
-		const genAI = new GoogleGenAI({ apiKey: settings.apiKey });
-
-		const MAX_DURATION_SECONDS = 15 * 60;
-		const forceWavPreprocess = settings.preferQualityWav || blob.size > DIRECT_GEMINI_UPLOAD_MAX_BYTES;
-
-		let chunks: Blob[];
-		if (forceWavPreprocess) {
-			this.emitProgress(options, { provider: 'gemini', stage: 'preprocess' });
-			chunks = await this.preprocessForGemini(blob, MAX_DURATION_SECONDS, options);
-		} else {
-			chunks = [blob];
-		}
-
-		console.info('[AI Transcriber] Gemini chunks ready.', {
-			chunks: chunks.length,
-			chunkBytes: chunks.map(chunk => chunk.size),
-			mimeTypes: chunks.map(chunk => chunk.type || 'unknown'),
+	/**
+	 * Move each chunk's gaps onto the source timeline, like its segments.
+	 */
+	private stitchGaps(preprocessed: PreprocessResult, chunkGaps: TranscriptGap[][]): TranscriptGap[] {
+		const gaps: TranscriptGap[] = [];
+		chunkGaps.forEach((local, index) => {
+			const chunk = preprocessed.chunks[index];
+			(local ?? []).forEach(gap =>
+				gaps.push({
+					...gap,
+					startSeconds: this.toSourceSeconds(chunk.startSeconds + gap.startSeconds, preprocessed),
+					endSeconds: this.toSourceSeconds(chunk.startSeconds + gap.endSeconds, preprocessed),
+				}),
+			);
 		});
-
-		if (!chunks.length) {
-			return '';
-		}
-
-		let completedChunks = 0;
-		const results = await this.mapWithConcurrency(
-			chunks,
-			2,
-			options.signal,
-			async (chunk, index, workerSignal) => {
-				const chunkIndex = index + 1;
-				const mimeType = chunk.type || 'audio/webm';
-				let uploadedFile: { name?: string; uri?: string; state?: string } | null = null;
-
-				try {
-					this.emitProgress(options, {
-						provider: 'gemini',
-						stage: 'upload',
-						currentChunk: chunkIndex,
-						totalChunks: chunks.length,
-					});
-
-					uploadedFile = await this.withRetries(
-						async () => {
-							this.throwIfAborted(workerSignal);
-							return await genAI.files.upload({
-								file: chunk,
-								config: {
-									mimeType,
-									abortSignal: workerSignal,
-								},
-							});
-						},
-						{
-							label: `Gemini upload chunk ${chunkIndex}/${chunks.length}`,
-							signal: workerSignal,
-						},
-					);
-
-					if (!uploadedFile?.name || !uploadedFile?.uri) {
-						throw new Error('Gemini File API upload failed: no file URI returned');
-					}
-
-					uploadedFile = await this.waitForGeminiFileReady(genAI, uploadedFile, chunkIndex, chunks.length, {
-						...options,
-						signal: workerSignal,
-					});
-
-					this.emitProgress(options, {
-						provider: 'gemini',
-						stage: 'transcribe',
-						currentChunk: chunkIndex,
-						totalChunks: chunks.length,
-					});
-
-					const result = await this.withRetries(
-						async () => {
-							this.throwIfAborted(workerSignal);
-							let enhancedPrompt =
-								settings.prompt ||
-								'You are a professional multilingual transcriber. Your task is to transcribe the audio file VERBATIM (word-for-word) into text.\n\n' +
-									'**CRITICAL REQUIREMENTS:**\n' +
-									'- **TRANSCRIBE THE ENTIRE AUDIO FROM START TO FINISH.** Do NOT skip, truncate, or omit any part.\n' +
-									'- **DO NOT SUMMARIZE.** Every single word must be transcribed.\n' +
-									'- **OUTPUT MUST BE IN THE SAME LANGUAGE AS SPOKEN IN THE AUDIO.** NEVER translate to any other language.\n' +
-									'- If the audio is long, you MUST continue transcribing until the very end. Never stop early.\n\n' +
-									'**GUIDELINES:**\n' +
-									'1. **Languages:** The audio may contain **Mandarin Chinese**, **English**, and/or **Japanese**.\n' +
-									'   - Transcribe exactly as spoken in the original language.\n' +
-									'   - **DO NOT TRANSLATE.**\n' +
-									'2. **Speaker Identification:** Identify different speakers. Label them as "**Speaker 1:**", "**Speaker 2:**", etc. Start a new paragraph every time the speaker changes.\n' +
-									'3. **Accuracy:** Do not correct grammar. Do not paraphrase. Include every detail, every word, every sentence.\n' +
-									'4. **Format:** Output plain text with clear paragraph breaks.\n' +
-									'5. **Noise:** Ignore non-speech sounds.\n\n' +
-									'Begin transcription now and continue until the audio ends.';
-
-							if (options.context && options.context.trim()) {
-								enhancedPrompt +=
-									'\n\n【用户提供的会议背景（仅用于提高识别准确性）】\n' +
-									options.context.trim() +
-									'\n【使用规则】\n- 仅用于人名/组织/术语识别\n- 不要添加音频中未出现的内容';
-							}
-
-							const response = await genAI.models.generateContent({
-								model: settings.model,
-								contents: [
-									{
-										role: 'user',
-										parts: [{ text: enhancedPrompt }, { fileData: { fileUri: uploadedFile!.uri!, mimeType } }],
-									},
-								],
-								config: {
-									temperature: settings.temperature,
-									maxOutputTokens: 65536,
-									abortSignal: workerSignal,
-								},
-							});
-
-							const text = response.text;
-							if (typeof text !== 'string') {
-								throw new Error('Gemini transcription error: No text content in response');
-							}
-							return text;
-						},
-						{
-							label: `Gemini transcription chunk ${chunkIndex}/${chunks.length}`,
-							signal: workerSignal,
-						},
-					);
-
-					completedChunks++;
-					this.emitProgress(options, {
-						provider: 'gemini',
-						stage: 'transcribe',
-						currentChunk: chunkIndex,
-						totalChunks: chunks.length,
-						completedChunks,
-					});
-					return result;
-				} finally {
-					if (uploadedFile?.name) {
-						try {
-							await genAI.files.delete({
-								name: uploadedFile.name,
-								config: { abortSignal: workerSignal },
-							});
-						} catch (error) {
-							if (!this.isAbortError(error)) {
-								console.warn('[AI Transcriber] Failed to delete uploaded Gemini file:', error);
-							}
-						}
-					}
-				}
-			},
-		);
-
-		const fullText = results.join('\n').trim();
-		this.emitProgress(options, { provider: 'gemini', stage: 'done', totalChunks: chunks.length, completedChunks });
-		console.info('[AI Transcriber] Gemini transcription complete.', { textLength: fullText.length });
-		return fullText;
+		return gaps;
 	}
 
-	private async waitForGeminiFileReady(
-		genAI: { files: { get: (params: { name: string; config?: { abortSignal?: AbortSignal } }) => Promise<{ name?: string; uri?: string; state?: string }> } },
-		initialFile: { name?: string; uri?: string; state?: string },
-		currentChunk: number,
-		totalChunks: number,
-		options: TranscribeOptions,
-	): Promise<{ name?: string; uri?: string; state?: string }> {
-		let file = initialFile;
-		const startedAt = Date.now();
-
-		while (file.state === 'PROCESSING') {
-			this.throwIfAborted(options.signal);
-
-			if (Date.now() - startedAt > GEMINI_FILE_PROCESSING_TIMEOUT_MS) {
-				throw new Error(`Gemini file processing timeout for chunk ${currentChunk}/${totalChunks}`);
-			}
-
-			this.emitProgress(options, {
-				provider: 'gemini',
-				stage: 'processing',
-				currentChunk,
-				totalChunks,
-			});
-
-			await this.sleep(1000, options.signal);
-			file = await genAI.files.get({
-				name: file.name!,
-				config: { abortSignal: options.signal },
-			});
-		}
-
-		if (file.state === 'FAILED') {
-			throw new Error(`Gemini file processing failed for chunk ${currentChunk}/${totalChunks}`);
-		}
+	/**
+	 * An encoded chunk as the providers take it, positioned `offsetSeconds` further along the timeline.
+	 */
+	private toAudioChunk(item: EncodedChunk, offsetSeconds = 0): AudioChunk {
+		return {
+			blob: new Blob([item.audio], { type: item.mimeType }),
+			startSeconds: offsetSeconds + item.startSample / TARGET_SAMPLE_RATE,
+			endSeconds: offsetSeconds + item.endSample / TARGET_SAMPLE_RATE,
+			speechSeconds: item.speechSamples === null ? undefined : item.speechSamples / TARGET_SAMPLE_RATE,
+		};
+	}
 
-		return file;
+	/**
+	 * Let a profile lower the provider's chunk length and override its concurrency.
+	 */
+	private applyProfileLimits(chunking: ChunkingRequirements, profile: PreprocessingProfile): ChunkingRequirements {
+		return {
+			...chunking,
+			maxChunkSeconds:
+				profile.maxChunkSeconds > 0 ? Math.min(profile.maxChunkSeconds, chunking.maxChunkSeconds) : chunking.maxChunkSeconds,
+			concurrency: profile.concurrency > 0 ? Math.floor(profile.concurrency) : chunking.concurrency,
+		};
 	}
 
 	/**
-	 * Gemini preprocessing: resample, no silence trimming, chunk at silence boundaries.
+	 * Gain stage settings from a profile, or null when normalization, compression and limiter are all off.
 	 */
-	private async preprocessForGemini(
-		blob: Blob,
-		maxDurationSeconds: number,
-		options: TranscribeOptions,
-	): Promise<Blob[]> {
-		console.info('[AI Transcriber] Gemini preprocess (WAV chunking) start.', { maxDurationSeconds, sizeBytes: blob.size });
-		const data = await this.decodeAndResample(blob, options.signal);
-		const chunks = await this.processResampledData(data, {
-			trimLongSilence: false,
-			minSilenceTrimSamples: 0,
-			maxDurationSeconds,
-			targetSampleRate: TARGET_SAMPLE_RATE,
-			silenceThreshold: SILENCE_THRESHOLD,
-			silenceWindowSeconds: SILENCE_WINDOW_SECONDS,
-			searchRangeSeconds: SEARCH_RANGE_SECONDS,
-			minChunkSeconds: MIN_CHUNK_SECONDS,
-		}, options);
-		console.info('[AI Transcriber] Gemini preprocess done.', { chunks: chunks.length, chunkBytes: chunks.map(chunk => chunk.size) });
-		return chunks;
+	private getDynamicsOptions(profile: PreprocessingProfile): DynamicsOptions | null {
+		if (profile.normalization === 'off' && !profile.compression && !profile.limiter) return null;
+		return {
+			sampleRate: TARGET_SAMPLE_RATE,
+			normalization: profile.normalization,
+			targetDb: profile.normalizationTargetDb,
+			maxGainDb: profile.maxGainDb,
+			compression: profile.compression
+				? { thresholdDb: profile.compressionThresholdDb, ratio: Math.max(1, profile.compressionRatio) }
+				: null,
+			limiterCeilingDb: profile.limiter ? profile.limiterCeilingDb : null,
+		};
 	}
 
 	/**
-	 * OpenAI preprocessing: resample, trim silence, chunk at silence boundaries.
+	 * Decode the recordings window by window (mixed down, or only `channel`), resample to 16 kHz,
+	 * optionally trim long silences, and cut chunks at silence boundaries according to the
+	 * provider's requirements and the job's preprocessing profile. Recordings of a session are fed back to back into the same
+	 * chunker. Each chunk is handed to `onChunk` as soon as it is cut.
 	 */
 	private async preprocess(
-		blob: Blob,
-		maxSecsInput: number | undefined,
+		recordings: SessionRecording[],
+		chunking: ChunkingRequirements,
+		profile: PreprocessingProfile,
+		settings: TranscriberSettings,
 		options: TranscribeOptions,
-	): Promise<Blob[]> {
-		const MAX_CHUNK_SECONDS = maxSecsInput ?? 600;
-		const MIN_SILENCE_DURATION_SECONDS = 2;
-		const MIN_SILENCE_TRIM_SAMPLES = Math.floor(MIN_SILENCE_DURATION_SECONDS * TARGET_SAMPLE_RATE);
-
-		console.info('[AI Transcriber] OpenAI preprocess (WAV chunking) start.', { maxSecsInput, sizeBytes: blob.size });
-		const rawData = await this.decodeAndResample(blob, options.signal);
-		const chunks = await this.processResampledData(rawData, {
-			trimLongSilence: true,
-			minSilenceTrimSamples: MIN_SILENCE_TRIM_SAMPLES,
-			maxDurationSeconds: MAX_CHUNK_SECONDS,
+		channel: number | undefined,
+		onChunk: (chunk: AudioChunk, levels: AudioLevels) => Promise<void>,
+	): Promise<PreprocessResult> {
+		// Keep the overlap well below the chunk length so every chunk still advances the timeline.
+		const overlapSeconds = Math.min(
+			Math.max(0, settings.chunkOverlapSeconds || 0),
+			MAX_CHUNK_OVERLAP_SECONDS,
+			chunking.maxChunkSeconds / 4,
+		);
+		console.info('[AI Transcriber] Preprocess (streaming chunking) start.', {
+			...chunking,
+			format: settings.chunkFormat,
+			profile: profile.name,
+			overlapSeconds,
+			channel,
+			sizeBytes: recordings.map(recording => recording.blob.size),
+		});
+
+		const session = await this.openChunkingSession({
+			trimLongSilence: chunking.trimLongSilence,
+			minSilenceTrimSamples: chunking.trimLongSilence ? Math.floor(profile.minSilenceTrimSeconds * TARGET_SAMPLE_RATE) : 0,
+			maxDurationSeconds: chunking.maxChunkSeconds,
 			targetSampleRate: TARGET_SAMPLE_RATE,
-			silenceThreshold: SILENCE_THRESHOLD,
-			silenceWindowSeconds: SILENCE_WINDOW_SECONDS,
-			searchRangeSeconds: SEARCH_RANGE_SECONDS,
-			minChunkSeconds: MIN_CHUNK_SECONDS,
-		}, options);
-		console.info('[AI Transcriber] OpenAI preprocess done.', { chunks: chunks.length, chunkBytes: chunks.map(chunk => chunk.size) });
-		return chunks;
+			silenceThreshold: profile.silenceThreshold,
+			adaptiveThreshold: profile.adaptiveThreshold,
+			vad: profile.voiceActivityDetection ? { ...DEFAULT_VAD_OPTIONS, sampleRate: TARGET_SAMPLE_RATE } : null,
+			filters:
+				profile.highPassFilter || profile.humNotchHz > 0
+					? { sampleRate: TARGET_SAMPLE_RATE, highPassHz: profile.highPassFilter ? profile.highPassHz : 0, humHz: profile.humNotchHz }
+					: null,
+			dynamics: this.getDynamicsOptions(profile),
+			noiseReduction: profile.noiseReduction
+				? { sampleRate: TARGET_SAMPLE_RATE, maxReductionDb: profile.noiseReductionDb }
+				: null,
+			silenceWindowSeconds: profile.silenceWindowSeconds,
+			searchRangeSeconds: profile.searchRangeSeconds,
+			minChunkSeconds: profile.minChunkSeconds,
+			overlapSeconds,
+			format: settings.chunkFormat,
+			maxChunkBytes: chunking.maxChunkBytes ?? null,
+		});
+		const onAbort = () => session.close();
+		options.signal?.addEventListener('abort', onAbort);
+
+		const chunks: AudioChunk[] = [];
+		const deliver = async (encoded: EncodedChunk[], levels: AudioLevels) => {
+			for (const item of encoded) {
+				const chunk = this.toAudioChunk(item);
+				chunks.push(chunk);
+				await onChunk(chunk, levels);
+			}
+		};
+
+		const recordingStarts: number[] = [];
+		let decodedSeconds = 0;
+		let channelCount = 1;
+		try {
+			for (const recording of recordings) {
+				this.throwIfAborted(options.signal);
+				recordingStarts.push(decodedSeconds);
+				await decodeAudioInWindows(
+					recording.blob,
+					async (samples, sampleRate) => {
+						decodedSeconds += samples.length / sampleRate;
+						const update = await session.push(samples, sampleRate);
+						await deliver(update.chunks, update.levels);
+					},
+					{
+						fallbackSampleRate: TARGET_SAMPLE_RATE,
+						throwIfAborted: () => this.throwIfAborted(options.signal),
+						channel,
+						onChannelCount: count => {
+							channelCount = Math.max(channelCount, count);
+						},
+					},
+				);
+			}
+			const result = await session.finish();
+			await deliver(result.chunks, result.levels);
+			const speechSeconds = result.speechSamples === null ? undefined : result.speechSamples / TARGET_SAMPLE_RATE;
+			console.info('[AI Transcriber] Preprocess done.', {
+				chunks: chunks.length,
+				chunkBytes: chunks.map(chunk => chunk.blob.size),
+				trimmedRegions: result.timeMap.length / 2,
+				levels: result.levels,
+				speechSeconds,
+				dynamics: result.dynamics,
+				noiseFrames: result.noiseFrames,
+			});
+			return {
+				chunks,
+				timeMap: result.timeMap,
+				sampleRate: TARGET_SAMPLE_RATE,
+				levels: result.levels,
+				speechSeconds,
+				recordingStarts,
+				channelCount,
+			};
+		} finally {
+			options.signal?.removeEventListener('abort', onAbort);
+			session.close();
+		}
 	}
 
 	/**
-	 * Decode audio blob and resample to 16kHz mono Float32Array.
+	 * Start a chunking session in the inline worker, or on the main thread when workers are unavailable.
 	 */
-	private async decodeAndResample(blob: Blob, signal?: AbortSignal): Promise<Float32Array> {
-		this.throwIfAborted(signal);
-		const arrayBuffer = await blob.arrayBuffer();
-		this.throwIfAborted(signal);
-
-		const decodeCtx = this.getDecodeAudioContext();
-		const originalBuffer = await decodeCtx.decodeAudioData(arrayBuffer.slice(0));
-		this.throwIfAborted(signal);
-
-		const targetLength = Math.ceil(originalBuffer.duration * TARGET_SAMPLE_RATE);
-		const offlineCtx = new OfflineAudioContext(1, targetLength, TARGET_SAMPLE_RATE);
-		const source = offlineCtx.createBufferSource();
-		source.buffer = originalBuffer;
-		source.connect(offlineCtx.destination);
-		source.start();
-		const resampled = await offlineCtx.startRendering();
-		this.throwIfAborted(signal);
-		return new Float32Array(resampled.getChannelData(0));
-	}
-
-	private async processResampledData(
-		rawData: Float32Array,
-		workerOptions: WorkerPreprocessOptions,
-		options: TranscribeOptions,
-	): Promise<Blob[]> {
-		this.throwIfAborted(options.signal);
-
+	private async openChunkingSession(options: ChunkerOptions): Promise<ChunkingSession> {
 		if (typeof Worker !== 'undefined') {
 			try {
-				return await this.processWithWorker(rawData, workerOptions, options);
+				return await this.openWorkerSession(options);
 			} catch (error) {
-				if (!this.isAbortError(error)) {
-					console.warn('[AI Transcriber] Worker preprocessing failed, falling back to main thread.', error);
-				} else {
-					throw error;
-				}
+				console.warn('[AI Transcriber] Worker preprocessing failed, falling back to main thread.', error);
 			}
 		}
 
-		return this.processLocally(rawData, workerOptions, options.signal);
+		const chunker = createAudioChunker(options, {
+			detectSpeechRegions,
+			findNonSpeechSplitPoint,
+			createDynamicsProcessor,
+			createAudioFilter,
+			createSpectralGate,
+			encodeFlac,
+		});
+		return {
+			push: async (samples, sampleRate) => ({ chunks: chunker.push(samples, sampleRate), levels: chunker.levels() }),
+			finish: async () => chunker.finish(),
+			close: () => {},
+		};
 	}
 
-	private async processWithWorker(
-		rawData: Float32Array,
-		options: WorkerPreprocessOptions,
-		transcribeOptions: TranscribeOptions,
-	): Promise<Blob[]> {
-		const workerUrl = this.getAudioWorkerUrl();
-		const worker = new Worker(workerUrl);
-
-		return await new Promise<Blob[]>((resolve, reject) => {
-			let settled = false;
-			const finish = (fn: () => void) => {
-				if (settled) return;
-				settled = true;
-				worker.terminate();
-				transcribeOptions.signal?.removeEventListener('abort', onAbort);
-				fn();
-			};
+	private async openWorkerSession(options: ChunkerOptions): Promise<ChunkingSession> {
+		const worker = new Worker(this.getAudioWorkerUrl());
+		let pending: { resolve: (reply: WorkerReply) => void; reject: (error: Error) => void } | null = null;
+		let failure: Error | null = null;
 
-			const onAbort = () => finish(() => reject(this.createAbortError()));
+		const fail = (error: Error) => {
+			if (!failure) {
+				failure = error;
+				worker.terminate();
+			}
+			const waiting = pending;
+			pending = null;
+			waiting?.reject(error);
+		};
 
-			worker.onmessage = event => {
-				const payload = event.data as {
-					type: 'progress' | 'result' | 'error';
-					chunks?: ArrayBuffer[];
-					error?: string;
-				};
+		worker.onmessage = event => {
+			const reply = event.data as WorkerReply;
+			if (reply.type === 'error') {
+				fail(new Error(reply.error || 'Worker preprocessing failed.'));
+				return;
+			}
+			const waiting = pending;
+			pending = null;
+			waiting?.resolve(reply);
+		};
+		worker.onerror = event => {
+			fail(new Error(event.message || 'Worker preprocessing error.'));
+		};
 
-				if (payload.type === 'error') {
-					finish(() => reject(new Error(payload.error || 'Worker preprocessing failed.')));
+		// One request at a time: each push waits for its reply, which keeps the worker's backlog to a single window.
+		const request = (message: unknown, transfer: Transferable[] = []) =>
+			new Promise<WorkerReply>((resolve, reject) => {
+				if (failure) {
+					reject(failure);
 					return;
 				}
+				pending = { resolve, reject };
+				worker.postMessage(message, transfer);
+			});
 
-				if (payload.type === 'result') {
-					const chunks = (payload.chunks || []).map(buffer => new Blob([buffer], { type: 'audio/wav' }));
-					finish(() => resolve(chunks));
-				}
-			};
-
-			worker.onerror = event => {
-				finish(() => reject(new Error(event.message || 'Worker preprocessing error.')));
-			};
-
-			if (transcribeOptions.signal) {
-				transcribeOptions.signal.addEventListener('abort', onAbort);
-			}
-
-			const workerInput = rawData.buffer.slice(0);
-			worker.postMessage(
-				{
-					type: 'process',
-					data: workerInput,
-					options,
-				},
-				[workerInput],
-			);
-		});
-	}
+		try {
+			await request({ type: 'init', options });
+		} catch (error) {
+			fail(error as Error);
+			throw error;
+		}
 
-	private processLocally(
-		rawData: Float32Array,
-		options: WorkerPreprocessOptions,
-		signal?: AbortSignal,
-	): Blob[] {
-		this.throwIfAborted(signal);
-		const data = options.trimLongSilence
-			? this.trimSilence(rawData, options.minSilenceTrimSamples, options.silenceThreshold)
-			: rawData;
-		return this.splitAtSilenceToWav(data, options, signal);
+		return {
+			push: async (samples, sampleRate) => {
+				const data = samples.byteLength === samples.buffer.byteLength ? samples.buffer : samples.slice().buffer;
+				const reply = await request({ type: 'push', data, sampleRate }, [data]);
+				if (reply.type !== 'chunks') {
+					throw new Error('Unexpected worker reply.');
+				}
+				return { chunks: reply.chunks, levels: reply.levels };
+			},
+			finish: async () => {
+				const reply = await request({ type: 'finish' });
+				if (reply.type !== 'result') {
+					throw new Error('Unexpected worker reply.');
+				}
+				return reply.result;
+			},
+			close: () => fail(this.createAbortError()),
+		};
 	}
 
 	private getAudioWorkerUrl(): string {
@@ -727,307 +1367,40 @@ export class TranscriberService {
 		}
 
 		const workerSource = `
+const helpers = { detectSpeechRegions, findNonSpeechSplitPoint, createDynamicsProcessor, createAudioFilter, createSpectralGate, encodeFlac };
+let chunker = null;
+
 self.onmessage = (event) => {
 	const payload = event.data || {};
-	if (payload.type !== 'process') return;
 	try {
-		const options = payload.options;
-		const input = new Float32Array(payload.data);
-		const data = options.trimLongSilence
-			? trimSilence(input, options.minSilenceTrimSamples, options.silenceThreshold)
-			: input;
-		const chunks = splitAtSilenceToWavBuffers(data, options);
-		self.postMessage({ type: 'result', chunks }, chunks);
+		if (payload.type === 'init') {
+			chunker = createAudioChunker(payload.options, helpers);
+			self.postMessage({ type: 'ready' });
+		} else if (payload.type === 'push') {
+			const chunks = chunker.push(new Float32Array(payload.data), payload.sampleRate);
+			self.postMessage({ type: 'chunks', chunks, levels: chunker.levels() }, chunks.map(chunk => chunk.audio));
+		} else if (payload.type === 'finish') {
+			const result = chunker.finish();
+			self.postMessage({ type: 'result', result }, result.chunks.map(chunk => chunk.audio));
+		}
 	} catch (error) {
 		const message = (error && error.message) ? error.message : String(error);
 		self.postMessage({ type: 'error', error: message });
 	}
 };
-
-function trimSilence(rawData, minSilenceTrimSamples, silenceThreshold) {
-	let samplesToKeep = 0;
-	let silentCount = 0;
-	for (let i = 0; i < rawData.length; i++) {
-		if (Math.abs(rawData[i]) <= silenceThreshold) {
-			silentCount++;
-		} else {
-			if (silentCount > 0 && silentCount < minSilenceTrimSamples) {
-				samplesToKeep += silentCount;
-			}
-			silentCount = 0;
-			samplesToKeep++;
-		}
-	}
-
-	const data = new Float32Array(samplesToKeep);
-	let idx = 0;
-	silentCount = 0;
-	for (let i = 0; i < rawData.length; i++) {
-		if (Math.abs(rawData[i]) <= silenceThreshold) {
-			silentCount++;
-		} else {
-			if (silentCount > 0 && silentCount < minSilenceTrimSamples) {
-				for (let j = i - silentCount; j < i; j++) {
-					data[idx++] = rawData[j];
-				}
-			}
-			silentCount = 0;
-			data[idx++] = rawData[i];
-		}
-	}
-	return data;
-}
-
-function findSilenceSplitPoint(data, desiredSplit, totalSamples, silenceWindowSamples, searchRangeSamples, silenceThreshold) {
-	const backwardStart = Math.max(silenceWindowSamples, desiredSplit - searchRangeSamples);
-	for (let i = desiredSplit; i >= backwardStart; i--) {
-		let silent = true;
-		for (let j = i - silenceWindowSamples; j < i; j++) {
-			if (Math.abs(data[j]) > silenceThreshold) {
-				silent = false;
-				break;
-			}
-		}
-		if (silent) return i - silenceWindowSamples;
-	}
-
-	const forwardEnd = Math.min(totalSamples, desiredSplit + searchRangeSamples);
-	for (let i = desiredSplit; i < forwardEnd; i++) {
-		let silent = true;
-		for (let j = i; j < i + silenceWindowSamples && j < totalSamples; j++) {
-			if (Math.abs(data[j]) > silenceThreshold) {
-				silent = false;
-				break;
-			}
-		}
-		if (silent) return i;
-	}
-
-	return null;
-}
-
-function splitAtSilenceToWavBuffers(data, options) {
-	const maxSamples = Math.floor(options.maxDurationSeconds * options.targetSampleRate);
-	const minChunkSamples = Math.floor(options.minChunkSeconds * options.targetSampleRate);
-	const silenceWindowSamples = Math.floor(options.silenceWindowSeconds * options.targetSampleRate);
-	const searchRangeSamples = Math.floor(options.searchRangeSeconds * options.targetSampleRate);
-	const chunks = [];
-
-	let startSample = 0;
-	const totalSamples = data.length;
-	while (startSample < totalSamples) {
-		let endSample = Math.min(startSample + maxSamples, totalSamples);
-
-		if (endSample < totalSamples) {
-			const splitPoint = findSilenceSplitPoint(
-				data,
-				endSample,
-				totalSamples,
-				silenceWindowSamples,
-				searchRangeSamples,
-				options.silenceThreshold
-			);
-			if (splitPoint !== null && splitPoint > startSample) {
-				endSample = splitPoint;
-			}
-		}
-
-		const segmentSamples = endSample - startSample;
-		if (segmentSamples >= minChunkSamples) {
-			const segment = data.subarray(startSample, endSample);
-			chunks.push(float32ToWavBuffer(segment, options.targetSampleRate));
-		}
-
-		startSample = endSample;
-	}
-
-	return chunks;
-}
-
-function float32ToWavBuffer(samples, sampleRate) {
-	const dataSize = samples.length * 2;
-	const wavBuffer = new ArrayBuffer(44 + dataSize);
-	const view = new DataView(wavBuffer);
-
-	writeString(view, 0, 'RIFF');
-	view.setUint32(4, 36 + dataSize, true);
-	writeString(view, 8, 'WAVE');
-	writeString(view, 12, 'fmt ');
-	view.setUint32(16, 16, true);
-	view.setUint16(20, 1, true);
-	view.setUint16(22, 1, true);
-	view.setUint32(24, sampleRate, true);
-	view.setUint32(28, sampleRate * 2, true);
-	view.setUint16(32, 2, true);
-	view.setUint16(34, 16, true);
-	writeString(view, 36, 'data');
-	view.setUint32(40, dataSize, true);
-
-	let offset = 44;
-	for (let i = 0; i < samples.length; i++) {
-		const sample = Math.max(-1, Math.min(1, samples[i]));
-		view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
-		offset += 2;
-	}
-
-	return wavBuffer;
-}
-
-function writeString(view, offset, value) {
-	for (let i = 0; i < value.length; i++) {
-		view.setUint8(offset + i, value.charCodeAt(i));
-	}
-}
 `;
 
-		const blob = new Blob([workerSource], { type: 'application/javascript' });
+		// The chunker, detector, gain stage, filters and encoder are self-contained so they can be inlined as source.
+		const functions =
+			`const detectSpeechRegions = ${detectSpeechRegions.toString()};\n` +
+			`const findNonSpeechSplitPoint = ${findNonSpeechSplitPoint.toString()};\n` +
+			`const createDynamicsProcessor = ${createDynamicsProcessor.toString()};\n` +
+			`const createAudioFilter = ${createAudioFilter.toString()};\n` +
+			`const createSpectralGate = ${createSpectralGate.toString()};\n` +
+			`const encodeFlac = ${encodeFlac.toString()};\n` +
+			`const createAudioChunker = ${createAudioChunker.toString()};\n`;
+		const blob = new Blob([functions + workerSource], { type: 'application/javascript' });
 		TranscriberService.audioWorkerUrl = URL.createObjectURL(blob);
 		return TranscriberService.audioWorkerUrl;
 	}
-
-	private trimSilence(rawData: Float32Array, minSilenceTrimSamples: number, silenceThreshold: number): Float32Array {
-		let samplesToKeep = 0;
-		let silentCount = 0;
-		for (let i = 0; i < rawData.length; i++) {
-			if (Math.abs(rawData[i]) <= silenceThreshold) {
-				silentCount++;
-			} else {
-				if (silentCount > 0 && silentCount < minSilenceTrimSamples) {
-					samplesToKeep += silentCount;
-				}
-				silentCount = 0;
-				samplesToKeep++;
-			}
-		}
-
-		const data = new Float32Array(samplesToKeep);
-		let idx = 0;
-		silentCount = 0;
-		for (let i = 0; i < rawData.length; i++) {
-			if (Math.abs(rawData[i]) <= silenceThreshold) {
-				silentCount++;
-			} else {
-				if (silentCount > 0 && silentCount < minSilenceTrimSamples) {
-					for (let j = i - silentCount; j < i; j++) {
-						data[idx++] = rawData[j];
-					}
-				}
-				silentCount = 0;
-				data[idx++] = rawData[i];
-			}
-		}
-		return data;
-	}
-
-	private findSilenceSplitPoint(
-		data: Float32Array,
-		desiredSplit: number,
-		totalSamples: number,
-		silenceWindowSamples: number,
-		searchRangeSamples: number,
-		silenceThreshold: number,
-	): number | null {
-		const backwardStart = Math.max(silenceWindowSamples, desiredSplit - searchRangeSamples);
-		for (let i = desiredSplit; i >= backwardStart; i--) {
-			let silent = true;
-			for (let j = i - silenceWindowSamples; j < i; j++) {
-				if (Math.abs(data[j]) > silenceThreshold) {
-					silent = false;
-					break;
-				}
-			}
-			if (silent) return i - silenceWindowSamples;
-		}
-
-		const forwardEnd = Math.min(totalSamples, desiredSplit + searchRangeSamples);
-		for (let i = desiredSplit; i < forwardEnd; i++) {
-			let silent = true;
-			for (let j = i; j < i + silenceWindowSamples && j < totalSamples; j++) {
-				if (Math.abs(data[j]) > silenceThreshold) {
-					silent = false;
-					break;
-				}
-			}
-			if (silent) return i;
-		}
-		return null;
-	}
-
-	private splitAtSilenceToWav(
-		data: Float32Array,
-		options: WorkerPreprocessOptions,
-		signal?: AbortSignal,
-	): Blob[] {
-		const maxSamples = Math.floor(options.maxDurationSeconds * options.targetSampleRate);
-		const minChunkSamples = Math.floor(options.minChunkSeconds * options.targetSampleRate);
-		const silenceWindowSamples = Math.floor(options.silenceWindowSeconds * options.targetSampleRate);
-		const searchRangeSamples = Math.floor(options.searchRangeSeconds * options.targetSampleRate);
-		const totalSamples = data.length;
-		const chunks: Blob[] = [];
-
-		let startSample = 0;
-		while (startSample < totalSamples) {
-			this.throwIfAborted(signal);
-			let endSample = Math.min(startSample + maxSamples, totalSamples);
-
-			if (endSample < totalSamples) {
-				const splitPoint = this.findSilenceSplitPoint(
-					data,
-					endSample,
-					totalSamples,
-					silenceWindowSamples,
-					searchRangeSamples,
-					options.silenceThreshold,
-				);
-				if (splitPoint !== null && splitPoint > startSample) {
-					endSample = splitPoint;
-				}
-			}
-
-			const segmentSamples = endSample - startSample;
-			if (segmentSamples >= minChunkSamples) {
-				const wav = this.float32ToWavBuffer(data.subarray(startSample, endSample), options.targetSampleRate);
-				chunks.push(new Blob([wav], { type: 'audio/wav' }));
-			}
-
-			startSample = endSample;
-		}
-
-		return chunks;
-	}
-
-	private float32ToWavBuffer(samples: Float32Array, sampleRate: number): ArrayBuffer {
-		const dataSize = samples.length * 2;
-		const wavBuffer = new ArrayBuffer(44 + dataSize);
-		const view = new DataView(wavBuffer);
-
-		this.writeString(view, 0, 'RIFF');
-		view.setUint32(4, 36 + dataSize, true);
-		this.writeString(view, 8, 'WAVE');
-		this.writeString(view, 12, 'fmt ');
-		view.setUint32(16, 16, true);
-		view.setUint16(20, 1, true);
-		view.setUint16(22, 1, true);
-		view.setUint32(24, sampleRate, true);
-		view.setUint32(28, sampleRate * 2, true);
-		view.setUint16(32, 2, true);
-		view.setUint16(34, 16, true);
-		this.writeString(view, 36, 'data');
-		view.setUint32(40, dataSize, true);
-
-		let offset = 44;
-		for (let i = 0; i < samples.length; i++) {
-			const sample = Math.max(-1, Math.min(1, samples[i]));
-			view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
-			offset += 2;
-		}
-
-		return wavBuffer;
-	}
-
-	private writeString(view: DataView, offset: number, value: string): void {
-		for (let i = 0; i < value.length; i++) {
-			view.setUint8(offset + i, value.charCodeAt(i));
-		}
-	}
 }
@@ -0,0 +1,505 @@
+/**
+ * Segment-level transcript model shared by all transcription providers.
+ * Times are expressed in seconds relative to the start of the original audio.
+ */
+export interface TranscriptSegment {
+	start: number;
+	end: number;
+	speaker?: string;
+	text: string;
+	/** ISO 639-1 code the provider detected for this segment, when it reports one. */
+	language?: string;
+	/** Provider and model that transcribed the segment's chunk, e.g. "gemini/gemini-2.5-flash". */
+	source?: string;
+}
+
+/**
+ * A stretch of the transcript produced by one provider and model.
+ */
+export interface TranscriptSource {
+	startSeconds: number;
+	source: string;
+}
+
+/**
+ * Language of a transcript: the languages the user declared, or the ones providers detected.
+ */
+export interface TranscriptLanguage {
+	codes: string[];
+	source: 'declared' | 'detected';
+}
+
+export interface TranscriptionResult {
+	/** Rendered Markdown transcript (timestamped paragraphs). */
+	text: string;
+	segments: TranscriptSegment[];
+	language?: TranscriptLanguage;
+	/** Stretches the transcript may be missing, each also marked in `text`. */
+	gaps?: TranscriptGap[];
+}
+
+/**
+ * Why a chunk transcript looks incomplete: the response hit the output token limit, was
+ * stopped by a safety filter, or holds too little text for the speech in the chunk.
+ */
+export type IncompleteTranscriptReason = 'maxTokens' | 'blocked' | 'sparse';
+
+/**
+ * A stretch of audio whose transcript may be missing even after re-transcribing it in pieces.
+ */
+export interface TranscriptGap {
+	startSeconds: number;
+	endSeconds: number;
+	reason: IncompleteTranscriptReason;
+}
+
+/**
+ * Where one recording of a multi-file session starts on the session timeline.
+ */
+export interface SessionBoundary {
+	/** File name of the recording. */
+	name: string;
+	startSeconds: number;
+}
+
+/** Line rendered before each recording of a session, e.g. "--- Part 2 of 3: call.m4a (from 00:58:10) ---". */
+export const SESSION_MARKER = /^--- Part \d+ of \d+: .+ ---$/m;
+
+const GAP_DESCRIPTIONS: Record<IncompleteTranscriptReason, string> = {
+	maxTokens: 'the response hit the output token limit',
+	blocked: 'the response was stopped by a safety filter',
+	sparse: 'too little text came back for the speech in it',
+};
+
+/** Below this many words (or CJK characters) per minute of speech, a transcript is taken to be missing parts. */
+const MIN_WORDS_PER_SPEECH_MINUTE = 20;
+/** Less speech than this is too little to judge a transcript by its length. */
+const MIN_DENSITY_SPEECH_SECONDS = 60;
+
+const PARAGRAPH_GAP_SECONDS = 3;
+const MAX_PARAGRAPH_SECONDS = 60;
+
+const TIMESTAMP_PREFIX = /^\[((?:\d{1,2}:)?\d{1,2}:\d{2})(?:\.\d+)?\]\s*/;
+const BOLD_SPEAKER_PREFIX = /^\*\*([^*\n]{1,60}?):\*\*\s*/;
+const BOLD_SPEAKER_COLON_OUTSIDE_PREFIX = /^\*\*([^*\n]{1,60}?)\*\*[:：]\s*/;
+const PLAIN_SPEAKER_PREFIX = /^(Speaker \d+)[:：]\s*/;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+/**
+ * Format seconds as HH:MM:SS.
+ */
+export function formatTimestamp(seconds: number): string {
+	const total = Math.max(0, Math.floor(Number.isFinite(seconds) ? seconds : 0));
+	const h = Math.floor(total / 3600);
+	const m = Math.floor((total % 3600) / 60);
+	const s = total % 60;
+	return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+/**
+ * Parse "MM:SS" or "HH:MM:SS" into seconds.
+ */
+export function parseTimestamp(value: string): number | null {
+	const parts = value.split(':').map(part => Number(part));
+	if (!parts.length || parts.some(part => !Number.isFinite(part))) return null;
+	return parts.reduce((acc, part) => acc * 60 + part, 0);
+}
+
+/**
+ * Shift chunk-local segments onto the original audio timeline.
+ */
+export function shiftSegments(
+	segments: TranscriptSegment[],
+	toSourceSeconds: (chunkSeconds: number) => number,
+): TranscriptSegment[] {
+	return segments.map(segment => ({
+		...segment,
+		start: toSourceSeconds(segment.start),
+		end: toSourceSeconds(segment.end),
+	}));
+}
+
+/**
+ * Split paragraph-style model output (e.g. Gemini) into segments.
+ * Paragraphs may start with a "[MM:SS]" timestamp and/or a "**Speaker N:**" label;
+ * paragraphs without a timestamp inherit the previous paragraph's start time.
+ * Returned times are local to the chunk.
+ */
+export function parseParagraphSegments(text: string, chunkDurationSeconds?: number): TranscriptSegment[] {
+	const paragraphs = text
+		.replace(/\r\n/g, '\n')
+		.split(/\n\s*\n/)
+		.map(paragraph => paragraph.trim())
+		.filter(Boolean);
+
+	const clamp = (value: number) =>
+		chunkDurationSeconds !== undefined ? Math.min(Math.max(0, value), chunkDurationSeconds) : Math.max(0, value);
+
+	const segments: TranscriptSegment[] = [];
+	let lastStart = 0;
+	for (const paragraph of paragraphs) {
+		let body = paragraph;
+		let start = lastStart;
+
+		const timestampMatch = body.match(TIMESTAMP_PREFIX);
+		if (timestampMatch) {
+			const parsed = parseTimestamp(timestampMatch[1]);
+			if (parsed !== null) {
+				start = clamp(Math.max(parsed, lastStart));
+			}
+			body = body.substring(timestampMatch[0].length);
+		}
+
+		let speaker: string | undefined;
+		const speakerMatch =
+			body.match(BOLD_SPEAKER_PREFIX) ||
+			body.match(BOLD_SPEAKER_COLON_OUTSIDE_PREFIX) ||
+			body.match(PLAIN_SPEAKER_PREFIX);
+		if (speakerMatch) {
+			speaker = speakerMatch[1].trim();
+			body = body.substring(speakerMatch[0].length);
+		}
+
+		body = body.trim();
+		if (!body) continue;
+
+		segments.push({ start, end: start, speaker, text: body });
+		lastStart = start;
+	}
+
+	for (let i = 0; i < segments.length; i++) {
+		const next = segments[i + 1];
+		segments[i].end = next ? next.start : chunkDurationSeconds ?? segments[i].start;
+	}
+
+	return segments;
+}
+
+function joinText(left: string, right: string): string {
+	if (!left) return right;
+	if (!right) return left;
+	const needsSpace = !(CJK_CHAR.test(left[left.length - 1]) && CJK_CHAR.test(right[0]));
+	return needsSpace ? `${left} ${right}` : `${left}${right}`;
+}
+
+/**
+ * Render segments as Markdown paragraphs prefixed with "[HH:MM:SS]".
+ * Short speaker-less segments (e.g. Whisper sentences) are merged into paragraphs;
+ * labelled segments are kept as-is since the model already paragraphed them.
+ * With session boundaries, a marker line precedes each recording and paragraphs never
+ * run across one. Each gap gets a warning callout where it starts.
+ */
+export function renderTranscript(
+	segments: TranscriptSegment[],
+	boundaries: SessionBoundary[] = [],
+	gaps: TranscriptGap[] = [],
+): string {
+	const crossesBoundary = (from: number, to: number) =>
+		boundaries.some(boundary => boundary.startSeconds > from && boundary.startSeconds <= to);
+	const paragraphs: TranscriptSegment[] = [];
+	for (const segment of segments) {
+		const text = segment.text.trim();
+		if (!text) continue;
+
+		const last = paragraphs[paragraphs.length - 1];
+		if (
+			last &&
+			!last.speaker &&
+			!segment.speaker &&
+			segment.start - last.end <= PARAGRAPH_GAP_SECONDS &&
+			segment.end - last.start <= MAX_PARAGRAPH_SECONDS &&
+			!crossesBoundary(last.start, segment.start)
+		) {
+			last.text = joinText(last.text, text);
+			last.end = Math.max(last.end, segment.end);
+			continue;
+		}
+
+		paragraphs.push({ ...segment, text });
+	}
+
+	const blocks: string[] = [];
+	let nextBoundary = 0;
+	const orderedGaps = gaps.slice().sort((a, b) => a.startSeconds - b.startSeconds);
+	let nextGap = 0;
+	const addMarkers = (until: number) => {
+		while (nextBoundary < boundaries.length && boundaries[nextBoundary].startSeconds <= until) {
+			const boundary = boundaries[nextBoundary++];
+			blocks.push(
+				`--- Part ${nextBoundary} of ${boundaries.length}: ${boundary.name} (from ${formatTimestamp(boundary.startSeconds)}) ---`,
+			);
+		}
+		while (nextGap < orderedGaps.length && orderedGaps[nextGap].startSeconds <= until) {
+			const gap = orderedGaps[nextGap++];
+			blocks.push(
+				`> [!warning] The transcript may be incomplete from ${formatTimestamp(gap.startSeconds)} to ${formatTimestamp(gap.endSeconds)}: ${GAP_DESCRIPTIONS[gap.reason]}.`,
+			);
+		}
+	};
+	for (const paragraph of paragraphs) {
+		addMarkers(paragraph.start);
+		const label = paragraph.speaker ? `**${paragraph.speaker}:** ` : '';
+		blocks.push(`[${formatTimestamp(paragraph.start)}] ${label}${paragraph.text}`);
+	}
+	// Recordings without any speech, and gaps at the very end, still get their marker.
+	addMarkers(Infinity);
+	return blocks.join('\n\n');
+}
+
+/**
+ * Interleave the transcripts of separately transcribed channels in order of start time,
+ * labelling every segment with its channel's speaker. Consecutive segments of the same
+ * speaker are joined into one paragraph under the same gap and length limits as unlabelled
+ * paragraphs, since each of them would otherwise render with its own label. Paragraphs
+ * never run across a session boundary.
+ */
+export function mergeChannelSegments(
+	channels: Array<{ speaker: string; segments: TranscriptSegment[] }>,
+	boundaries: SessionBoundary[] = [],
+): TranscriptSegment[] {
+	const labelled: TranscriptSegment[] = [];
+	for (const channel of channels) {
+		for (const segment of channel.segments) {
+			const text = segment.text.trim();
+			if (text) labelled.push({ ...segment, speaker: channel.speaker, text });
+		}
+	}
+	labelled.sort((a, b) => a.start - b.start || a.end - b.end);
+
+	const merged: TranscriptSegment[] = [];
+	for (const segment of labelled) {
+		const last = merged[merged.length - 1];
+		if (
+			last &&
+			last.speaker === segment.speaker &&
+			segment.start - last.end <= PARAGRAPH_GAP_SECONDS &&
+			segment.end - last.start <= MAX_PARAGRAPH_SECONDS &&
+			!boundaries.some(boundary => boundary.startSeconds > last.start && boundary.startSeconds <= segment.start)
+		) {
+			last.text = joinText(last.text, segment.text);
+			last.end = Math.max(last.end, segment.end);
+			continue;
+		}
+		merged.push(segment);
+	}
+	return merged;
+}
+
+/**
+ * Where the provider and model change along the transcript, in time order. Segments
+ * without a recorded source (e.g. from older checkpoints) are skipped.
+ */
+export function summarizeTranscriptSources(segments: TranscriptSegment[]): TranscriptSource[] {
+	const sources: TranscriptSource[] = [];
+	const ordered = segments.filter(segment => segment.source).sort((a, b) => a.start - b.start);
+	for (const segment of ordered) {
+		if (sources.length && sources[sources.length - 1].source === segment.source) continue;
+		sources.push({ startSeconds: segment.start, source: segment.source as string });
+	}
+	return sources;
+}
+
+/**
+ * YAML frontmatter recording the transcript language and the provider and model behind each
+ * stretch of it, or '' when neither is known.
+ */
+export function renderTranscriptFrontmatter(language?: TranscriptLanguage, sources: TranscriptSource[] = []): string {
+	const lines: string[] = [];
+	if (language && language.codes.length) {
+		lines.push(`language: [${language.codes.join(', ')}]`, `language_source: ${language.source}`);
+	}
+	if (sources.length) {
+		lines.push('transcribed_by:');
+		sources.forEach(source => lines.push(`  - "${formatTimestamp(source.startSeconds)} ${source.source}"`));
+	}
+	return lines.length ? `---\n${lines.join('\n')}\n---\n\n` : '';
+}
+
+/**
+ * Segments of one chunk placed on the preprocessed timeline, with the chunk's bounds.
+ */
+export interface ChunkSegments {
+	startSeconds: number;
+	endSeconds?: number;
+	segments: TranscriptSegment[];
+}
+
+interface OverlapToken {
+	segment: number;
+	start: number;
+	end: number;
+	norm: string;
+}
+
+const MAX_TIMED_SEGMENT_SECONDS = 30;
+const MIN_OVERLAP_MATCH_TOKENS = 4;
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]+/g;
+const PUNCTUATION = /[.,!?;:"'()[\]{}<>\-\u2013\u2014\u2026\u3001\u3002\u300a\u300b\u300c\u300d\u300e\u300f\u201c\u201d\u2018\u2019\uff01\uff08\uff09\uff0c\uff1a\uff1b\uff1f\uff5e~*_`]/g;
+
+/**
+ * Concatenate chunk transcripts, removing text duplicated by overlapping chunk boundaries.
+ * When the segments around a seam carry fine-grained timestamps, each segment is kept by the
+ * chunk that covers its midpoint best; otherwise the longest fuzzy match between the tail of the
+ * previous chunk and the head of the next one is cut out. If neither applies both sides are kept.
+ */
+export function mergeOverlappingChunks(chunks: ChunkSegments[]): TranscriptSegment[] {
+	const merged: TranscriptSegment[] = [];
+	let previous: ChunkSegments | null = null;
+	let previousCount = 0;
+
+	for (const chunk of chunks) {
+		let segments = chunk.segments.map(segment => ({ ...segment }));
+		const overlapEnd = previous?.endSeconds;
+		if (previous && overlapEnd !== undefined && chunk.startSeconds < overlapEnd && previousCount) {
+			const overlapStart = chunk.startSeconds;
+			const previousTail = collectTail(merged, previousCount);
+			if (hasFineTimestamps(previousTail.segments, overlapStart, overlapEnd) && hasFineTimestamps(segments, overlapStart, overlapEnd)) {
+				const seam = (overlapStart + overlapEnd) / 2;
+				const keptTail = previousTail.segments.filter(segment => midpoint(segment) < seam);
+				merged.splice(previousTail.offset, previousTail.segments.length, ...keptTail);
+				segments = segments.filter(segment => midpoint(segment) >= seam);
+			} else {
+				const windowTokens = Math.max(24, Math.ceil((overlapEnd - overlapStart) * 8));
+				const cut = cutTextOverlap(previousTail.segments, segments, windowTokens);
+				if (cut) {
+					merged.splice(previousTail.offset, previousTail.segments.length, ...cut.previous);
+					segments = cut.next;
+				} else {
+					console.info('[AI Transcriber] No overlap match found at chunk seam; keeping both sides.', {
+						seamSeconds: overlapStart,
+					});
+				}
+			}
+		}
+
+		merged.push(...segments);
+		previous = chunk;
+		previousCount = segments.length;
+	}
+
+	return merged;
+}
+
+/**
+ * Whether `segments` hold too little text for `speechSeconds` of detected speech to be a
+ * complete transcript. Words are counted as in the overlap matching, each CJK character as
+ * one; conversational speech runs well above 100 of those a minute, so only transcripts that
+ * stopped early or skipped long passages fall below the limit.
+ */
+export function isSparseTranscript(segments: TranscriptSegment[], speechSeconds: number): boolean {
+	if (speechSeconds < MIN_DENSITY_SPEECH_SECONDS) return false;
+	let words = 0;
+	for (const segment of segments) {
+		words += segment.text.match(new RegExp(TOKEN_PATTERN.source, 'g'))?.length ?? 0;
+	}
+	return words < (speechSeconds / 60) * MIN_WORDS_PER_SPEECH_MINUTE;
+}
+
+function midpoint(segment: TranscriptSegment): number {
+	return (segment.start + segment.end) / 2;
+}
+
+/**
+ * The last `count` merged segments (what survived of the previous chunk) and where they begin.
+ */
+function collectTail(merged: TranscriptSegment[], count: number): { offset: number; segments: TranscriptSegment[] } {
+	const offset = Math.max(0, merged.length - count);
+	return { offset, segments: merged.slice(offset) };
+}
+
+function hasFineTimestamps(segments: TranscriptSegment[], overlapStart: number, overlapEnd: number): boolean {
+	const around = segments.filter(segment => segment.end >= overlapStart && segment.start <= overlapEnd);
+	return (
+		around.length > 0 &&
+		around.every(segment => segment.end > segment.start && segment.end - segment.start <= MAX_TIMED_SEGMENT_SECONDS)
+	);
+}
+
+function tokenize(segments: TranscriptSegment[]): OverlapToken[] {
+	const tokens: OverlapToken[] = [];
+	segments.forEach((segment, index) => {
+		const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(segment.text)) !== null) {
+			const norm = match[0].toLowerCase().replace(PUNCTUATION, '');
+			if (!norm) continue;
+			tokens.push({ segment: index, start: match.index, end: match.index + match[0].length, norm });
+		}
+	});
+	return tokens;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+	if (a === b) return true;
+	if (a.length < 4 || b.length < 4 || Math.abs(a.length - b.length) > 1) return false;
+	return editDistance(a, b) <= 1;
+}
+
+function editDistance(a: string, b: string): number {
+	let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const row = [i];
+		for (let j = 1; j <= b.length; j++) {
+			row[j] = Math.min(
+				previousRow[j] + 1,
+				row[j - 1] + 1,
+				previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previousRow = row;
+	}
+	return previousRow[b.length];
+}
+
+/**
+ * Find the longest run of matching tokens between the end of `previous` and the start of `next`,
+ * then keep `previous` up to the end of that run and `next` after it. Text outside the run at the
+ * seam (words clipped by the cut) is dropped on both sides since the other chunk has it intact.
+ */
+function cutTextOverlap(
+	previous: TranscriptSegment[],
+	next: TranscriptSegment[],
+	windowTokens: number,
+): { previous: TranscriptSegment[]; next: TranscriptSegment[] } | null {
+	const previousTokens = tokenize(previous);
+	const nextTokens = tokenize(next);
+	const tail = previousTokens.slice(-windowTokens);
+	const head = nextTokens.slice(0, windowTokens);
+	if (!tail.length || !head.length) return null;
+
+	let bestLength = 0;
+	let bestTailEnd = -1;
+	let bestHeadEnd = -1;
+	let row = new Array<number>(head.length + 1).fill(0);
+	for (let i = 1; i <= tail.length; i++) {
+		const nextRow = new Array<number>(head.length + 1).fill(0);
+		for (let j = 1; j <= head.length; j++) {
+			if (tokensMatch(tail[i - 1].norm, head[j - 1].norm)) {
+				nextRow[j] = row[j - 1] + 1;
+				if (nextRow[j] > bestLength) {
+					bestLength = nextRow[j];
+					bestTailEnd = i - 1;
+					bestHeadEnd = j - 1;
+				}
+			}
+		}
+		row = nextRow;
+	}
+
+	if (bestLength < MIN_OVERLAP_MATCH_TOKENS) return null;
+
+	const lastKept = tail[bestTailEnd];
+	const keptPrevious = previous.slice(0, lastKept.segment + 1);
+	const truncated = keptPrevious[lastKept.segment];
+	keptPrevious[lastKept.segment] = { ...truncated, text: truncated.text.substring(0, lastKept.end).trim() };
+
+	const lastDropped = head[bestHeadEnd];
+	const keptNext = next.slice(lastDropped.segment);
+	const trimmed = keptNext[0];
+	keptNext[0] = { ...trimmed, text: trimmed.text.substring(lastDropped.end).replace(/^[\s.,!?;:\u3001\u3002\uff01\uff0c\uff1a\uff1b\uff1f]+/, '') };
+
+	return {
+		previous: keptPrevious.filter(segment => segment.text),
+		next: keptNext.filter(segment => segment.text),
+	};
+}
@@ -0,0 +1,131 @@
+import { TranslationLayout } from '../settings/types';
+import { describeLanguages } from './language';
+import { SESSION_MARKER } from './transcript';
+
+/**
+ * Translation chosen for one job.
+ */
+export interface TranslationRequest {
+	/** ISO 639-1 code of the language to translate into. */
+	targetLanguage: string;
+	layout: TranslationLayout;
+}
+
+/**
+ * One transcript paragraph split into the part kept verbatim ("[HH:MM:SS] **Speaker 1:** ")
+ * and the text that gets translated.
+ */
+export interface TranscriptParagraph {
+	prefix: string;
+	body: string;
+}
+
+const PARAGRAPH_PREFIX = /^(?:\[(?:\d{1,2}:)?\d{1,2}:\d{2}(?:\.\d+)?\]\s*)?(?:\*\*[^*\n]{1,60}?:\*\*\s*|\*\*[^*\n]{1,60}?\*\*[:：]\s*|Speaker \d+[:：]\s*)?/;
+const PARAGRAPH_MARKER = /^@@(\d+)@@[ \t]*/gm;
+
+/**
+ * Split a rendered transcript into paragraphs, separating timestamps and speaker labels
+ * so they never pass through the model. Session markers are kept whole as a prefix.
+ */
+export function splitTranscriptParagraphs(text: string): TranscriptParagraph[] {
+	return text
+		.replace(/\r\n/g, '\n')
+		.split(/\n\s*\n/)
+		.map(paragraph => paragraph.trim())
+		.filter(Boolean)
+		.map(paragraph => {
+			if (SESSION_MARKER.test(paragraph)) {
+				return { prefix: paragraph, body: '' };
+			}
+			const prefix = paragraph.match(PARAGRAPH_PREFIX)?.[0] ?? '';
+			return { prefix, body: paragraph.substring(prefix.length).trim() };
+		});
+}
+
+/**
+ * Group consecutive paragraphs into batches of roughly `maxChars` characters.
+ * Returns [start, end) paragraph index ranges.
+ */
+export function batchParagraphs(paragraphs: TranscriptParagraph[], maxChars: number): Array<[number, number]> {
+	const batches: Array<[number, number]> = [];
+	let start = 0;
+	let size = 0;
+	paragraphs.forEach((paragraph, index) => {
+		if (index > start && size + paragraph.body.length > maxChars) {
+			batches.push([start, index]);
+			start = index;
+			size = 0;
+		}
+		size += paragraph.body.length;
+	});
+	if (start < paragraphs.length) {
+		batches.push([start, paragraphs.length]);
+	}
+	return batches;
+}
+
+/**
+ * Prompt translating the given paragraph bodies, each tagged with a marker the reply must repeat.
+ */
+export function buildTranslationPrompt(bodies: string[], targetLanguage: string, contextBlock: string): string {
+	const target = describeLanguages([targetLanguage]);
+	const numbered = bodies.map((body, index) => `@@${index + 1}@@ ${body}`).join('\n\n');
+	return (
+		`Translate the following transcript paragraphs into ${target}.\n\n` +
+		'Rules:\n' +
+		'- Translate every paragraph completely and faithfully. Do not summarize, merge, split, reorder or omit paragraphs.\n' +
+		'- Keep the marker (e.g. "@@1@@") at the start of each paragraph exactly as given, one paragraph per marker.\n' +
+		`- Paragraphs already in ${target} are copied unchanged.\n` +
+		'- Keep names, numbers and technical terms accurate; keep filler words only where they carry meaning.\n' +
+		'- Output only the translated paragraphs, without any explanation.\n\n' +
+		contextBlock +
+		`【Paragraphs】\n${numbered}`
+	);
+}
+
+/**
+ * Pull the translated paragraphs back out of a reply, by marker.
+ * Paragraphs the model left out come back as null.
+ */
+export function parseTranslationResponse(response: string, count: number): Array<string | null> {
+	const translations: Array<string | null> = new Array(count).fill(null);
+	const markers: Array<{ index: number; start: number; end: number }> = [];
+	const pattern = new RegExp(PARAGRAPH_MARKER.source, 'gm');
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(response)) !== null) {
+		markers.push({ index: Number(match[1]) - 1, start: match.index, end: match.index + match[0].length });
+	}
+	markers.forEach((marker, position) => {
+		const next = markers[position + 1];
+		const text = response.substring(marker.end, next ? next.start : response.length).trim();
+		if (marker.index >= 0 && marker.index < count && text && translations[marker.index] === null) {
+			translations[marker.index] = text;
+		}
+	});
+	return translations;
+}
+
+/**
+ * Reassemble the translated transcript. The bilingual layout keeps each original paragraph
+ * followed by its translation as a quote.
+ */
+export function renderTranslatedTranscript(
+	paragraphs: TranscriptParagraph[],
+	translations: string[],
+	layout: TranslationLayout,
+): string {
+	return paragraphs
+		.map((paragraph, index) => {
+			if (!paragraph.body) return paragraph.prefix;
+			const translated = translations[index] ?? paragraph.body;
+			if (layout === 'bilingual') {
+				const quoted = translated
+					.split('\n')
+					.map(line => `> ${line}`)
+					.join('\n');
+				return `${paragraph.prefix}${paragraph.body}\n\n${quoted}`;
+			}
+			return `${paragraph.prefix}${translated}`;
+		})
+		.join('\n\n');
+}
@@ -0,0 +1,236 @@
+import { App, normalizePath } from 'obsidian';
+import { ModelPrice } from '../settings/types';
+
+export type UsageKind = 'transcription' | 'edit' | 'translation';
+
+/**
+ * Audio sent for one transcription request, reported by `TranscriberService`.
+ */
+export interface AudioUsage {
+	provider: string;
+	model: string;
+	/** One-based chunk index. */
+	chunkIndex: number;
+	audioSeconds: number;
+}
+
+/**
+ * Token counts returned by one editor request, reported by `EditorService`.
+ */
+export interface TokenUsage {
+	provider: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/**
+ * One line of the ledger: a single provider request.
+ */
+export interface UsageRecord {
+	timestamp: number;
+	kind: UsageKind;
+	provider: string;
+	model: string;
+	/** Base name of the recording or note the job worked on. */
+	source?: string;
+	/** System prompt template chosen for the job. */
+	template?: string;
+	chunkIndex?: number;
+	audioSeconds?: number;
+	inputTokens?: number;
+	outputTokens?: number;
+}
+
+export interface UsageTotals {
+	requests: number;
+	audioSeconds: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** Estimated cost of the priced requests. */
+	cost: number;
+	/** Requests whose model has no entry in the price table. */
+	unpriced: number;
+}
+
+export interface UsageSummary {
+	total: UsageTotals;
+	/** Newest day first; keys are local dates (YYYY-MM-DD). */
+	byDay: Array<[string, UsageTotals]>;
+	/** Most expensive first. */
+	byModel: Array<[string, UsageTotals]>;
+	/** Most expensive first; jobs without a template are grouped under ''. */
+	byTemplate: Array<[string, UsageTotals]>;
+}
+
+/**
+ * Append-only JSON Lines ledger under the plugin folder. Appends are serialized so parallel
+ * chunks never interleave partial lines.
+ */
+export class UsageLedger {
+	private app: App;
+	private path: string;
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.path = normalizePath(path);
+	}
+
+	append(record: UsageRecord): Promise<void> {
+		const write = this.writes.then(async () => {
+			const line = `${JSON.stringify(record)}\n`;
+			if (await this.app.vault.adapter.exists(this.path)) {
+				await this.app.vault.adapter.append(this.path, line);
+			} else {
+				await this.app.vault.adapter.write(this.path, line);
+			}
+		});
+		this.writes = write.catch(() => undefined);
+		return write;
+	}
+
+	async list(): Promise<UsageRecord[]> {
+		await this.writes;
+		if (!(await this.app.vault.adapter.exists(this.path))) {
+			return [];
+		}
+		const records: UsageRecord[] = [];
+		for (const line of (await this.app.vault.adapter.read(this.path)).split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				records.push(JSON.parse(line) as UsageRecord);
+			} catch (error) {
+				console.warn('[AI Transcriber] Ignoring unreadable usage record:', line, error);
+			}
+		}
+		return records;
+	}
+
+	/**
+	 * Delete the ledger and return how many records it held.
+	 */
+	async clear(): Promise<number> {
+		const count = (await this.list()).length;
+		if (await this.app.vault.adapter.exists(this.path)) {
+			await this.app.vault.adapter.remove(this.path);
+		}
+		return count;
+	}
+}
+
+/**
+ * Parse the settings text format, one model per line:
+ * `model | per audio minute | per 1M input tokens | per 1M output tokens`. Missing prices are 0.
+ */
+export function parsePriceTableText(text: string): ModelPrice[] {
+	const prices: ModelPrice[] = [];
+	for (const line of text.split('\n')) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith('#')) continue;
+		const [model, audio, input, output] = trimmed.split('|').map(part => part.trim());
+		if (!model) continue;
+		const toPrice = (value?: string) => {
+			const parsed = parseFloat(value ?? '');
+			return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+		};
+		prices.push({
+			model,
+			audioPerMinute: toPrice(audio),
+			inputPerMillion: toPrice(input),
+			outputPerMillion: toPrice(output),
+		});
+	}
+	return prices;
+}
+
+export function formatPriceTableText(prices: ModelPrice[]): string {
+	return prices
+		.map(price => [price.model, price.audioPerMinute, price.inputPerMillion, price.outputPerMillion].join(' | '))
+		.join('\n');
+}
+
+/**
+ * The price whose model name is the longest case-insensitive prefix of `model`, so
+ * "gemini-2.5-pro" also prices "gemini-2.5-pro-preview-06-05".
+ */
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | undefined {
+	const lower = model.toLowerCase();
+	let best: ModelPrice | undefined;
+	for (const price of prices) {
+		const name = price.model.toLowerCase();
+		if (lower.startsWith(name) && (!best || name.length > best.model.length)) {
+			best = price;
+		}
+	}
+	return best;
+}
+
+/**
+ * Estimated cost of one request, or null when its model is not in the price table.
+ */
+export function estimateCost(record: UsageRecord, prices: ModelPrice[]): number | null {
+	const price = findModelPrice(prices, record.model);
+	if (!price) return null;
+	return (
+		((record.audioSeconds ?? 0) / 60) * price.audioPerMinute +
+		((record.inputTokens ?? 0) / 1e6) * price.inputPerMillion +
+		((record.outputTokens ?? 0) / 1e6) * price.outputPerMillion
+	);
+}
+
+/**
+ * Totals overall and grouped by local day, model and template.
+ */
+export function summarizeUsage(records: UsageRecord[], prices: ModelPrice[]): UsageSummary {
+	const total = emptyTotals();
+	const byDay = new Map<string, UsageTotals>();
+	const byModel = new Map<string, UsageTotals>();
+	const byTemplate = new Map<string, UsageTotals>();
+	const add = (groups: Map<string, UsageTotals>, key: string, record: UsageRecord, cost: number | null) => {
+		let totals = groups.get(key);
+		if (!totals) {
+			totals = emptyTotals();
+			groups.set(key, totals);
+		}
+		addToTotals(totals, record, cost);
+	};
+
+	for (const record of records) {
+		const cost = estimateCost(record, prices);
+		addToTotals(total, record, cost);
+		add(byDay, formatLocalDate(record.timestamp), record, cost);
+		add(byModel, `${record.provider} / ${record.model}`, record, cost);
+		add(byTemplate, record.template ?? '', record, cost);
+	}
+
+	const byCost = (a: [string, UsageTotals], b: [string, UsageTotals]) => b[1].cost - a[1].cost;
+	return {
+		total,
+		byDay: Array.from(byDay.entries()).sort((a, b) => b[0].localeCompare(a[0])),
+		byModel: Array.from(byModel.entries()).sort(byCost),
+		byTemplate: Array.from(byTemplate.entries()).sort(byCost),
+	};
+}
+
+function emptyTotals(): UsageTotals {
+	return { requests: 0, audioSeconds: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord, cost: number | null): void {
+	totals.requests++;
+	totals.audioSeconds += record.audioSeconds ?? 0;
+	totals.inputTokens += record.inputTokens ?? 0;
+	totals.outputTokens += record.outputTokens ?? 0;
+	if (cost === null) {
+		totals.unpriced++;
+	} else {
+		totals.cost += cost;
+	}
+}
+
+function formatLocalDate(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Frame-based voice activity detection on mono PCM, used to decide where chunks
+ * may be cut and which stretches can be dropped before upload.
+ *
+ * The functions below are also injected into the inline preprocessing worker with
+ * `Function.prototype.toString`, so each one must stay self-contained: no imports,
+ * no module-level constants and no calls to other functions in this file.
+ */
+
+export interface VadOptions {
+	sampleRate: number;
+	/** Frame RMS a frame needs before it can count as speech. */
+	energyThreshold: number;
+	frameSeconds: number;
+	/** Zero-crossing rate band (crossings per sample) of voiced speech; hum sits below it, hiss above. */
+	minZcr: number;
+	maxZcr: number;
+	/** Frames this many times above the energy threshold count as speech unless they are noise-like. */
+	loudFactor: number;
+	/** Zero-crossing rate above which even a loud frame is treated as broadband noise. */
+	noiseZcr: number;
+	/** Consecutive speech frames needed to open a region, so clicks and key presses are ignored. */
+	minSpeechFrames: number;
+	/** Frames a region stays open after the last speech frame. */
+	hangoverFrames: number;
+	/** Frames kept before a region's first speech frame so soft onsets are not clipped. */
+	preRollFrames: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: Omit<VadOptions, 'sampleRate' | 'energyThreshold'> = {
+	frameSeconds: 0.02,
+	minZcr: 0.01,
+	maxZcr: 0.35,
+	loudFactor: 4,
+	noiseZcr: 0.45,
+	minSpeechFrames: 4,
+	hangoverFrames: 20,
+	preRollFrames: 5,
+};
+
+/**
+ * Return speech regions as flattened [startSample, endSample, ...] pairs in ascending order.
+ */
+export function detectSpeechRegions(data: Float32Array, options: VadOptions): number[] {
+	const frameSamples = Math.max(2, Math.round(options.sampleRate * options.frameSeconds));
+	const frameCount = Math.ceil(data.length / frameSamples);
+	const regions: number[] = [];
+	let run = 0;
+	let hangover = 0;
+	let regionStart = -1;
+
+	for (let f = 0; f < frameCount; f++) {
+		const start = f * frameSamples;
+		const end = Math.min(start + frameSamples, data.length);
+		let sumSquares = 0;
+		let crossings = 0;
+		for (let i = start; i < end; i++) {
+			sumSquares += data[i] * data[i];
+			if (i > start && (data[i] >= 0) !== (data[i - 1] >= 0)) {
+				crossings++;
+			}
+		}
+		const length = end - start;
+		const rms = Math.sqrt(sumSquares / length);
+		const zcr = length > 1 ? crossings / (length - 1) : 0;
+		const isSpeech =
+			(rms > options.energyThreshold && zcr >= options.minZcr && zcr <= options.maxZcr) ||
+			(rms > options.energyThreshold * options.loudFactor && zcr <= options.noiseZcr);
+		run = isSpeech ? run + 1 : 0;
+
+		if (regionStart < 0) {
+			if (run >= options.minSpeechFrames) {
+				regionStart = Math.max(0, (f - run + 1 - options.preRollFrames) * frameSamples);
+				// Pre-roll can reach back into the previous region; join them instead.
+				if (regions.length && regionStart <= regions[regions.length - 1]) {
+					regionStart = regions[regions.length - 2];
+					regions.length -= 2;
+				}
+				hangover = options.hangoverFrames;
+			}
+		} else if (isSpeech) {
+			hangover = options.hangoverFrames;
+		} else if (--hangover <= 0) {
+			regions.push(regionStart, end);
+			regionStart = -1;
+		}
+	}
+
+	if (regionStart >= 0) {
+		regions.push(regionStart, data.length);
+	}
+	return regions;
+}
+
+/**
+ * Pick a cut point inside a non-speech gap near `desiredSplit`: the latest one within
+ * `searchRange` before it, otherwise the earliest one within `searchRange` after it.
+ * Returns null when speech covers the whole search range.
+ */
+export function findNonSpeechSplitPoint(
+	regions: number[],
+	desiredSplit: number,
+	minSplit: number,
+	totalSamples: number,
+	searchRange: number,
+): number | null {
+	const low = Math.max(minSplit + 1, desiredSplit - searchRange);
+	const high = Math.min(totalSamples - 1, desiredSplit + searchRange);
+	let before: number | null = null;
+	let after: number | null = null;
+	let gapStart = 0;
+
+	for (let r = 0; r <= regions.length; r += 2) {
+		const gapEnd = r < regions.length ? regions[r] : totalSamples;
+		if (gapEnd > gapStart) {
+			const middle = Math.floor((gapStart + gapEnd) / 2);
+			const earliest = Math.max(gapStart, low);
+			const latest = Math.min(gapEnd - 1, desiredSplit);
+			if (earliest <= latest) {
+				before = Math.min(Math.max(middle, earliest), latest);
+			}
+			const forwardStart = Math.max(gapStart, desiredSplit + 1);
+			const forwardEnd = Math.min(gapEnd - 1, high);
+			if (after === null && forwardStart <= forwardEnd) {
+				after = Math.min(Math.max(middle, forwardStart), forwardEnd);
+			}
+		}
+		if (r + 1 < regions.length) {
+			gapStart = regions[r + 1];
+		}
+	}
+
+	return before !== null ? before : after;
+}
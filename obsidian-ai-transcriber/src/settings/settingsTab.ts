@@ -1,12 +1,36 @@
 import { App, PluginSettingTab, Setting, Modal, TextComponent, TextAreaComponent, Notice } from 'obsidian';
 import ObsidianAITranscriber from '../../main';
-import { SystemPromptTemplate } from './types';
+import {
+	ChunkFormat,
+	DEFAULT_SETTINGS,
+	GlossaryEntry,
+	NormalizationMode,
+	PreprocessingProfile,
+	ProviderFallback,
+	ProviderOptionValue,
+	SystemPromptTemplate,
+	TranscriptionPromptTemplate,
+	TranslationLayout,
+} from './types';
 import { t } from '../i18n';
+import { transcriptionProviders } from '../services/providers/registry';
+import { TranscriptionProvider } from '../services/providers/types';
+import { normalizeLanguage, parseLanguageList } from '../services/language';
+import { formatGlossaryText, parseGlossaryText } from '../services/glossary';
+import { formatPriceTableText, parsePriceTableText } from '../services/usage';
+
+/** Preprocessing profile fields edited as plain numbers. */
+type NumericProfileKey = { [K in keyof PreprocessingProfile]: PreprocessingProfile[K] extends number ? K : never }[keyof PreprocessingProfile];
+
+/** Which template list an import or export works on. */
+type TemplateKind = 'editor' | 'transcription';
 
 export default class SettingsTab extends PluginSettingTab {
 	plugin: ObsidianAITranscriber;
 	private saveDebounceTimer: number | null = null;
 	private readonly SAVE_DEBOUNCE_MS = 500;
+	/** Project glossary shown in the editor below the shared glossary. */
+	private selectedGlossaryProject = '';
 
 	constructor(app: App, plugin: ObsidianAITranscriber) {
 		super(app, plugin);
@@ -41,15 +65,15 @@ export default class SettingsTab extends PluginSettingTab {
 		return `${candidate} (${i})`;
 	}
 
-	private exportTemplates(): void {
-		const payload = {
-			version: 1,
-			activeTemplateName: this.plugin.settings.editor.activeSystemPromptTemplateName,
-			templates: this.plugin.settings.editor.systemPromptTemplates,
-		};
+	private exportTemplates(kind: TemplateKind = 'editor'): void {
+		const { transcriber, editor } = this.plugin.settings;
+		const payload =
+			kind === 'transcription'
+				? { version: 1, kind, activeTemplateName: transcriber.activePromptTemplateName, templates: transcriber.promptTemplates }
+				: { version: 1, activeTemplateName: editor.activeSystemPromptTemplateName, templates: editor.systemPromptTemplates };
 		const json = JSON.stringify(payload, null, 2);
 		const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-		const filename = `ai-transcriber-templates-${timestamp}.json`;
+		const filename = `ai-transcriber-${kind === 'transcription' ? 'transcription-prompts' : 'templates'}-${timestamp}.json`;
 		const blob = new Blob([json], { type: 'application/json' });
 		const url = URL.createObjectURL(blob);
 		const anchor = document.createElement('a');
@@ -60,7 +84,7 @@ export default class SettingsTab extends PluginSettingTab {
 		new Notice(t('noticeTemplatesExported', { filename }));
 	}
 
-	private async importTemplatesFromFile(): Promise<void> {
+	private async importTemplatesFromFile(kind: TemplateKind = 'editor'): Promise<void> {
 		const input = document.createElement('input');
 		input.type = 'file';
 		input.accept = '.json,application/json';
@@ -113,14 +137,15 @@ export default class SettingsTab extends PluginSettingTab {
 			return;
 		}
 
+		const { transcriber, editor } = this.plugin.settings;
 		const existingNames = new Set(
-			this.plugin.settings.editor.systemPromptTemplates.map(template => template.name),
+			(kind === 'transcription' ? transcriber.promptTemplates : editor.systemPromptTemplates).map(template => template.name),
 		);
 
-		const imported: SystemPromptTemplate[] = [];
+		const imported: TranscriptionPromptTemplate[] = [];
 		for (const item of importData.templates) {
 			if (!item || typeof item !== 'object') continue;
-			const candidate = item as { name?: unknown; prompt?: unknown };
+			const candidate = item as { name?: unknown; prompt?: unknown; hint?: unknown };
 			if (typeof candidate.prompt !== 'string') continue;
 			const baseName = typeof candidate.name === 'string' ? candidate.name : 'Imported Template';
 			const uniqueName = this.ensureUniqueTemplateName(baseName, existingNames);
@@ -128,6 +153,7 @@ export default class SettingsTab extends PluginSettingTab {
 			imported.push({
 				name: uniqueName,
 				prompt: candidate.prompt,
+				hint: typeof candidate.hint === 'string' ? candidate.hint : '',
 			});
 		}
 
@@ -136,14 +162,17 @@ export default class SettingsTab extends PluginSettingTab {
 			return;
 		}
 
-		this.plugin.settings.editor.systemPromptTemplates.push(...imported);
-		if (
+		const importedActive =
 			typeof importData.activeTemplateName === 'string' &&
 			imported.some(template => template.name === importData.activeTemplateName)
-		) {
-			this.plugin.settings.editor.activeSystemPromptTemplateName = importData.activeTemplateName;
-		} else if (!this.plugin.settings.editor.activeSystemPromptTemplateName) {
-			this.plugin.settings.editor.activeSystemPromptTemplateName = imported[0].name;
+				? importData.activeTemplateName
+				: undefined;
+		if (kind === 'transcription') {
+			transcriber.promptTemplates.push(...imported);
+			transcriber.activePromptTemplateName = importedActive ?? (transcriber.activePromptTemplateName || imported[0].name);
+		} else {
+			editor.systemPromptTemplates.push(...imported.map(({ name, prompt }): SystemPromptTemplate => ({ name, prompt })));
+			editor.activeSystemPromptTemplateName = importedActive ?? (editor.activeSystemPromptTemplateName || imported[0].name);
 		}
 
 		await this.flushPendingSave();
@@ -182,6 +211,425 @@ export default class SettingsTab extends PluginSettingTab {
 		return template;
 	}
 
+	/**
+	 * Render the fields declared by a transcription provider's settings schema.
+	 */
+	private renderProviderFields(containerEl: HTMLElement, provider: TranscriptionProvider): void {
+		const transcriber = this.plugin.settings.transcriber;
+		const options = transcriptionProviders.getOptions(provider, transcriber);
+		const setOption = (key: string, value: ProviderOptionValue) => {
+			transcriber.providerOptions = transcriber.providerOptions ?? {};
+			transcriber.providerOptions[provider.id] = {
+				...(transcriber.providerOptions[provider.id] ?? {}),
+				[key]: value,
+			};
+		};
+
+		for (const field of provider.settingsSchema) {
+			const setting = new Setting(containerEl).setName(field.name).setDesc(field.desc);
+			if (field.type === 'toggle') {
+				setting.addToggle(toggle => toggle
+					.setValue(options[field.key] === true)
+					.onChange(async (value) => {
+						setOption(field.key, value);
+						await this.flushPendingSave();
+					})
+				);
+			} else if (field.type === 'textarea') {
+				setting.addTextArea(textArea => textArea
+					.setPlaceholder(field.placeholder ?? '')
+					.setValue(String(options[field.key] ?? ''))
+					.onChange((value) => {
+						setOption(field.key, value);
+						this.scheduleSave();
+					})
+				);
+			} else {
+				setting.addText(text => {
+					if (field.type === 'password') {
+						text.inputEl.type = 'password';
+					}
+					text.setPlaceholder(field.placeholder ?? '')
+						.setValue(String(options[field.key] ?? ''))
+						.onChange((value) => {
+							setOption(field.key, value);
+							this.scheduleSave();
+						});
+				});
+			}
+		}
+	}
+
+	/**
+	 * One row per fallback provider, tried in order after the configured one, plus an add button.
+	 * `save` receives a new array on every change; `load` returns the current one.
+	 */
+	private renderProviderFallbacks<Provider extends string>(
+		containerEl: HTMLElement,
+		providers: { id: Provider; name: string }[],
+		load: () => ProviderFallback<Provider>[],
+		save: (fallbacks: ProviderFallback<Provider>[]) => void,
+	): void {
+		const update = (index: number, changes: Partial<ProviderFallback<Provider>>) => {
+			save(load().map((fallback, i) => (i === index ? { ...fallback, ...changes } : fallback)));
+		};
+
+		load().forEach((fallback, index) => {
+			new Setting(containerEl)
+				.setName(`Fallback ${index + 1}`)
+				.addDropdown(drop => {
+					providers.forEach(provider => drop.addOption(provider.id, provider.name));
+					drop.setValue(fallback.provider)
+						.onChange((value) => {
+							update(index, { provider: value as Provider });
+							this.scheduleSave();
+						});
+				})
+				.addText(text => text
+					.setPlaceholder('Model')
+					.setValue(fallback.model)
+					.onChange((value) => {
+						update(index, { model: value.trim() });
+						this.scheduleSave();
+					})
+				)
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.setPlaceholder('API key (empty: main key, same provider only)')
+						.setValue(fallback.apiKey)
+						.onChange((value) => {
+							update(index, { apiKey: value });
+							this.scheduleSave();
+						});
+				})
+				.addButton(button => button
+					.setButtonText('Remove')
+					.setWarning()
+					.onClick(async () => {
+						save(load().filter((_, i) => i !== index));
+						await this.flushPendingSave();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('Fallback Providers')
+			.setDesc('Tried in order when a request still fails on the provider above after its retries, e.g. during an outage or when a quota runs out.')
+			.addButton(button => button
+				.setButtonText('Add Fallback')
+				.onClick(async () => {
+					save([...load(), { provider: providers[0].id, model: '', apiKey: '' }]);
+					await this.flushPendingSave();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Profile selector plus editable fields for the active preprocessing profile.
+	 */
+	private renderPreprocessingProfiles(containerEl: HTMLElement): void {
+		const transcriber = this.plugin.settings.transcriber;
+		const profiles = transcriber.preprocessingProfiles;
+		const active = profiles.find(profile => profile.name === transcriber.activePreprocessingProfileName) ?? profiles[0];
+
+		containerEl.createEl('h3', { text: 'Audio Preprocessing Profiles' });
+		new Setting(containerEl)
+			.setName('Default Profile')
+			.setDesc('Silence detection and chunking parameters used when a job does not pick another profile.')
+			.addDropdown(dropdown => {
+				profiles.forEach(profile => {
+					dropdown.addOption(profile.name, profile.name);
+				});
+				dropdown.setValue(active?.name ?? '')
+					.onChange(async (value) => {
+						transcriber.activePreprocessingProfileName = value;
+						await this.flushPendingSave();
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Duplicate')
+				.onClick(async () => {
+					if (!active) return;
+					const existing = new Set(profiles.map(profile => profile.name));
+					const copy: PreprocessingProfile = { ...active, name: this.ensureUniqueTemplateName(`${active.name} copy`, existing) };
+					profiles.push(copy);
+					transcriber.activePreprocessingProfileName = copy.name;
+					await this.flushPendingSave();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.setDisabled(profiles.length <= 1)
+				.onClick(async () => {
+					if (!active || profiles.length <= 1) return;
+					transcriber.preprocessingProfiles = profiles.filter(profile => profile !== active);
+					transcriber.activePreprocessingProfileName = transcriber.preprocessingProfiles[0].name;
+					await this.flushPendingSave();
+					this.display();
+				}));
+
+		if (!active) return;
+
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.addText(text => {
+				text.setValue(active.name);
+				text.inputEl.onblur = async () => {
+					const newName = text.getValue().trim();
+					if (!newName || newName === active.name) {
+						text.setValue(active.name);
+						return;
+					}
+					if (profiles.some(profile => profile.name === newName)) {
+						new Notice(`Profile name "${newName}" already exists. Please choose a different name.`);
+						text.setValue(active.name);
+						return;
+					}
+					active.name = newName;
+					transcriber.activePreprocessingProfileName = newName;
+					await this.flushPendingSave();
+					this.display();
+				};
+			});
+
+		const addNumber = (
+			key: NumericProfileKey,
+			name: string,
+			desc: string,
+			min: number,
+			max: number,
+		) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder(`${min}-${max}`)
+					.setValue(String(active[key]))
+					.onChange((value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= min && num <= max) {
+							active[key] = num;
+							this.scheduleSave();
+						}
+					})
+				);
+		};
+
+		new Setting(containerEl)
+			.setName('Adaptive Silence Threshold')
+			.setDesc('Measure the recording\'s noise floor and speech level and derive silence thresholds from them. The fixed threshold below is used when this is off or the recording has no clear quiet parts.')
+			.addToggle(toggle => toggle
+				.setValue(active.adaptiveThreshold)
+				.onChange((value) => {
+					active.adaptiveThreshold = value;
+					this.scheduleSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Voice Activity Detection')
+			.setDesc('Detect speech from frame energy and zero-crossing rate so hum, fans and typing are not treated as speech. Chunks are cut and long stretches trimmed only outside detected speech.')
+			.addToggle(toggle => toggle
+				.setValue(active.voiceActivityDetection)
+				.onChange((value) => {
+					active.voiceActivityDetection = value;
+					this.scheduleSave();
+				})
+			);
+		addNumber('silenceThreshold', 'Silence Threshold', 'Sample amplitude (0-1) below which audio counts as silence. Raise it for rooms with a noticeable noise floor.', 0, 1);
+		addNumber('silenceWindowSeconds', 'Silence Window (seconds)', 'Length of silence required at a split point.', 0.05, 5);
+		addNumber('searchRangeSeconds', 'Split Search Range (seconds)', 'How far before/after the target chunk length to look for silence.', 0, 60);
+		addNumber('minSilenceTrimSeconds', 'Trim Silences Longer Than (seconds)', 'Silences at least this long are removed before upload when the provider allows it.', 0.5, 60);
+		addNumber('minChunkSeconds', 'Minimum Chunk Length (seconds)', 'Chunks shorter than this are dropped.', 0, 60);
+		addNumber('maxChunkSeconds', 'Maximum Chunk Length (seconds)', '0 uses the provider limit (600 s OpenAI, 900 s Gemini). Larger values are capped at the provider limit.', 0, 3600);
+		addNumber('concurrency', 'Parallel Chunks', '0 uses the provider default.', 0, 10);
+		new Setting(containerEl)
+			.setName('Normalization')
+			.setDesc('Raise or lower the level before chunking so quiet speakers reach the model. Peak normalizes the loudest sample, RMS the average level of speech, Loudness the perceived level (LUFS). The level is measured over the audio so far, so the gain settles within the first seconds.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('peak', 'Peak')
+				.addOption('rms', 'RMS')
+				.addOption('loudness', 'Loudness')
+				.setValue(active.normalization)
+				.onChange((value) => {
+					active.normalization = value as NormalizationMode;
+					this.scheduleSave();
+				})
+			);
+		addNumber('normalizationTargetDb', 'Normalization Target (dB)', 'dBFS for Peak and RMS, LUFS for Loudness. -23 suits speech; use a value near -1 for Peak.', -60, 0);
+		addNumber('maxGainDb', 'Maximum Boost (dB)', 'Normalization never raises the level by more than this, so near-silent recordings are not turned into noise.', 0, 60);
+		new Setting(containerEl)
+			.setName('Compression')
+			.setDesc('Pull loud passages down towards the normalization target so quiet and loud voices come out at similar levels, e.g. remote participants on a speakerphone.')
+			.addToggle(toggle => toggle
+				.setValue(active.compression)
+				.onChange((value) => {
+					active.compression = value;
+					this.scheduleSave();
+				})
+			);
+		addNumber('compressionThresholdDb', 'Compression Threshold (dBFS)', 'Level above which compression starts.', -60, 0);
+		addNumber('compressionRatio', 'Compression Ratio', 'How strongly levels above the threshold are reduced: 3 turns 3 dB over the threshold into 1 dB.', 1, 20);
+		new Setting(containerEl)
+			.setName('Limiter')
+			.setDesc('Reduce the gain just enough that no sample exceeds the ceiling, instead of clipping boosted audio.')
+			.addToggle(toggle => toggle
+				.setValue(active.limiter)
+				.onChange((value) => {
+					active.limiter = value;
+					this.scheduleSave();
+				})
+			);
+		addNumber('limiterCeilingDb', 'Limiter Ceiling (dBFS)', 'Highest sample level the limiter lets through.', -20, 0);
+		new Setting(containerEl)
+			.setName('High-Pass Filter')
+			.setDesc('Remove rumble from traffic, engines, air conditioning and handling noise below the cutoff.')
+			.addToggle(toggle => toggle
+				.setValue(active.highPassFilter)
+				.onChange((value) => {
+					active.highPassFilter = value;
+					this.scheduleSave();
+				})
+			);
+		addNumber('highPassHz', 'High-Pass Cutoff (Hz)', '80 keeps all of the voice; up to 150 for cars and phone lines.', 20, 300);
+		new Setting(containerEl)
+			.setName('Hum Notch')
+			.setDesc('Notch out mains hum and its harmonics. Pick the mains frequency where the recording was made.')
+			.addDropdown(dropdown => dropdown
+				.addOption('0', 'Off')
+				.addOption('50', '50 Hz')
+				.addOption('60', '60 Hz')
+				.setValue(String(active.humNotchHz))
+				.onChange((value) => {
+					active.humNotchHz = parseInt(value, 10);
+					this.scheduleSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Noise Reduction')
+			.setDesc('Learn the background noise spectrum from stretches without speech and attenuate it throughout, e.g. open-plan offices, fans and car noise. Works best with voice activity detection on.')
+			.addToggle(toggle => toggle
+				.setValue(active.noiseReduction)
+				.onChange((value) => {
+					active.noiseReduction = value;
+					this.scheduleSave();
+				})
+			);
+		addNumber('noiseReductionDb', 'Noise Reduction Depth (dB)', 'Most the noise is attenuated. Higher values remove more noise but can make speech sound hollow.', 3, 40);
+	}
+
+	/**
+	 * Transcription prompt template selector plus editable fields for the active template.
+	 */
+	private renderTranscriptionPromptTemplates(containerEl: HTMLElement): void {
+		const transcriber = this.plugin.settings.transcriber;
+		const templates = transcriber.promptTemplates;
+		const active = templates.find(template => template.name === transcriber.activePromptTemplateName) ?? templates[0];
+
+		containerEl.createEl('h3', { text: 'Transcription Prompt Templates' });
+		new Setting(containerEl)
+			.setName('Default Template')
+			.setDesc('Prompt used when a job does not pick another template in the template picker.')
+			.addDropdown(dropdown => {
+				templates.forEach(template => {
+					dropdown.addOption(template.name, template.name);
+				});
+				dropdown.setValue(active?.name ?? '')
+					.onChange(async (value) => {
+						transcriber.activePromptTemplateName = value;
+						await this.flushPendingSave();
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Duplicate')
+				.onClick(async () => {
+					if (!active) return;
+					const existing = new Set(templates.map(template => template.name));
+					const copy: TranscriptionPromptTemplate = { ...active, name: this.ensureUniqueTemplateName(`${active.name} copy`, existing) };
+					templates.push(copy);
+					transcriber.activePromptTemplateName = copy.name;
+					await this.flushPendingSave();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.setDisabled(templates.length <= 1)
+				.onClick(async () => {
+					if (!active || templates.length <= 1) return;
+					transcriber.promptTemplates = templates.filter(template => template !== active);
+					transcriber.activePromptTemplateName = transcriber.promptTemplates[0].name;
+					await this.flushPendingSave();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingsTemplateImportExport'))
+			.setDesc('Share transcription prompt templates as JSON files.')
+			.addButton(button => button
+				.setButtonText(t('settingsExportTemplates'))
+				.onClick(() => this.exportTemplates('transcription')))
+			.addButton(button => button
+				.setButtonText(t('settingsImportTemplates'))
+				.onClick(async () => {
+					await this.importTemplatesFromFile('transcription');
+				}));
+
+		if (!active) return;
+
+		new Setting(containerEl)
+			.setName('Template Name')
+			.addText(text => {
+				text.setValue(active.name);
+				text.inputEl.onblur = async () => {
+					const newName = text.getValue().trim();
+					if (!newName || newName === active.name) {
+						text.setValue(active.name);
+						return;
+					}
+					if (templates.some(template => template.name === newName)) {
+						new Notice(`Template name "${newName}" already exists. Please choose a different name.`);
+						text.setValue(active.name);
+						return;
+					}
+					active.name = newName;
+					transcriber.activePromptTemplateName = newName;
+					await this.flushPendingSave();
+					this.display();
+				};
+			});
+		new Setting(containerEl)
+			.setName('Instructions')
+			.setDesc('Sent to Gemini. {{context}} is replaced by the meeting context and {{language}} by the expected languages; without the placeholders they are added after the instructions. Timestamp and language-detection instructions are always added.')
+			.addTextArea(textArea => {
+				textArea
+					.setValue(active.prompt)
+					.onChange((value) => {
+						active.prompt = value;
+						this.scheduleSave();
+					});
+				textArea.inputEl.rows = 10;
+				textArea.inputEl.style.width = '100%';
+			});
+		new Setting(containerEl)
+			.setName('Style Prompt')
+			.setDesc('Sent as the prompt to OpenAI and OpenAI-compatible endpoints, which imitate its style and spellings rather than follow instructions (only the last 224 tokens are read). The same placeholders apply. Leave empty for none.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('Clean transcript with complete sentences and standard punctuation.')
+					.setValue(active.hint)
+					.onChange((value) => {
+						active.hint = value;
+						this.scheduleSave();
+					});
+				textArea.inputEl.rows = 3;
+				textArea.inputEl.style.width = '100%';
+			});
+	}
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
@@ -196,53 +644,92 @@ export default class SettingsTab extends PluginSettingTab {
 
 		// Transcriber Settings
 		containerEl.createEl('h2', { text: '🎙️ Transcriber Settings' });
+		const transcriptionProvider = transcriptionProviders.get(this.plugin.settings.transcriber.provider);
 		new Setting(containerEl)
 			.setName('API Provider')
-			.setDesc('Choose OpenAI or Gemini')
-			.addDropdown(drop => drop
-				.addOption('openai', 'OpenAI')
-				.addOption('gemini', 'Gemini')
-				.setValue(this.plugin.settings.transcriber.provider)
-				.onChange(async (value) => {
-					this.plugin.settings.transcriber.provider = value as 'openai' | 'gemini';
-					await this.flushPendingSave();
-					this.display(); // Refresh to show conditional fields if any
-				})
-			);
-		new Setting(containerEl)
-			.setName('API Key')
-			.setDesc('Transcriber API Key')
-			.addText(text => {
-				text.inputEl.type = 'password';
-					text.setPlaceholder('Your API Key')
-						.setValue(this.plugin.settings.transcriber.apiKey)
-						.onChange((value) => {
-							this.plugin.settings.transcriber.apiKey = value;
-							this.scheduleSave();
-						});
+			.setDesc('Choose the transcription backend')
+			.addDropdown(drop => {
+				transcriptionProviders.list().forEach(provider => {
+					drop.addOption(provider.id, provider.displayName);
 				});
+				drop.setValue(this.plugin.settings.transcriber.provider)
+					.onChange(async (value) => {
+						this.plugin.settings.transcriber.provider = value;
+						await this.flushPendingSave();
+						this.display(); // Refresh to show provider-specific fields
+					});
+			});
+		if (!transcriptionProvider || transcriptionProvider.requiresApiKey) {
+			new Setting(containerEl)
+				.setName('API Key')
+				.setDesc('Transcriber API Key')
+				.addText(text => {
+					text.inputEl.type = 'password';
+						text.setPlaceholder('Your API Key')
+							.setValue(this.plugin.settings.transcriber.apiKey)
+							.onChange((value) => {
+								this.plugin.settings.transcriber.apiKey = value;
+								this.scheduleSave();
+							});
+					});
+		}
+		if (transcriptionProvider) {
+			this.renderProviderFields(containerEl, transcriptionProvider);
+		}
 		new Setting(containerEl)
 			.setName('Model Name')
 			.setDesc('Specify the model to use for transcription.')
 			.addText(text => text
-				.setPlaceholder('Example: gpt-4o-transcribe')
+				.setPlaceholder(`Example: ${transcriptionProvider?.modelPlaceholder ?? 'gpt-4o-transcribe'}`)
 				.setValue(this.plugin.settings.transcriber.model)
 				.onChange((value) => {
 					this.plugin.settings.transcriber.model = value;
 					this.scheduleSave();
 				})
 			);
+		this.renderProviderFallbacks(
+			containerEl,
+			transcriptionProviders.list().map(provider => ({ id: provider.id, name: provider.displayName })),
+			() => this.plugin.settings.transcriber.fallbacks ?? [],
+			fallbacks => {
+				this.plugin.settings.transcriber.fallbacks = fallbacks;
+			},
+		);
+		new Setting(containerEl)
+			.setName('Transcription Languages')
+			.setDesc('Leave empty (or "auto") to let the provider detect the language. Otherwise list the expected ISO 639-1 codes, e.g. "ko" or "de, en". A single language is passed to OpenAI as its language parameter; Gemini is told which languages to expect. Can be overridden per recording.')
+			.addText(text => text
+				.setPlaceholder('auto')
+				.setValue((this.plugin.settings.transcriber.languages ?? []).join(', '))
+				.onChange((value) => {
+					this.plugin.settings.transcriber.languages = parseLanguageList(value);
+					this.scheduleSave();
+				})
+			);
 		new Setting(containerEl)
-			.setName('Prompt')
-			.setDesc('Optional: Add words with their correct spellings to help with transcription.')
-			.addTextArea(textArea => textArea
-				.setPlaceholder('Clarify uncommon words or phrases in the transcript.')
-				.setValue(this.plugin.settings.transcriber.prompt)
+			.setName('Separate Stereo Channels')
+			.setDesc('Transcribe the left and right channels of stereo recordings on their own and label each with its speaker, e.g. calls recorded with each side on one channel. Mono recordings are transcribed as usual. Can be overridden per recording.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.transcriber.splitChannels)
 				.onChange((value) => {
-					this.plugin.settings.transcriber.prompt = value;
+					this.plugin.settings.transcriber.splitChannels = value;
 					this.scheduleSave();
 				})
 			);
+		['Left Channel Speaker', 'Right Channel Speaker'].forEach((name, index) => {
+			new Setting(containerEl)
+				.setName(name)
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.transcriber.channelSpeakers[index])
+					.setValue(this.plugin.settings.transcriber.channelSpeakers[index] ?? '')
+					.onChange((value) => {
+						const speakers = [...this.plugin.settings.transcriber.channelSpeakers];
+						speakers[index] = value.trim() || DEFAULT_SETTINGS.transcriber.channelSpeakers[index];
+						this.plugin.settings.transcriber.channelSpeakers = speakers;
+						this.scheduleSave();
+					})
+				);
+		});
 		new Setting(containerEl)
 			.setName('Temperature')
 			.setDesc('Enter a value between 0.0 and 1.0. Suggested value: 0.2.')
@@ -257,6 +744,42 @@ export default class SettingsTab extends PluginSettingTab {
 					}
 				})
 			);
+		new Setting(containerEl)
+			.setName('Chunk Overlap (seconds)')
+			.setDesc('Repeat a few seconds of audio at the start of each chunk so words at chunk boundaries are not clipped. Duplicated text is removed when chunks are stitched. 0 disables overlap; 2-5 is a good range.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(this.plugin.settings.transcriber.chunkOverlapSeconds.toString())
+				.onChange((value) => {
+					const num = parseFloat(value);
+					if (!isNaN(num) && num >= 0 && num <= 30) {
+						this.plugin.settings.transcriber.chunkOverlapSeconds = num;
+						this.scheduleSave();
+					}
+				})
+			);
+		new Setting(containerEl)
+			.setName('Chunk Format')
+			.setDesc('Encoding of the preprocessed audio chunks sent to the provider. FLAC is lossless and about half the size of WAV, so uploads are faster; choose WAV for self-hosted servers that cannot read FLAC.')
+			.addDropdown(dropdown => dropdown
+				.addOption('flac', 'FLAC (smaller uploads)')
+				.addOption('wav', 'WAV')
+				.setValue(this.plugin.settings.transcriber.chunkFormat)
+				.onChange((value) => {
+					this.plugin.settings.transcriber.chunkFormat = value as ChunkFormat;
+					this.scheduleSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Reuse Cached Transcripts')
+			.setDesc('Skip the API call when the same audio was already transcribed with the same provider, model, prompt and context. Run "Clear Transcript Cache" to empty the cache.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.transcriber.useTranscriptCache)
+				.onChange((value) => {
+					this.plugin.settings.transcriber.useTranscriptCache = value;
+					this.scheduleSave();
+				})
+			);
 		new Setting(containerEl)
 			.setName('Audio Directory')
 			.setDesc('Where to save recordings (relative to vault root)')
@@ -279,20 +802,8 @@ export default class SettingsTab extends PluginSettingTab {
 					this.scheduleSave();
 				})
 			);
-
-		// Gemini upload mode (quality vs speed)
-		if (this.plugin.settings.transcriber.provider === 'gemini') {
-			new Setting(containerEl)
-				.setName('Gemini Upload Mode')
-				.setDesc('When enabled, audio is always converted to WAV before uploading for best transcription quality. Disable to upload original compressed audio for faster uploads.')
-					.addToggle(toggle => toggle
-						.setValue(this.plugin.settings.transcriber.preferQualityWav)
-						.onChange(async (value) => {
-							this.plugin.settings.transcriber.preferQualityWav = value;
-							await this.flushPendingSave();
-						})
-					);
-		}
+		this.renderTranscriptionPromptTemplates(containerEl);
+		this.renderPreprocessingProfiles(containerEl);
 
 		// Editor Settings
 		containerEl.createEl('h2', { text: '✏️ Editor Settings' });
@@ -345,6 +856,17 @@ export default class SettingsTab extends PluginSettingTab {
 						this.scheduleSave();
 					})
 				);
+			this.renderProviderFallbacks<'openai' | 'gemini'>(
+				containerEl,
+				[
+					{ id: 'openai', name: 'OpenAI' },
+					{ id: 'gemini', name: 'Gemini' },
+				],
+				() => this.plugin.settings.editor.fallbacks ?? [],
+				fallbacks => {
+					this.plugin.settings.editor.fallbacks = fallbacks;
+				},
+			);
 
 
 			const templates = this.plugin.settings.editor.systemPromptTemplates;
@@ -528,6 +1050,243 @@ export default class SettingsTab extends PluginSettingTab {
 					})
 				);
 		}
+
+		this.renderTranslationSettings(containerEl);
+		this.renderGlossarySettings(containerEl);
+		this.renderUsageSettings(containerEl);
+	}
+
+	/**
+	 * Usage ledger toggle, price table and access to the spend summary.
+	 */
+	private renderUsageSettings(containerEl: HTMLElement): void {
+		const usage = this.plugin.settings.usage;
+		containerEl.createEl('h2', { text: '💰 Usage & Costs' });
+		new Setting(containerEl)
+			.setName('Record Usage')
+			.setDesc('Keep a local ledger of the audio minutes and tokens every transcription, editing and translation request used. Nothing leaves your vault.')
+			.addToggle(toggle => toggle
+				.setValue(usage.enabled)
+				.onChange(async (value) => {
+					usage.enabled = value;
+					await this.flushPendingSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Currency')
+			.setDesc('Label shown next to estimated costs. Enter the prices below in this currency.')
+			.addText(text => text
+				.setPlaceholder('USD')
+				.setValue(usage.currency)
+				.onChange((value) => {
+					usage.currency = value.trim();
+					this.scheduleSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Price Table')
+			.setDesc('One model per line as "model | per audio minute | per 1M input tokens | per 1M output tokens". A line also prices every model whose name starts with it (e.g. "gemini-2.5-pro" covers its previews). Costs are estimates from these prices, not invoices.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('gpt-4o-transcribe | 0.006 | 0 | 0')
+					.setValue(formatPriceTableText(usage.prices))
+					.onChange((value) => {
+						usage.prices = parsePriceTableText(value);
+						this.scheduleSave();
+					});
+				textArea.inputEl.rows = 8;
+				textArea.inputEl.style.width = '100%';
+			});
+		new Setting(containerEl)
+			.setName('Usage Summary')
+			.setDesc('Estimated spend by day, model and template. Also available as the "Show Usage and Costs" command.')
+			.addButton(button => button
+				.setButtonText('Open Summary')
+				.onClick(async () => {
+					await this.flushPendingSave();
+					await this.plugin.openUsageSummary();
+				}))
+			.addButton(button => button
+				.setButtonText('Clear Ledger')
+				.setWarning()
+				.onClick(async () => {
+					try {
+						const count = await this.plugin.usageLedger.clear();
+						new Notice(t('noticeUsageLedgerCleared', { count }));
+					} catch (error) {
+						new Notice(t('noticeError', { message: (error as Error).message }));
+						console.error('[AI Transcriber] Failed to clear usage ledger:', error);
+					}
+				}));
+	}
+
+	/**
+	 * Shared glossary, project glossaries and the correction toggle. Entries are edited as text,
+	 * one per line: `Term | mis-hearing, mis-hearing | note`.
+	 */
+	private renderGlossarySettings(containerEl: HTMLElement): void {
+		const glossary = this.plugin.settings.glossary;
+		const addEntriesArea = (setting: Setting, entries: () => GlossaryEntry[], update: (entries: GlossaryEntry[]) => void) => {
+			setting.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('Kubernetes | Cooper Netties, Kuber nettis | container orchestrator')
+					.setValue(formatGlossaryText(entries()))
+					.onChange((value) => {
+						update(parseGlossaryText(value));
+						this.scheduleSave();
+					});
+				textArea.inputEl.rows = 8;
+				textArea.inputEl.style.width = '100%';
+			});
+		};
+
+		containerEl.createEl('h2', { text: '📖 Glossary' });
+		new Setting(containerEl)
+			.setName('Correct Known Mis-hearings')
+			.setDesc('After transcription, replace every listed mis-hearing with its term in the raw transcript.')
+			.addToggle(toggle => toggle
+				.setValue(glossary.applyCorrections)
+				.onChange(async (value) => {
+					glossary.applyCorrections = value;
+					await this.flushPendingSave();
+				})
+			);
+		addEntriesArea(
+			new Setting(containerEl)
+				.setName('Shared Glossary')
+				.setDesc('Used for every recording: one term per line as "Term | mis-hearing, mis-hearing | note" (only the term is required). Terms are added to the OpenAI prompt as far as its token limit allows, and to the Gemini, editor and translation prompts.'),
+			() => glossary.entries,
+			entries => {
+				glossary.entries = entries;
+			},
+		);
+
+		containerEl.createEl('h3', { text: 'Project Glossaries' });
+		const projects = glossary.projects;
+		const active = projects.find(project => project.name === this.selectedGlossaryProject) ?? projects[0];
+		new Setting(containerEl)
+			.setName('Project')
+			.setDesc('Pick a project glossary in the template picker to use it on top of the shared glossary.')
+			.addDropdown(dropdown => {
+				projects.forEach(project => {
+					dropdown.addOption(project.name, project.name);
+				});
+				dropdown.setValue(active?.name ?? '')
+					.setDisabled(!projects.length)
+					.onChange((value) => {
+						this.selectedGlossaryProject = value;
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const name = this.ensureUniqueTemplateName('New project', new Set(projects.map(project => project.name)));
+					projects.push({ name, entries: [] });
+					this.selectedGlossaryProject = name;
+					await this.flushPendingSave();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.setDisabled(!active)
+				.onClick(async () => {
+					if (!active) return;
+					glossary.projects = projects.filter(project => project !== active);
+					this.selectedGlossaryProject = glossary.projects[0]?.name ?? '';
+					await this.flushPendingSave();
+					this.display();
+				}));
+
+		if (!active) return;
+
+		new Setting(containerEl)
+			.setName('Project Name')
+			.addText(text => {
+				text.setValue(active.name);
+				text.inputEl.onblur = async () => {
+					const newName = text.getValue().trim();
+					if (!newName || newName === active.name) {
+						text.setValue(active.name);
+						return;
+					}
+					if (projects.some(project => project.name === newName)) {
+						new Notice(`Project "${newName}" already exists. Please choose a different name.`);
+						text.setValue(active.name);
+						return;
+					}
+					active.name = newName;
+					this.selectedGlossaryProject = newName;
+					await this.flushPendingSave();
+					this.display();
+				};
+			});
+		addEntriesArea(
+			new Setting(containerEl).setName('Project Terms'),
+			() => active.entries,
+			entries => {
+				active.entries = entries;
+			},
+		);
+	}
+
+	/**
+	 * Defaults for the optional translation stage; each recording can change them in the template picker.
+	 */
+	private renderTranslationSettings(containerEl: HTMLElement): void {
+		const translation = this.plugin.settings.translation;
+		containerEl.createEl('h2', { text: '🌐 Translation Settings' });
+		new Setting(containerEl)
+			.setName('Translate Transcripts')
+			.setDesc('After transcription, also save <name>_translated_<lang>.md. Uses the editor provider, API key and model.')
+			.addToggle(toggle => toggle
+				.setValue(translation.enabled)
+				.onChange(async (value) => {
+					translation.enabled = value;
+					await this.flushPendingSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Target Language')
+			.setDesc('ISO 639-1 code of the language to translate into, e.g. "en" or "zh".')
+			.addText(text => text
+				.setPlaceholder('en')
+				.setValue(translation.targetLanguage)
+				.onChange((value) => {
+					const code = normalizeLanguage(value);
+					if (code) {
+						translation.targetLanguage = code;
+						this.scheduleSave();
+					}
+				})
+			);
+		new Setting(containerEl)
+			.setName('Layout')
+			.setDesc('Translation only, or bilingual with each original paragraph followed by its translation.')
+			.addDropdown(dropdown => dropdown
+				.addOption('translation', 'Translation only')
+				.addOption('bilingual', 'Bilingual')
+				.setValue(translation.layout)
+				.onChange(async (value) => {
+					translation.layout = value as TranslationLayout;
+					await this.flushPendingSave();
+				})
+			);
+		new Setting(containerEl)
+			.setName('Parallel Requests')
+			.setDesc('Paragraph batches translated at the same time.')
+			.addText(text => text
+				.setPlaceholder('1-10')
+				.setValue(String(translation.concurrency))
+				.onChange((value) => {
+					const num = parseInt(value, 10);
+					if (!isNaN(num) && num >= 1 && num <= 10) {
+						translation.concurrency = num;
+						this.scheduleSave();
+					}
+				})
+			);
 	}
 }
 
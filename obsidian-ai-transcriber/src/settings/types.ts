@@ -1,16 +1,113 @@
+export type ProviderOptionValue = string | number | boolean;
+export type ProviderOptions = Record<string, ProviderOptionValue>;
+/** What the preprocessing gain stage measures to normalize the level; 'off' leaves the gain alone. */
+export type NormalizationMode = 'off' | 'peak' | 'rms' | 'loudness';
+/** Encoding of the preprocessed chunks sent to the provider; both are lossless 16-bit. */
+export type ChunkFormat = 'flac' | 'wav';
+
+/**
+ * Named set of audio preprocessing parameters, selectable per transcription job.
+ */
+export interface PreprocessingProfile {
+	name: string;
+	/** Sample amplitude (0-1) below which audio counts as silence. */
+	silenceThreshold: number;
+	/** Derive silence thresholds from the recording's measured noise floor; `silenceThreshold` is the fallback. */
+	adaptiveThreshold: boolean;
+	/** Use the energy/zero-crossing voice activity detector to choose split points and trimmed stretches. */
+	voiceActivityDetection: boolean;
+	/** Window length used when measuring silence. */
+	silenceWindowSeconds: number;
+	/** How far around the target split point to look for silence. */
+	searchRangeSeconds: number;
+	/** Chunks shorter than this are dropped. */
+	minChunkSeconds: number;
+	/** Silences at least this long are removed when the provider allows trimming. */
+	minSilenceTrimSeconds: number;
+	/** Chunk length cap; 0 uses the provider's limit, which is never exceeded. */
+	maxChunkSeconds: number;
+	/** Chunks transcribed in parallel; 0 uses the provider's default. */
+	concurrency: number;
+	normalization: NormalizationMode;
+	/** Normalization target: dBFS peak, dBFS RMS or LUFS depending on `normalization`. */
+	normalizationTargetDb: number;
+	/** Upper bound on the normalization boost. */
+	maxGainDb: number;
+	/** Compress loud passages so quiet and loud voices end up at similar levels. */
+	compression: boolean;
+	compressionThresholdDb: number;
+	compressionRatio: number;
+	/** Keep boosted audio from clipping. */
+	limiter: boolean;
+	limiterCeilingDb: number;
+	/** Remove rumble below `highPassHz`. */
+	highPassFilter: boolean;
+	highPassHz: number;
+	/** Mains hum frequency to notch out with its harmonics: 50, 60, or 0 for none. */
+	humNotchHz: number;
+	/** Spectral gating noise reduction, learned from non-speech frames. */
+	noiseReduction: boolean;
+	/** Most the noise reducer attenuates any frequency, in dB. */
+	noiseReductionDb: number;
+}
+
+/**
+ * Named transcription prompt, selectable per job. `{{context}}` and `{{language}}` are replaced
+ * when the prompt is sent; without them the context and language instructions are appended.
+ */
+export interface TranscriptionPromptTemplate {
+	name: string;
+	/** Instructions for models that follow them (Gemini). */
+	prompt: string;
+	/**
+	 * Short style and vocabulary prompt for Whisper-style endpoints (OpenAI, OpenAI-compatible),
+	 * which read only its last 224 tokens and imitate rather than obey it.
+	 */
+	hint: string;
+}
+
+/**
+ * A provider and model to try when the ones before it in the chain have failed.
+ */
+export interface ProviderFallback<Provider extends string = string> {
+	provider: Provider;
+	model: string;
+	/** Empty to reuse the primary API key, which only applies when the provider is the same. */
+	apiKey: string;
+}
+
 export interface TranscriberSettings {
-	provider: 'openai' | 'gemini';
+	/** Id of a provider registered in `transcriptionProviders`. */
+	provider: string;
 	apiKey: string;
 	model: string;
-	prompt: string;
+	/** Tried in order for a chunk that still fails on the provider above after its retries. */
+	fallbacks: ProviderFallback[];
+	promptTemplates: TranscriptionPromptTemplate[];
+	activePromptTemplateName: string;
+	/** Expected spoken languages as ISO 639-1 codes; empty lets the provider detect them. */
+	languages: string[];
 	temperature: number;
+	/**
+	 * Seconds of audio repeated at the start of each chunk so boundary words are not clipped.
+	 * Duplicated text is removed when chunks are stitched. 0 disables overlap.
+	 */
+	chunkOverlapSeconds: number;
+	chunkFormat: ChunkFormat;
+	/** Reuse a stored transcript when the same audio is transcribed again with the same settings. */
+	useTranscriptCache: boolean;
+	preprocessingProfiles: PreprocessingProfile[];
+	activePreprocessingProfileName: string;
+	/** Transcribe the channels of stereo recordings separately by default. */
+	splitChannels: boolean;
+	/** Speaker name for each channel (left, right) when channels are transcribed separately. */
+	channelSpeakers: string[];
 	audioDir: string;
 	transcriptDir: string;
 	/**
-	 * For Gemini uploads: when true, always preprocess to WAV chunks for best quality.
-	 * When false, upload original compressed audio for speed (unless too large).
+	 * Provider-specific settings keyed by provider id, shaped by each provider's settings schema.
 	 */
-	preferQualityWav: boolean;
+	providerOptions: Record<string, ProviderOptions>;
 }
 
 export interface SystemPromptTemplate {
@@ -30,6 +127,8 @@ export interface EditorSettings {
 	provider: 'openai' | 'gemini';
 	apiKey: string;
 	model: string;
+	/** Tried in order for a request that still fails on the provider above after its retries. */
+	fallbacks: ProviderFallback<'openai' | 'gemini'>[];
 	participants: Participant[];
 	systemPromptTemplates: SystemPromptTemplate[];
 	activeSystemPromptTemplateName: string;
@@ -38,27 +137,289 @@ export interface EditorSettings {
 	keepOriginal: boolean;
 }
 
+/** `translation` writes only the translated text; `bilingual` keeps each original paragraph above its translation. */
+export type TranslationLayout = 'translation' | 'bilingual';
+
+/**
+ * Optional translation of the raw transcript, sent through the editor's provider and model.
+ */
+export interface TranslationSettings {
+	/** Default for new jobs; the template picker can change it per recording. */
+	enabled: boolean;
+	/** ISO 639-1 code of the language to translate into. */
+	targetLanguage: string;
+	layout: TranslationLayout;
+	/** Paragraph batches translated in parallel. */
+	concurrency: number;
+}
+
+export interface GlossaryEntry {
+	/** Preferred spelling, e.g. a product name or client acronym. */
+	term: string;
+	/** Ways the term tends to come out of transcription; replaced by `term` in the correction pass. */
+	misheard: string[];
+	/** Optional hint for the models, e.g. what an acronym stands for. */
+	note?: string;
+}
+
+export interface Glossary {
+	name: string;
+	entries: GlossaryEntry[];
+}
+
+/**
+ * Vocabulary shared by transcription, editing and translation.
+ */
+export interface GlossarySettings {
+	/** Used for every job. */
+	entries: GlossaryEntry[];
+	/** Project glossaries; the one picked for a job is added to the shared entries. */
+	projects: Glossary[];
+	/** Replace known mis-hearings in the raw transcript after transcription. */
+	applyCorrections: boolean;
+}
+
+/**
+ * List prices for one model, in the currency of `UsageSettings.currency`. A price applies to every
+ * model whose name starts with `model`; the longest match wins.
+ */
+export interface ModelPrice {
+	model: string;
+	/** Per minute of audio sent for transcription. */
+	audioPerMinute: number;
+	/** Per million prompt tokens. */
+	inputPerMillion: number;
+	/** Per million completion tokens (including reasoning tokens). */
+	outputPerMillion: number;
+}
+
+/**
+ * Local ledger of what each job sent to the providers, priced with a user-editable table.
+ */
+export interface UsageSettings {
+	enabled: boolean;
+	/** Label shown next to amounts, e.g. "USD". */
+	currency: string;
+	prices: ModelPrice[];
+}
+
 export interface PluginSettings {
 	transcriber: TranscriberSettings;
 	editor: EditorSettings;
+	translation: TranslationSettings;
+	glossary: GlossarySettings;
+	usage: UsageSettings;
 }
 
+const TRANSCRIPTION_COMPLETENESS_RULES =
+	'**CRITICAL REQUIREMENTS:**\n' +
+	'- **TRANSCRIBE THE ENTIRE AUDIO FROM START TO FINISH.** Do NOT skip, truncate, or omit any part.\n' +
+	'- **DO NOT SUMMARIZE.**\n' +
+	'- **OUTPUT MUST BE IN THE SAME LANGUAGE AS SPOKEN IN THE AUDIO.** NEVER translate to any other language.\n' +
+	'- If the audio is long, you MUST continue transcribing until the very end. Never stop early.\n\n';
+
+export const DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES: TranscriptionPromptTemplate[] = [
+	{
+		name: 'Verbatim',
+		prompt:
+			'You are a professional multilingual transcriber. Your task is to transcribe the audio file VERBATIM (word-for-word) into text.\n\n' +
+			'**CRITICAL REQUIREMENTS:**\n' +
+			'- **TRANSCRIBE THE ENTIRE AUDIO FROM START TO FINISH.** Do NOT skip, truncate, or omit any part.\n' +
+			'- **DO NOT SUMMARIZE.** Every single word must be transcribed.\n' +
+			'- **OUTPUT MUST BE IN THE SAME LANGUAGE AS SPOKEN IN THE AUDIO.** NEVER translate to any other language.\n' +
+			'- If the audio is long, you MUST continue transcribing until the very end. Never stop early.\n\n' +
+			'**GUIDELINES:**\n' +
+			'1. **Languages:** Transcribe exactly as spoken in the original language(s).\n' +
+			'   - If speakers switch languages, switch with them.\n' +
+			'   - **DO NOT TRANSLATE.**\n' +
+			'2. **Speaker Identification:** Identify different speakers. Label them as "**Speaker 1:**", "**Speaker 2:**", etc. Start a new paragraph every time the speaker changes.\n' +
+			'3. **Accuracy:** Do not correct grammar. Do not paraphrase. Include every detail, every word, every sentence.\n' +
+			'4. **Format:** Output plain text with clear paragraph breaks.\n' +
+			'5. **Noise:** Ignore non-speech sounds.\n\n' +
+			'Begin transcription now and continue until the audio ends.',
+		hint: '',
+	},
+	{
+		name: 'Clean Verbatim',
+		prompt:
+			'You are a professional multilingual transcriber. Transcribe the audio as a clean verbatim transcript.\n\n' +
+			TRANSCRIPTION_COMPLETENESS_RULES +
+			'**GUIDELINES:**\n' +
+			'1. Keep every statement and its wording, but leave out filler words ("um", "uh", "you know"), stutters, false starts and repeated words.\n' +
+			'2. Fix obvious slips of the tongue only when the intended word is unambiguous. Do not paraphrase or shorten.\n' +
+			'3. Label speakers as "**Speaker 1:**", "**Speaker 2:**", etc. and start a new paragraph at every speaker change.\n' +
+			'4. Use normal punctuation and capitalization. Ignore non-speech sounds.',
+		hint: 'Clean transcript with complete sentences and standard punctuation, without filler words or false starts.',
+	},
+	{
+		name: 'Lecture',
+		prompt:
+			'You are a professional transcriber of lectures and talks. Transcribe the audio word for word.\n\n' +
+			TRANSCRIPTION_COMPLETENESS_RULES +
+			'**GUIDELINES:**\n' +
+			'1. Most of the audio is one lecturer. Label them "**Lecturer:**"; label audience questions "**Audience:**".\n' +
+			'2. Start a new paragraph at every change of topic or about every five sentences, and at every change of speaker.\n' +
+			'3. Take particular care with technical terms, names, formulas and numbers; write numbers and units as digits.\n' +
+			'4. When the lecturer reads from or refers to a slide, transcribe what they say; do not describe the slide.\n' +
+			'5. Ignore non-speech sounds.',
+		hint: 'Lecture transcript. The speaker explains concepts in full sentences, with technical terms, names and numbers spelled correctly.',
+	},
+	{
+		name: 'Interview',
+		prompt:
+			'You are a professional transcriber of interviews. Transcribe the audio word for word.\n\n' +
+			TRANSCRIPTION_COMPLETENESS_RULES +
+			'**GUIDELINES:**\n' +
+			'1. Label the person asking the questions "**Interviewer:**" and the person answering "**Interviewee:**". With several interviewees, use "**Interviewee 1:**", "**Interviewee 2:**", etc.\n' +
+			'2. Start a new paragraph at every speaker change. Keep each answer together, however long.\n' +
+			'3. Keep hesitations and self-corrections that change the meaning of an answer; drop pure filler.\n' +
+			'4. Mark overlapping speech or inaudible words as [crosstalk] or [inaudible] rather than guessing.',
+		hint: 'Interview transcript. Interviewer: Could you tell me about that? Interviewee: Yes, so, it started when...',
+	},
+	{
+		name: 'Phone Call',
+		prompt:
+			'You are a professional transcriber of phone calls. The audio is narrow-band telephone audio, possibly with line noise and dropouts. Transcribe it word for word.\n\n' +
+			TRANSCRIPTION_COMPLETENESS_RULES +
+			'**GUIDELINES:**\n' +
+			'1. Label the speakers "**Caller:**" and "**Recipient:**" when the roles are clear, otherwise "**Speaker 1:**", "**Speaker 2:**", etc.\n' +
+			'2. Start a new paragraph at every speaker change.\n' +
+			'3. Numbers, dates, names and addresses matter most on calls: transcribe them exactly, as digits where possible.\n' +
+			'4. Mark words lost to the line as [inaudible]; do not guess. Ignore hold music, tones and line noise.',
+		hint: 'Phone call transcript. Hello? Hi, yes, this is about the order from Tuesday, number 4-5-7-2.',
+	},
+];
+
+export const DEFAULT_PREPROCESSING_PROFILES: PreprocessingProfile[] = [
+	{
+		name: 'Default',
+		silenceThreshold: 0.01,
+		adaptiveThreshold: true,
+		voiceActivityDetection: true,
+		silenceWindowSeconds: 0.3,
+		searchRangeSeconds: 5,
+		minChunkSeconds: 1,
+		minSilenceTrimSeconds: 2,
+		maxChunkSeconds: 0,
+		concurrency: 0,
+		normalization: 'off',
+		normalizationTargetDb: -23,
+		maxGainDb: 20,
+		compression: false,
+		compressionThresholdDb: -30,
+		compressionRatio: 3,
+		limiter: false,
+		limiterCeilingDb: -1,
+		highPassFilter: false,
+		highPassHz: 80,
+		humNotchHz: 0,
+		noiseReduction: false,
+		noiseReductionDb: 12,
+	},
+	{
+		name: 'Noisy room',
+		silenceThreshold: 0.03,
+		adaptiveThreshold: true,
+		voiceActivityDetection: true,
+		silenceWindowSeconds: 0.5,
+		searchRangeSeconds: 10,
+		minChunkSeconds: 1,
+		minSilenceTrimSeconds: 3,
+		maxChunkSeconds: 0,
+		concurrency: 0,
+		normalization: 'rms',
+		normalizationTargetDb: -23,
+		maxGainDb: 15,
+		compression: false,
+		compressionThresholdDb: -30,
+		compressionRatio: 3,
+		limiter: true,
+		limiterCeilingDb: -1,
+		highPassFilter: true,
+		highPassHz: 80,
+		humNotchHz: 0,
+		noiseReduction: true,
+		noiseReductionDb: 15,
+	},
+	{
+		name: 'Phone call',
+		silenceThreshold: 0.02,
+		adaptiveThreshold: true,
+		voiceActivityDetection: true,
+		silenceWindowSeconds: 0.3,
+		searchRangeSeconds: 5,
+		minChunkSeconds: 1,
+		minSilenceTrimSeconds: 1.5,
+		maxChunkSeconds: 0,
+		concurrency: 0,
+		normalization: 'loudness',
+		normalizationTargetDb: -20,
+		maxGainDb: 24,
+		compression: true,
+		compressionThresholdDb: -30,
+		compressionRatio: 3,
+		limiter: true,
+		limiterCeilingDb: -1,
+		highPassFilter: true,
+		highPassHz: 100,
+		humNotchHz: 0,
+		noiseReduction: true,
+		noiseReductionDb: 12,
+	},
+	{
+		name: 'Lecture',
+		silenceThreshold: 0.008,
+		adaptiveThreshold: true,
+		voiceActivityDetection: true,
+		silenceWindowSeconds: 0.6,
+		searchRangeSeconds: 15,
+		minChunkSeconds: 1,
+		minSilenceTrimSeconds: 4,
+		maxChunkSeconds: 0,
+		concurrency: 0,
+		normalization: 'loudness',
+		normalizationTargetDb: -23,
+		maxGainDb: 20,
+		compression: false,
+		compressionThresholdDb: -30,
+		compressionRatio: 3,
+		limiter: true,
+		limiterCeilingDb: -1,
+		highPassFilter: true,
+		highPassHz: 80,
+		humNotchHz: 0,
+		noiseReduction: false,
+		noiseReductionDb: 12,
+	},
+];
+
 export const DEFAULT_SETTINGS: PluginSettings = {
 	transcriber: {
 		provider: 'openai',
 		apiKey: '',
 		model: 'gpt-4o-transcribe',
-		prompt: '',
+		fallbacks: [],
+		promptTemplates: DEFAULT_TRANSCRIPTION_PROMPT_TEMPLATES,
+		activePromptTemplateName: 'Verbatim',
+		languages: [],
 		temperature: 0.2,
+		chunkOverlapSeconds: 0,
+		chunkFormat: 'flac',
+		useTranscriptCache: true,
+		preprocessingProfiles: DEFAULT_PREPROCESSING_PROFILES,
+		activePreprocessingProfileName: 'Default',
+		splitChannels: false,
+		channelSpeakers: ['Me', 'Remote'],
 		audioDir: '',
 		transcriptDir: '',
-		preferQualityWav: true,
+		providerOptions: {},
 	},
 	editor: {
 		enabled: true,
 		provider: 'gemini',
 		apiKey: '',
 		model: 'gemini-2.5-pro-preview-06-05',
+		fallbacks: [],
 		participants: [],
 		systemPromptTemplates: [
 			{
@@ -71,4 +432,31 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 		temperature: 0.3,
 		keepOriginal: true,
 	},
+	translation: {
+		enabled: false,
+		targetLanguage: 'en',
+		layout: 'translation',
+		concurrency: 3,
+	},
+	glossary: {
+		entries: [],
+		projects: [],
+		applyCorrections: true,
+	},
+	usage: {
+		enabled: true,
+		currency: 'USD',
+		prices: [
+			{ model: 'whisper-1', audioPerMinute: 0.006, inputPerMillion: 0, outputPerMillion: 0 },
+			{ model: 'gpt-4o-transcribe', audioPerMinute: 0.006, inputPerMillion: 0, outputPerMillion: 0 },
+			{ model: 'gpt-4o-mini-transcribe', audioPerMinute: 0.003, inputPerMillion: 0, outputPerMillion: 0 },
+			{ model: 'gpt-4o', audioPerMinute: 0, inputPerMillion: 2.5, outputPerMillion: 10 },
+			{ model: 'gpt-4o-mini', audioPerMinute: 0, inputPerMillion: 0.15, outputPerMillion: 0.6 },
+			{ model: 'gpt-4.1', audioPerMinute: 0, inputPerMillion: 2, outputPerMillion: 8 },
+			{ model: 'gpt-4.1-mini', audioPerMinute: 0, inputPerMillion: 0.4, outputPerMillion: 1.6 },
+			{ model: 'gemini-2.0-flash', audioPerMinute: 0.0013, inputPerMillion: 0.1, outputPerMillion: 0.4 },
+			{ model: 'gemini-2.5-flash', audioPerMinute: 0.0019, inputPerMillion: 0.3, outputPerMillion: 2.5 },
+			{ model: 'gemini-2.5-pro', audioPerMinute: 0.0024, inputPerMillion: 1.25, outputPerMillion: 10 },
+		],
+	},
 };
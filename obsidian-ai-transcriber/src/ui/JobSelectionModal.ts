@@ -0,0 +1,37 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { TranscriptionJob } from '../services/jobs';
+import { t } from '../i18n';
+
+/**
+ * Pick one of the unfinished transcription jobs to resume.
+ */
+export class JobSelectionModal extends FuzzySuggestModal<TranscriptionJob> {
+	private jobs: TranscriptionJob[];
+	private onChoose: (job: TranscriptionJob) => void;
+
+	constructor(app: App, jobs: TranscriptionJob[], onChoose: (job: TranscriptionJob) => void) {
+		super(app);
+		this.jobs = jobs;
+		this.onChoose = onChoose;
+		this.setPlaceholder(t('resumeJobPlaceholder'));
+	}
+
+	getItems(): TranscriptionJob[] {
+		return this.jobs;
+	}
+
+	getItemText(job: TranscriptionJob): string {
+		const completed = Object.keys(job.completed).length;
+		const total = job.chunks?.length ?? 0;
+		return t('resumeJobItem', {
+			path: job.sourcePaths?.join(' + ') ?? job.sourcePath,
+			completed,
+			total: total || '?',
+			date: new Date(job.updatedAt).toLocaleString(),
+		});
+	}
+
+	onChooseItem(job: TranscriptionJob): void {
+		this.onChoose(job);
+	}
+}
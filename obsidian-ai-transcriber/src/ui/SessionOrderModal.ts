@@ -0,0 +1,82 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { t } from '../i18n';
+
+/**
+ * Order the recordings of a multi-file session and name the resulting note.
+ * Files start in natural name order, which matches how recorders number their parts.
+ */
+export class SessionOrderModal extends Modal {
+	private files: TFile[];
+	private baseName: string;
+	private onSubmit: (files: TFile[], baseName: string) => void;
+
+	constructor(app: App, files: TFile[], onSubmit: (files: TFile[], baseName: string) => void) {
+		super(app);
+		this.files = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+		this.baseName = `${this.files[0]?.basename ?? 'session'}_session`;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('ai-transcriber-session-modal');
+		contentEl.createEl('h2', { text: t('sessionModalTitle') });
+		contentEl.createEl('p', { text: t('sessionModalDesc') });
+
+		new Setting(contentEl).setName(t('sessionNameLabel')).addText(text => {
+			text.setValue(this.baseName);
+			text.onChange(value => {
+				this.baseName = value;
+			});
+		});
+
+		this.files.forEach((file, index) => {
+			new Setting(contentEl)
+				.setName(`${index + 1}. ${file.name}`)
+				.setDesc(file.parent?.path ?? '')
+				.addExtraButton(button =>
+					button
+						.setIcon('arrow-up')
+						.setTooltip(t('sessionMoveUp'))
+						.setDisabled(index === 0)
+						.onClick(() => this.move(index, -1)),
+				)
+				.addExtraButton(button =>
+					button
+						.setIcon('arrow-down')
+						.setTooltip(t('sessionMoveDown'))
+						.setDisabled(index === this.files.length - 1)
+						.onClick(() => this.move(index, 1)),
+				);
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button.setButtonText(t('cancel')).onClick(() => this.close()))
+			.addButton(button =>
+				button
+					.setButtonText(t('sessionStart'))
+					.setCta()
+					.onClick(() => {
+						const baseName = this.baseName.trim().replace(/[\\/:*?"<>|]/g, '_') || `${this.files[0].basename}_session`;
+						this.close();
+						this.onSubmit(this.files, baseName);
+					}),
+			);
+	}
+
+	private move(index: number, offset: number): void {
+		const target = index + offset;
+		if (target < 0 || target >= this.files.length) return;
+		[this.files[index], this.files[target]] = [this.files[target], this.files[index]];
+		this.render();
+	}
+}
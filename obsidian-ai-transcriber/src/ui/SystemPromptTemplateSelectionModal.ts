@@ -1,14 +1,29 @@
-import { App, Modal, Setting } from 'obsidian';
+import { App, Modal, Setting, TextComponent } from 'obsidian';
 import ObsidianAITranscriber from '../../main';
-import { Participant } from '../settings/types';
+import { Participant, TranslationLayout } from '../settings/types';
 import ParticipantModal from './ParticipantModal';
 import { t } from '../i18n';
+import { normalizeLanguage, parseLanguageList } from '../services/language';
+import { TranslationRequest } from '../services/translation';
 
 export interface TemplateSelectionResult {
+	/** Editor system prompt template; empty when the editor is disabled. */
 	name: string;
 	context: string;
 	participants: Participant[];
 	purpose: string;
+	/** Preprocessing profile for the transcription this template will edit. */
+	preprocessingProfile: string;
+	/** Transcription prompt template for the transcription this template will edit. */
+	promptTemplate: string;
+	/** Expected spoken languages for the transcription; empty means automatic detection. */
+	languages: string[];
+	/** Translation to produce after transcription, or null for none. */
+	translation: TranslationRequest | null;
+	/** Project glossary added to the shared glossary, or '' for none. */
+	glossaryProject: string;
+	/** Speaker per stereo channel, or null to transcribe the channels mixed. */
+	channelSpeakers: string[] | null;
 }
 
 export class SystemPromptTemplateSelectionModal extends Modal {
@@ -17,6 +32,15 @@ export class SystemPromptTemplateSelectionModal extends Modal {
 	private selectedName: string;
 	private selectedParticipantIds: Set<string>;
 	private meetingPurpose: string;
+	private selectedProfileName: string;
+	private selectedPromptTemplateName: string;
+	private languagesText: string;
+	private translate: boolean;
+	private translationTarget: string;
+	private translationLayout: TranslationLayout;
+	private glossaryProject: string;
+	private splitChannels: boolean;
+	private channelSpeakers: string[];
 
 	constructor(app: App, plugin: ObsidianAITranscriber, onSubmit: (selection: TemplateSelectionResult | null) => void) {
 		super(app);
@@ -25,6 +49,15 @@ export class SystemPromptTemplateSelectionModal extends Modal {
 		this.selectedName = plugin.settings.editor.activeSystemPromptTemplateName; // Default to current active
 		this.selectedParticipantIds = new Set<string>();
 		this.meetingPurpose = '';
+		this.selectedProfileName = plugin.settings.transcriber.activePreprocessingProfileName;
+		this.selectedPromptTemplateName = plugin.settings.transcriber.activePromptTemplateName;
+		this.languagesText = (plugin.settings.transcriber.languages ?? []).join(', ');
+		this.translate = plugin.settings.translation.enabled;
+		this.translationTarget = plugin.settings.translation.targetLanguage;
+		this.translationLayout = plugin.settings.translation.layout;
+		this.glossaryProject = '';
+		this.splitChannels = plugin.settings.transcriber.splitChannels;
+		this.channelSpeakers = [...plugin.settings.transcriber.channelSpeakers];
 	}
 
 	onOpen() {
@@ -32,11 +65,13 @@ export class SystemPromptTemplateSelectionModal extends Modal {
 		contentEl.empty();
 		contentEl.addClass('ai-transcriber-template-selection-modal');
 
+		// Without the editor only the options for the transcription itself are asked for.
+		const editorEnabled = this.plugin.settings.editor.enabled;
 		const templates = this.plugin.settings.editor.systemPromptTemplates;
 		if (!this.plugin.settings.editor.participants) {
 			this.plugin.settings.editor.participants = [];
 		}
-		if (!templates || templates.length === 0) {
+		if (editorEnabled && (!templates || templates.length === 0)) {
 			contentEl.createEl('p', { text: 'No system prompt templates found. Please create one in settings.' });
 			new Setting(contentEl).addButton(btn =>
 				btn
@@ -52,20 +87,152 @@ export class SystemPromptTemplateSelectionModal extends Modal {
 
 		// --- Header ---
 		const headerEl = contentEl.createDiv({ cls: 'tpl-header' });
-		headerEl.createEl('h2', { text: t('templateSelectTitle') });
+		headerEl.createEl('h2', { text: editorEnabled ? t('templateSelectTitle') : t('jobOptionsTitle') });
 
 		// --- Template selection section ---
 		const templateSection = contentEl.createDiv({ cls: 'tpl-section' });
+		if (editorEnabled) {
+			new Setting(templateSection)
+				.setName(t('templateLabel'))
+				.setDesc(t('templateDesc'))
+				.addDropdown(dropdown => {
+					templates.forEach(template => {
+						dropdown.addOption(template.name, template.name);
+					});
+					dropdown.setValue(this.selectedName);
+					dropdown.onChange(value => {
+						this.selectedName = value;
+					});
+				});
+		}
+
+		const promptTemplates = this.plugin.settings.transcriber.promptTemplates;
+		if (promptTemplates.length > 1) {
+			new Setting(templateSection)
+				.setName(t('transcriptionPromptTemplateLabel'))
+				.setDesc(t('transcriptionPromptTemplateDesc'))
+				.addDropdown(dropdown => {
+					promptTemplates.forEach(template => {
+						dropdown.addOption(template.name, template.name);
+					});
+					dropdown.setValue(this.selectedPromptTemplateName);
+					dropdown.onChange(value => {
+						this.selectedPromptTemplateName = value;
+					});
+				});
+		}
+
+		const profiles = this.plugin.settings.transcriber.preprocessingProfiles;
+		if (profiles.length > 1) {
+			new Setting(templateSection)
+				.setName(t('preprocessingProfileLabel'))
+				.setDesc(t('preprocessingProfileDesc'))
+				.addDropdown(dropdown => {
+					profiles.forEach(profile => {
+						dropdown.addOption(profile.name, profile.name);
+					});
+					dropdown.setValue(this.selectedProfileName);
+					dropdown.onChange(value => {
+						this.selectedProfileName = value;
+					});
+				});
+		}
+
 		new Setting(templateSection)
-			.setName(t('templateLabel'))
-			.setDesc(t('templateDesc'))
-			.addDropdown(dropdown => {
-				templates.forEach(template => {
-					dropdown.addOption(template.name, template.name);
+			.setName(t('transcriptionLanguageLabel'))
+			.setDesc(t('transcriptionLanguageDesc'))
+			.addText(text => {
+				text.setPlaceholder('auto');
+				text.setValue(this.languagesText);
+				text.onChange(value => {
+					this.languagesText = value;
+				});
+			});
+
+		const glossaryProjects = this.plugin.settings.glossary.projects;
+		if (glossaryProjects.length) {
+			new Setting(templateSection)
+				.setName(t('glossaryProjectLabel'))
+				.setDesc(t('glossaryProjectDesc'))
+				.addDropdown(dropdown => {
+					dropdown.addOption('', t('glossaryProjectNone'));
+					glossaryProjects.forEach(project => {
+						dropdown.addOption(project.name, project.name);
+					});
+					dropdown.setValue(this.glossaryProject);
+					dropdown.onChange(value => {
+						this.glossaryProject = value;
+					});
+				});
+		}
+
+		// --- Channels section ---
+		const channelSection = contentEl.createDiv({ cls: 'tpl-section' });
+		new Setting(channelSection)
+			.setName(t('splitChannelsLabel'))
+			.setDesc(t('splitChannelsDesc'))
+			.addToggle(toggle => {
+				toggle.setValue(this.splitChannels);
+				toggle.onChange(value => {
+					this.splitChannels = value;
 				});
-				dropdown.setValue(this.selectedName);
+			});
+		[t('channelSpeakerLeftLabel'), t('channelSpeakerRightLabel')].forEach((label, index) => {
+			const setting = new Setting(channelSection).setName(label);
+			let speakerText: TextComponent | undefined;
+			setting.addText(text => {
+				speakerText = text;
+				text.setValue(this.channelSpeakers[index] ?? '');
+				text.onChange(value => {
+					this.channelSpeakers[index] = value;
+				});
+			});
+			const participants = this.plugin.settings.editor.participants;
+			if (participants.length) {
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', t('channelSpeakerPickParticipant'));
+					participants.forEach(participant => {
+						dropdown.addOption(participant.name, participant.name);
+					});
+					dropdown.onChange(value => {
+						if (!value) return;
+						this.channelSpeakers[index] = value;
+						speakerText?.setValue(value);
+						dropdown.setValue('');
+					});
+				});
+			}
+		});
+
+		// --- Translation section ---
+		const translationSection = contentEl.createDiv({ cls: 'tpl-section' });
+		new Setting(translationSection)
+			.setName(t('translationLabel'))
+			.setDesc(t('translationDesc'))
+			.addToggle(toggle => {
+				toggle.setValue(this.translate);
+				toggle.onChange(value => {
+					this.translate = value;
+				});
+			});
+		new Setting(translationSection)
+			.setName(t('translationTargetLabel'))
+			.setDesc(t('translationTargetDesc'))
+			.addText(text => {
+				text.setPlaceholder('en');
+				text.setValue(this.translationTarget);
+				text.onChange(value => {
+					this.translationTarget = value;
+				});
+			});
+		new Setting(translationSection)
+			.setName(t('translationLayoutLabel'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('translation', t('translationLayoutTranslation'));
+				dropdown.addOption('bilingual', t('translationLayoutBilingual'));
+				dropdown.setValue(this.translationLayout);
 				dropdown.onChange(value => {
-					this.selectedName = value;
+					this.translationLayout = value as TranslationLayout;
 				});
 			});
 
@@ -201,16 +368,33 @@ export class SystemPromptTemplateSelectionModal extends Modal {
 							context += `${context ? '\n\n' : ''}${t('contextPurposeTitle')}\n${this.meetingPurpose.trim()}`;
 						}
 						this.onSubmit({
-							name: this.selectedName,
+							name: editorEnabled ? this.selectedName : '',
 							context,
 							participants: selectedParticipants,
 							purpose: this.meetingPurpose,
+							preprocessingProfile: this.selectedProfileName,
+							promptTemplate: this.selectedPromptTemplateName,
+							languages: parseLanguageList(this.languagesText),
+							translation: this.getTranslationRequest(),
+							glossaryProject: this.glossaryProject,
+							channelSpeakers: this.getChannelSpeakers(),
 						});
 						this.close();
 					})
 			);
 	}
 
+	private getChannelSpeakers(): string[] | null {
+		if (!this.splitChannels) return null;
+		const defaults = this.plugin.settings.transcriber.channelSpeakers;
+		return [0, 1].map(index => this.channelSpeakers[index]?.trim() || defaults[index] || `Channel ${index + 1}`);
+	}
+
+	private getTranslationRequest(): TranslationRequest | null {
+		const targetLanguage = normalizeLanguage(this.translationTarget);
+		return this.translate && targetLanguage ? { targetLanguage, layout: this.translationLayout } : null;
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
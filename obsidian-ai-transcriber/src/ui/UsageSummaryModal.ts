@@ -0,0 +1,91 @@
+import { App, Modal } from 'obsidian';
+import { UsageSettings } from '../settings/types';
+import { UsageRecord, UsageTotals, summarizeUsage } from '../services/usage';
+import { t } from '../i18n';
+
+/**
+ * Spend estimated from the usage ledger, by day, model and template.
+ */
+export class UsageSummaryModal extends Modal {
+	private records: UsageRecord[];
+	private settings: UsageSettings;
+
+	constructor(app: App, records: UsageRecord[], settings: UsageSettings) {
+		super(app);
+		this.records = records;
+		this.settings = settings;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('ai-transcriber-usage-modal');
+		contentEl.createEl('h2', { text: t('usageTitle') });
+
+		if (!this.records.length) {
+			contentEl.createEl('p', { text: t('usageEmpty') });
+			return;
+		}
+
+		const summary = summarizeUsage(this.records, this.settings.prices);
+		contentEl.createEl('p', {
+			text: t('usageTotal', {
+				cost: this.formatCost(summary.total.cost),
+				requests: summary.total.requests,
+				minutes: this.formatMinutes(summary.total.audioSeconds),
+				tokens: (summary.total.inputTokens + summary.total.outputTokens).toLocaleString(),
+			}),
+		});
+		if (summary.total.unpriced) {
+			contentEl.createEl('p', {
+				cls: 'ai-transcriber-usage-note',
+				text: t('usageUnpricedNote', { count: summary.total.unpriced }),
+			});
+		}
+
+		this.renderTable(t('usageByDay'), summary.byDay);
+		this.renderTable(t('usageByModel'), summary.byModel);
+		this.renderTable(
+			t('usageByTemplate'),
+			summary.byTemplate.map(([template, totals]) => [template || t('usageNoTemplate'), totals]),
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private renderTable(title: string, rows: Array<[string, UsageTotals]>): void {
+		this.contentEl.createEl('h3', { text: title });
+		const table = this.contentEl.createEl('table');
+		const header = table.createEl('thead').createEl('tr');
+		for (const column of [
+			'',
+			t('usageColumnRequests'),
+			t('usageColumnAudio'),
+			t('usageColumnInput'),
+			t('usageColumnOutput'),
+			t('usageColumnCost'),
+		]) {
+			header.createEl('th', { text: column });
+		}
+		const body = table.createEl('tbody');
+		for (const [label, totals] of rows) {
+			const row = body.createEl('tr');
+			row.createEl('td', { text: label });
+			row.createEl('td', { text: String(totals.requests) });
+			row.createEl('td', { text: this.formatMinutes(totals.audioSeconds) });
+			row.createEl('td', { text: totals.inputTokens.toLocaleString() });
+			row.createEl('td', { text: totals.outputTokens.toLocaleString() });
+			row.createEl('td', { text: this.formatCost(totals.cost) + (totals.unpriced ? ' *' : '') });
+		}
+	}
+
+	private formatCost(cost: number): string {
+		return `${cost.toFixed(cost < 1 ? 4 : 2)} ${this.settings.currency}`.trim();
+	}
+
+	private formatMinutes(seconds: number): string {
+		return (seconds / 60).toFixed(1);
+	}
+}
@@ -126,40 +126,39 @@ export default class RecordModal extends Modal {
 				const audioFileName = audioPath.substring(audioPath.lastIndexOf('/') + 1);
 				const baseName = audioFileName.replace(/\.[^/.]+$/, '');
 
-				if (this.plugin.settings.editor.enabled) {
-					new SystemPromptTemplateSelectionModal(this.app, this.plugin, async (selection) => {
-						const selectedTemplateName =
-							typeof selection === 'object' && selection ? selection.name : selection;
-						const context = typeof selection === 'object' && selection ? selection.context : '';
-						if (!selectedTemplateName) {
-							new Notice(t('noticeTemplateSelectionCancelledAudioSaved'));
-							this.plugin.updateStatus(t('statusIdle'));
-							this.close();
-							return;
-						}
-
-						const selectedTemplate = this.plugin.settings.editor.systemPromptTemplates.find(t => t.name === selectedTemplateName);
-						if (!selectedTemplate) {
-							new Notice(t('noticeTemplateNotFoundAudioSaved'));
-							this.plugin.updateStatus(t('statusIdle'));
-							this.close();
-							return;
-						}
+				new SystemPromptTemplateSelectionModal(this.app, this.plugin, async (selection) => {
+					const editorEnabled = this.plugin.settings.editor.enabled;
+					if (!selection || (editorEnabled && !selection.name)) {
+						new Notice(editorEnabled ? t('noticeTemplateSelectionCancelledAudioSaved') : t('noticeJobOptionsCancelledAudioSaved'));
+						this.plugin.updateStatus(t('statusIdle'));
+						this.close();
+						return;
+					}
 
-						await this.plugin.processAudioBlob(result.blob, baseName, {
-							systemPromptOverride: selectedTemplate.prompt,
-							context,
-							saveRawWhenEditorEnabled: this.plugin.settings.editor.keepOriginal,
-							openResult: true,
-						});
+					const selectedTemplate = this.plugin.settings.editor.systemPromptTemplates.find(t => t.name === selection.name);
+					if (editorEnabled && !selectedTemplate) {
+						new Notice(t('noticeTemplateNotFoundAudioSaved'));
+						this.plugin.updateStatus(t('statusIdle'));
 						this.close();
-					}).open();
-				} else {
+						return;
+					}
+
 					await this.plugin.processAudioBlob(result.blob, baseName, {
+						systemPromptOverride: editorEnabled ? selectedTemplate?.prompt : undefined,
+						context: selection.context,
+						saveRawWhenEditorEnabled: this.plugin.settings.editor.keepOriginal,
 						openResult: true,
+						sourcePath: audioPath,
+						preprocessingProfile: selection.preprocessingProfile,
+						promptTemplate: selection.promptTemplate,
+						languages: selection.languages,
+						translation: selection.translation,
+						glossaryProject: selection.glossaryProject,
+						channelSpeakers: selection.channelSpeakers,
+						templateName: editorEnabled ? selection.name : undefined,
 					});
 					this.close();
-				}
+				}).open();
 			} catch (error: unknown) { // Outer catch for errors during recorder.stop() or fileService.saveRecording()
 				new Notice(t('noticeError', { message: (error as Error).message }));
 				console.error(error);